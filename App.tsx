@@ -7,7 +7,27 @@ import { ChatWindow } from './components/ChatWindow';
 import { SettingsModal } from './components/SettingsModal';
 
 const App: React.FC = () => {
-  const { introPlayed, currentUser, isMobileMenuOpen, setMobileMenuOpen, isDarkMode } = useStore();
+  const { introPlayed, currentUser, isMobileMenuOpen, setMobileMenuOpen, isDarkMode, hydrate, joinGroupByInvite } = useStore();
+
+  // Restore the cached session while the splash screen plays
+  useEffect(() => {
+    hydrate();
+  }, [hydrate]);
+
+  // Invite links (?invite=code) join the group once we're signed in
+  useEffect(() => {
+    if (!currentUser) return;
+    const url = new URL(window.location.href);
+    const code = url.searchParams.get('invite');
+    if (!code) return;
+    // Drop it from the address bar so a reload doesn't try again
+    url.searchParams.delete('invite');
+    window.history.replaceState(null, '', url.toString());
+    joinGroupByInvite(code).catch(e => {
+      console.warn("Joining by invite failed", e);
+      alert("This invite link is invalid or has expired.");
+    });
+  }, [currentUser?.id, joinGroupByInvite]);
 
   // Handle Resize for mobile menu
   useEffect(() => {
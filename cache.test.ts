@@ -0,0 +1,82 @@
+// @vitest-environment jsdom
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Message, MessageType } from './types';
+import { idb } from './idb';
+import { cache, MAX_CACHED_CHATS, MAX_CACHED_MESSAGES_PER_CHAT } from './cache';
+
+// IndexedDB (fake-indexeddb) answers on setImmediate, which stays real; only timeouts and the clock are faked
+const tick = () => new Promise(resolve => setImmediate(resolve));
+const until = async (check: () => Promise<boolean>) => {
+  for (let i = 0; i < 500; i++) {
+    if (await check()) return;
+    await tick();
+  }
+  throw new Error('Cache write did not land');
+};
+
+const message = (chatId: string, n: number, extra: Partial<Message> = {}): Message => ({
+  id: `${chatId}-${n}`, chatId, senderId: 'u1', content: String(n), type: MessageType.TEXT, createdAt: new Date(n), readBy: [], ...extra
+});
+
+const cachedIds = async () => Object.keys((await cache.load()).messages).sort();
+
+// Saves one chat and waits for its batched write (and any eviction) to finish
+const saveAndFlush = async (chatId: string) => {
+  cache.saveMessages(chatId, [message(chatId, 1)]);
+  await vi.advanceTimersByTimeAsync(1000);
+  const writtenAt = Date.now();
+  await until(async () => (await idb.get<{ updatedAt: number }>('messages', chatId))?.updatedAt === writtenAt);
+  await until(async () => (await idb.getAll('messages')).length <= MAX_CACHED_CHATS);
+};
+
+describe('cache', () => {
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+    await cache.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('batches writes and keeps only the newest sent messages of a chat', async () => {
+    const history = Array.from({ length: MAX_CACHED_MESSAGES_PER_CHAT + 10 }, (_, i) => message('a', i));
+    cache.saveMessages('a', [message('a', 0)]);
+    cache.saveMessages('a', [...history, message('a', 999, { status: 'pending' }), message('a', 1000, { status: 'failed' })]);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(await idb.get('messages', 'a')).toBeUndefined();
+
+    await vi.advanceTimersByTimeAsync(1);
+    await until(async () => !!(await idb.get('messages', 'a')));
+    const { messages } = await cache.load();
+    expect(messages.a).toHaveLength(MAX_CACHED_MESSAGES_PER_CHAT);
+    expect(messages.a[0].id).toBe('a-10');
+    expect(messages.a[messages.a.length - 1].id).toBe(`a-${MAX_CACHED_MESSAGES_PER_CHAT + 9}`);
+  });
+
+  it('evicts the chats written longest ago once there are too many', async () => {
+    const chatIds = Array.from({ length: MAX_CACHED_CHATS }, (_, i) => `c${String(i).padStart(2, '0')}`);
+    for (const chatId of chatIds) await saveAndFlush(chatId);
+    expect(await cachedIds()).toEqual(chatIds);
+
+    // c00 is written again, so c01 is now the stalest
+    await saveAndFlush('c00');
+    await saveAndFlush('new');
+
+    const remaining = await cachedIds();
+    expect(remaining).toHaveLength(MAX_CACHED_CHATS);
+    expect(remaining).toContain('c00');
+    expect(remaining).toContain('new');
+    expect(remaining).not.toContain('c01');
+  });
+
+  it('drops pending writes on clear', async () => {
+    cache.saveMessages('a', [message('a', 1)]);
+    await cache.clear();
+    await vi.advanceTimersByTimeAsync(1000);
+    for (let i = 0; i < 20; i++) await tick();
+    expect(await cachedIds()).toEqual([]);
+  });
+});
@@ -0,0 +1,126 @@
+import { Chat, Message, User } from './types';
+import { idb } from './idb';
+
+// Offline cache of what the store shows, so a reload paints immediately and works without network.
+// The server stays the source of truth: whatever it returns replaces the cached copy.
+
+// Size bounds: newest messages per chat, and how many chats keep their history on disk
+export const MAX_CACHED_MESSAGES_PER_CHAT = 200;
+export const MAX_CACHED_CHATS = 50;
+const WRITE_DELAY_MS = 1000;
+
+interface MetaRecord<T> {
+  key: string;
+  value: T;
+}
+
+interface MessagesRecord {
+  chatId: string;
+  messages: Message[];
+  updatedAt: number;
+}
+
+export interface CacheSnapshot {
+  user: User | null;
+  chats: Chat[];
+  messages: Record<string, Message[]>;
+}
+
+// Queued / failed messages belong to the outbox, which persists them itself
+const isCacheable = (m: Message) => m.status !== 'pending' && m.status !== 'failed';
+
+// Transient client state is not worth restoring
+const stripChat = (chat: Chat): Chat => ({
+  ...chat,
+  typingUsers: [],
+  typingActivity: undefined,
+  lastMessage: chat.lastMessage && isCacheable(chat.lastMessage) ? chat.lastMessage : undefined
+});
+
+let pendingUser: User | null | undefined;
+let pendingChats: Chat[] | undefined;
+const pendingMessages = new Map<string, Message[]>();
+let writeTimer: number | null = null;
+
+const evictOldChats = async () => {
+  const records = await idb.getAll<MessagesRecord>('messages');
+  if (records.length <= MAX_CACHED_CHATS) return;
+  const stale = records
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .slice(MAX_CACHED_CHATS);
+  await Promise.all(stale.map(r => idb.delete('messages', r.chatId)));
+};
+
+const flush = async () => {
+  writeTimer = null;
+  const user = pendingUser;
+  const chats = pendingChats;
+  const messages = Array.from(pendingMessages.entries());
+  pendingUser = undefined;
+  pendingChats = undefined;
+  pendingMessages.clear();
+
+  try {
+    if (user !== undefined) await idb.put<MetaRecord<User | null>>('meta', { key: 'currentUser', value: user });
+    if (chats) await idb.put<MetaRecord<Chat[]>>('meta', { key: 'chats', value: chats.map(stripChat) });
+    for (const [chatId, list] of messages) {
+      await idb.put<MessagesRecord>('messages', {
+        chatId,
+        messages: list.filter(isCacheable).slice(-MAX_CACHED_MESSAGES_PER_CHAT),
+        updatedAt: Date.now()
+      });
+    }
+    if (messages.length > 0) await evictOldChats();
+  } catch (e) {
+    console.warn("Cache write failed", e);
+  }
+};
+
+const scheduleWrite = () => {
+  if (!writeTimer) writeTimer = window.setTimeout(flush, WRITE_DELAY_MS);
+};
+
+export const cache = {
+  load: async (): Promise<CacheSnapshot> => {
+    try {
+      const [user, chats, records] = await Promise.all([
+        idb.get<MetaRecord<User | null>>('meta', 'currentUser'),
+        idb.get<MetaRecord<Chat[]>>('meta', 'chats'),
+        idb.getAll<MessagesRecord>('messages')
+      ]);
+      const messages: Record<string, Message[]> = {};
+      records.forEach(r => { messages[r.chatId] = r.messages; });
+      return { user: user?.value || null, chats: chats?.value || [], messages };
+    } catch (e) {
+      console.warn("Cache read failed", e);
+      return { user: null, chats: [], messages: {} };
+    }
+  },
+
+  // Writes are batched; calling these on every store change is cheap
+  saveUser: (user: User | null) => {
+    pendingUser = user;
+    scheduleWrite();
+  },
+  saveChats: (chats: Chat[]) => {
+    pendingChats = chats;
+    scheduleWrite();
+  },
+  saveMessages: (chatId: string, messages: Message[]) => {
+    pendingMessages.set(chatId, messages);
+    scheduleWrite();
+  },
+
+  clear: async () => {
+    if (writeTimer) clearTimeout(writeTimer);
+    writeTimer = null;
+    pendingUser = undefined;
+    pendingChats = undefined;
+    pendingMessages.clear();
+    try {
+      await Promise.all([idb.clear('meta'), idb.clear('messages')]);
+    } catch (e) {
+      console.warn("Cache clear failed", e);
+    }
+  }
+};
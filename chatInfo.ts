@@ -0,0 +1,93 @@
+import { Chat, GroupInvite, User, UserStatus } from './types';
+
+// How a chat is presented: direct chats look like the other person, groups like themselves
+
+// Falls back to the first participant so a chat with ourselves still has someone to show
+export const getOtherUser = (chat: Chat, currentUserId?: string): User | undefined =>
+  chat.participants.find(p => p.id !== currentUserId) || chat.participants[0];
+
+// Unnamed groups are called after their members, like "Ann, Bob and 2 others"
+export const getChatTitle = (chat: Chat, currentUserId?: string): string => {
+  if (!chat.isGroup) return getOtherUser(chat, currentUserId)?.username || 'Chat';
+  if (chat.name) return chat.name;
+  const names = chat.participants.filter(p => p.id !== currentUserId).map(p => p.username);
+  if (names.length === 0) return 'Group';
+  if (names.length <= 2) return names.join(' and ');
+  return `${names.slice(0, 2).join(', ')} and ${names.length - 2} other${names.length > 3 ? 's' : ''}`;
+};
+
+export const getChatAvatar = (chat: Chat, currentUserId?: string): string | undefined => {
+  if (!chat.isGroup) return getOtherUser(chat, currentUserId)?.avatarUrl;
+  return chat.avatarUrl || `https://ui-avatars.com/api/?name=${encodeURIComponent(getChatTitle(chat, currentUserId))}&background=random`;
+};
+
+// Groups without any role data (e.g. older servers) treat everyone as a member
+export const isGroupAdmin = (chat: Chat, userId?: string): boolean =>
+  !!userId && chat.isGroup && chat.memberRoles?.[userId] === 'ADMIN';
+
+export const formatMemberCount = (chat: Chat): string => {
+  const online = chat.participants.filter(p => p.status === UserStatus.ONLINE).length;
+  const members = `${chat.participants.length} member${chat.participants.length === 1 ? '' : 's'}`;
+  return online > 0 ? `${members}, ${online} online` : members;
+};
+
+// Status line under a person's name: "Active now", "Last seen today at 14:30"...
+export const getLastSeenText = (user: User): string => {
+  if (user.status === UserStatus.ONLINE) return 'Active now';
+  if (user.status === UserStatus.BUSY) return user.statusText ? `Busy: ${user.statusText}` : 'Busy';
+  if (user.lastSeen) {
+    const lastSeenDate = new Date(user.lastSeen);
+    if (isNaN(lastSeenDate.getTime())) return 'Offline';
+
+    const now = new Date();
+    const diffMs = now.getTime() - lastSeenDate.getTime();
+    const diffMins = Math.floor(diffMs / 60000);
+
+    if (diffMins < 1) return 'Last seen just now';
+
+    const isToday = lastSeenDate.getDate() === now.getDate() &&
+                    lastSeenDate.getMonth() === now.getMonth() &&
+                    lastSeenDate.getFullYear() === now.getFullYear();
+
+    const timeString = lastSeenDate.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+    if (isToday) return `Last seen today at ${timeString}`;
+    return `Last seen ${lastSeenDate.toLocaleDateString([], { month: 'short', day: 'numeric' })} at ${timeString}`;
+  }
+  return 'Offline';
+};
+
+// Sender names in group bubbles; the same person always gets the same color
+const NAME_COLORS = ['text-rose-500', 'text-orange-500', 'text-amber-600', 'text-emerald-600', 'text-teal-600', 'text-sky-600', 'text-indigo-500', 'text-fuchsia-600'];
+
+export const getMemberColor = (userId: string): string => {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  return NAME_COLORS[Math.abs(hash) % NAME_COLORS.length];
+};
+
+// "12849, 88392 33421" -> ['12849', '88392', '33421']
+export const parseFriendCodes = (input: string): string[] =>
+  Array.from(new Set(input.split(/[\s,;]+/).map(code => code.replace(/^#/, '')).filter(code => /^\d+$/.test(code))));
+
+// --- Invites ---
+
+// Opening the link signs in as usual and then joins, see App.tsx
+export const getInviteLink = (code: string): string =>
+  `${window.location.origin}${window.location.pathname}?invite=${encodeURIComponent(code)}`;
+
+// Accepts a full invite link or just the code
+export const parseInviteCode = (input: string): string | null => {
+  const value = input.trim();
+  if (!value) return null;
+  try {
+    const code = new URL(value).searchParams.get('invite');
+    if (code) return code.trim();
+  } catch {
+    // Not a URL
+  }
+  return /^[A-Za-z0-9_-]{4,64}$/.test(value) ? value : null;
+};
+
+export const isInviteExpired = (invite: GroupInvite, now = Date.now()): boolean =>
+  !!invite.expiresAt && invite.expiresAt.getTime() <= now;
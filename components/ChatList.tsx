@@ -1,40 +1,74 @@
 import React, { useState, useMemo } from 'react';
 import { useStore } from '../store';
-import { Plus, Search, Settings, QrCode } from 'lucide-react';
-import { motion } from 'framer-motion';
-import { UserStatus } from '../types';
-
-const StatusBadge: React.FC<{ status: UserStatus }> = ({ status }) => {
-  const colors = {
-    [UserStatus.ONLINE]: 'bg-green-500',
-    [UserStatus.OFFLINE]: 'bg-gray-400',
-    [UserStatus.BUSY]: 'bg-red-500',
-    [UserStatus.AWAY]: 'bg-yellow-500',
-  };
-  return <div className={`absolute bottom-0 right-0 w-3.5 h-3.5 rounded-full border-2 border-white ${colors[status] || colors[UserStatus.OFFLINE]}`} />;
-};
+import { Plus, Search, Settings, QrCode, CheckCheck, MoreHorizontal, MailOpen, Mail, Bell, BellOff, Users, MessageCircle, Contact as ContactIcon } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Chat, Message, MessageType, UserStatus } from '../types';
+import { getTypingText } from '../typing';
+import { getMessagePreview } from '../preview';
+import { stripFormatting } from '../format';
+import { StatusPicker } from './StatusPicker';
+import { StatusBadge } from './StatusBadge';
+import { NewGroupModal } from './NewGroupModal';
+import { ContactList } from './ContactList';
+import { getChatAvatar, getChatTitle, getOtherUser } from '../chatInfo';
+import { getContactsConfig } from '../constants';
 
 export const ChatList: React.FC = () => {
-  const { chats, currentUser, activeChatId, setActiveChat, createChat, setSettingsOpen } = useStore();
+  const { chats, contacts, messages, hiddenMessageIds, drafts, currentUser, activeChatId, setActiveChat, createChat, sendFriendRequest, sidebarTab, setSidebarTab, setSettingsOpen, realtimeStatus, markChatRead, markChatUnread, markAllChatsRead, toggleChatMute } = useStore();
   const [isAdding, setIsAdding] = useState(false);
   const [friendCode, setFriendCode] = useState('');
   const [searchTerm, setSearchTerm] = useState('');
   const [loadingChat, setLoadingChat] = useState(false);
+  const [menuChatId, setMenuChatId] = useState<string | null>(null);
+  const [isStatusPickerOpen, setStatusPickerOpen] = useState(false);
+  const [isNewGroupOpen, setNewGroupOpen] = useState(false);
+
+  const hasUnread = chats.some(c => c.unreadCount > 0 || c.markedUnread);
+  const requestCount = contacts.filter(c => c.status === 'PENDING' && c.isIncoming).length;
+  // With contacts-only chats a code sends a friend request; otherwise it opens a chat right away
+  const { contactsOnlyChats } = getContactsConfig();
 
-  const handleCreateChat = async () => {
+  const handleAddFriend = async () => {
     if (!friendCode) return;
     setLoadingChat(true);
-    const success = await createChat(friendCode);
-    setLoadingChat(false);
-    
-    if (success) {
+    try {
+      const isContact = contacts.some(c => c.status === 'ACCEPTED' && c.user.friendCode === friendCode);
+      if (contactsOnlyChats && !isContact) {
+        const contact = await sendFriendRequest(friendCode);
+        // Accepted already when they had asked us first
+        if (contact.status === 'ACCEPTED') await createChat(friendCode);
+        else setSidebarTab('contacts');
+      } else {
+        await createChat(friendCode);
+      }
       setIsAdding(false);
       setFriendCode('');
-    } else {
-      alert("User not found! Try these codes: 12849, 88392, 33421");
+    } catch (e: any) {
+      console.warn("Adding by friend code failed", e);
+      alert(e?.message || "User not found! Try these codes: 12849, 88392, 33421");
+    } finally {
+      setLoadingChat(false);
     }
   };
 
+  // In groups the preview says who wrote it
+  const getSenderPrefix = (chat: Chat, message: Message) => {
+    if (!chat.isGroup || message.type === MessageType.SYSTEM) return '';
+    if (message.senderId === currentUser?.id) return 'You: ';
+    const sender = chat.participants.find(p => p.id === message.senderId);
+    return sender ? `${sender.username}: ` : '';
+  };
+
+  // A last message deleted "for me" falls back to the newest visible one we have loaded
+  const getPreviewMessage = (chat: Chat): Message | undefined => {
+    if (!chat.lastMessage || !hiddenMessageIds.includes(chat.lastMessage.id)) return chat.lastMessage;
+    const loaded = messages[chat.id] || [];
+    for (let i = loaded.length - 1; i >= 0; i--) {
+      if (!hiddenMessageIds.includes(loaded[i].id)) return loaded[i];
+    }
+    return undefined;
+  };
+
   // Sort chats by latest message, then filter by search
   const sortedAndFilteredChats = useMemo(() => {
     const sorted = [...chats].sort((a, b) => {
@@ -45,11 +79,7 @@ export const ChatList: React.FC = () => {
 
     if (!searchTerm) return sorted;
 
-    return sorted.filter(chat => {
-        // Find other user to check name
-        const other = chat.participants.find(p => p.id !== currentUser?.id) || chat.participants[0];
-        return other?.username.toLowerCase().includes(searchTerm.toLowerCase());
-    });
+    return sorted.filter(chat => getChatTitle(chat, currentUser?.id).toLowerCase().includes(searchTerm.toLowerCase()));
   }, [chats, currentUser?.id, searchTerm]);
 
   return (
@@ -57,17 +87,44 @@ export const ChatList: React.FC = () => {
       {/* Header */}
       <div className="p-6 pb-2">
         <div className="flex items-center justify-between mb-6">
-          <div className="flex items-center gap-3">
-            <div className="relative">
+          <div className="flex items-center gap-3 relative">
+            <button className="relative" onClick={() => setStatusPickerOpen(!isStatusPickerOpen)} title="Set status">
               <img src={currentUser?.avatarUrl} alt="Me" className="w-10 h-10 rounded-full object-cover shadow-sm" />
               <StatusBadge status={currentUser?.status || UserStatus.ONLINE} />
-            </div>
+            </button>
+            <AnimatePresence>
+              {isStatusPickerOpen && (
+                <motion.div
+                  initial={{ opacity: 0, y: -4 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -4 }}
+                  className="absolute top-12 left-0 z-30 w-72 bg-white dark:bg-gray-800 rounded-2xl shadow-xl border border-gray-100 dark:border-gray-700 p-2"
+                >
+                  <StatusPicker onDone={() => setStatusPickerOpen(false)} />
+                </motion.div>
+              )}
+            </AnimatePresence>
             <div>
                 <h2 className="font-bold text-gray-800 dark:text-gray-100 leading-tight">@{currentUser?.username}</h2>
+                {currentUser?.statusText && (
+                    <p className="text-[11px] text-gray-500 dark:text-gray-400 truncate max-w-[160px]">{currentUser.statusText}</p>
+                )}
                 <p className="text-[10px] text-gray-500 font-mono tracking-wider bg-gray-100 dark:bg-gray-800 px-1.5 py-0.5 rounded-md inline-block mt-0.5">#{currentUser?.friendCode}</p>
+                {(realtimeStatus === 'connecting' || realtimeStatus === 'reconnecting') && (
+                    <p className="text-[10px] text-gray-400 mt-0.5 animate-pulse">Connecting...</p>
+                )}
             </div>
           </div>
           <div className="flex gap-2">
+            {hasUnread && (
+              <button 
+                onClick={markAllChatsRead}
+                title="Mark all as read"
+                className="p-2 bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-300 rounded-xl hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+              >
+                <CheckCheck className="w-5 h-5" />
+              </button>
+            )}
             <button 
               onClick={() => setSettingsOpen(true)}
               className="p-2 bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-300 rounded-xl hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
@@ -90,15 +147,22 @@ export const ChatList: React.FC = () => {
                  <div className="relative flex-1">
                     <input 
                         type="number"
-                        placeholder="Friend Code (e.g. 12849)"
+                        placeholder={contactsOnlyChats ? "Add contact by Friend Code" : "Friend Code (e.g. 12849)"}
                         value={friendCode}
                         onChange={(e) => setFriendCode(e.target.value)}
-                        onKeyDown={(e) => e.key === 'Enter' && handleCreateChat()}
+                        onKeyDown={(e) => e.key === 'Enter' && handleAddFriend()}
                         className="w-full bg-gray-100 dark:bg-gray-800 dark:text-gray-200 rounded-2xl py-2.5 px-4 text-sm outline-none border border-brand-200 focus:border-brand-500 focus:bg-white dark:focus:bg-gray-700 transition-all appearance-none"
                         autoFocus
                         disabled={loadingChat}
                     />
                  </div>
+                 <button
+                    onClick={() => setNewGroupOpen(true)}
+                    className="p-2.5 bg-gray-100 dark:bg-gray-800 rounded-2xl text-gray-500 hover:text-brand-500 transition-colors"
+                    title="New group"
+                 >
+                    <Users className="w-5 h-5" />
+                 </button>
                  <button className="p-2.5 bg-gray-100 dark:bg-gray-800 rounded-2xl text-gray-500 hover:text-brand-500 transition-colors">
                     <QrCode className="w-5 h-5" />
                  </button>
@@ -110,7 +174,7 @@ export const ChatList: React.FC = () => {
                     type="text" 
                     value={searchTerm}
                     onChange={(e) => setSearchTerm(e.target.value)}
-                    placeholder="Search chats..."
+                    placeholder={sidebarTab === 'contacts' ? "Search contacts..." : "Search chats..."}
                     className="w-full bg-gray-100 dark:bg-gray-800 dark:text-gray-200 rounded-2xl py-2.5 pl-10 pr-4 text-sm outline-none border border-transparent focus:border-brand-300 focus:bg-white dark:focus:bg-gray-700 transition-all placeholder-gray-400 text-gray-700"
                 />
             </>
@@ -118,35 +182,63 @@ export const ChatList: React.FC = () => {
         </div>
       </div>
 
+      {/* Tabs */}
+      <div className="px-6 flex gap-1">
+        {([['chats', 'Chats', MessageCircle], ['contacts', 'Contacts', ContactIcon]] as const).map(([tab, label, Icon]) => (
+          <button
+            key={tab}
+            onClick={() => setSidebarTab(tab)}
+            className={`flex-1 py-1.5 rounded-xl text-xs font-semibold flex items-center justify-center gap-1.5 transition-colors ${
+              sidebarTab === tab ? 'bg-brand-50 text-brand-600 dark:bg-brand-900/30 dark:text-brand-400' : 'text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800'
+            }`}
+          >
+            <Icon className="w-3.5 h-3.5" />
+            {label}
+            {tab === 'contacts' && requestCount > 0 && (
+              <span className="bg-brand-500 text-white text-[10px] font-bold px-1.5 h-4 min-w-[1rem] flex items-center justify-center rounded-full" title="Friend requests">
+                {requestCount}
+              </span>
+            )}
+          </button>
+        ))}
+      </div>
+
       {/* List */}
       <div className="flex-1 overflow-y-auto px-3 space-y-1 py-2">
-        {sortedAndFilteredChats.map((chat) => {
-          // Robust logic to find the 'other' user
-          const otherUser = chat.participants.find(p => p.id !== currentUser?.id) || chat.participants[0];
-          
-          if (!otherUser) return null;
+        {sidebarTab === 'contacts' ? <ContactList searchTerm={searchTerm} /> : sortedAndFilteredChats.map((chat) => {
+          const otherUser = getOtherUser(chat, currentUser?.id);
+          if (!otherUser && !chat.isGroup) return null;
+          const title = getChatTitle(chat, currentUser?.id);
 
           const isActive = chat.id === activeChatId;
+          const typingText = getTypingText(chat, currentUser?.id);
+          const previewMessage = getPreviewMessage(chat);
+          // The open chat's draft is right there in the composer
+          const draftText = isActive ? '' : stripFormatting(drafts[chat.id]?.text || '');
           const timeDisplay = chat.lastMessage?.createdAt 
             ? new Date(chat.lastMessage.createdAt).toLocaleTimeString([], { hour: '2-digit', minute:'2-digit' })
             : '';
           
+          const isUnread = chat.unreadCount > 0 || !!chat.markedUnread;
+          
           return (
-            <motion.button
-              key={chat.id}
-              layout
+            <motion.div key={chat.id} layout className="relative group">
+            <button
               onClick={() => setActiveChat(chat.id)}
+              onContextMenu={(e) => { e.preventDefault(); setMenuChatId(chat.id); }}
               className={`w-full p-3 rounded-2xl flex items-center gap-3 transition-all ${isActive ? 'bg-brand-50 shadow-sm dark:bg-brand-900/20' : 'hover:bg-gray-50 dark:hover:bg-gray-800'}`}
             >
               <div className="relative shrink-0">
-                <img src={otherUser.avatarUrl} alt={otherUser.username} className="w-12 h-12 rounded-full object-cover" />
-                <StatusBadge status={otherUser.status} />
+                <img src={getChatAvatar(chat, currentUser?.id)} alt={title} className="w-12 h-12 rounded-full object-cover" />
+                {!chat.isGroup && otherUser && <StatusBadge status={otherUser.status} />}
               </div>
               
               <div className="flex-1 text-left min-w-0">
                 <div className="flex justify-between items-baseline">
-                  <span className={`font-semibold text-sm truncate ${isActive ? 'text-brand-900 dark:text-brand-300' : 'text-gray-800 dark:text-gray-200'}`}>
-                    {otherUser.username}
+                  <span className={`flex items-center gap-1 min-w-0 font-semibold text-sm ${isActive ? 'text-brand-900 dark:text-brand-300' : 'text-gray-800 dark:text-gray-200'}`}>
+                    {chat.isGroup && <Users className="w-3.5 h-3.5 shrink-0 text-gray-400" />}
+                    <span className="truncate">{title}</span>
+                    {chat.isMuted && <BellOff className="w-3 h-3 shrink-0 text-gray-400" />}
                   </span>
                   {timeDisplay && (
                     <span className="text-[10px] text-gray-400 shrink-0 ml-2">
@@ -156,21 +248,72 @@ export const ChatList: React.FC = () => {
                 </div>
                 <div className="flex justify-between items-center mt-0.5">
                     <p className={`text-xs truncate max-w-[140px] ${isActive ? 'text-brand-700 dark:text-brand-400 font-medium' : 'text-gray-500'}`}>
-                        {chat.typingUsers.length > 0 
-                            ? <span className="text-brand-500 italic">Typing...</span> 
-                            : chat.lastMessage?.content || "No messages yet"}
+                        {typingText
+                            ? <span className="text-brand-500 italic">{typingText}</span> 
+                            : draftText
+                            ? <><span className="text-red-500 font-medium">Draft:</span> {draftText}</>
+                            : (previewMessage && getSenderPrefix(chat, previewMessage) + getMessagePreview(previewMessage)) || "No messages yet"}
                     </p>
-                    {chat.unreadCount > 0 && (
-                        <span className="bg-brand-500 text-white text-[10px] font-bold px-1.5 h-4 min-w-[1rem] flex items-center justify-center rounded-full">
-                            {chat.unreadCount}
-                        </span>
-                    )}
+                    <div className="flex items-center gap-1 shrink-0">
+                        {(chat.unreadMentionCount || 0) > 0 && (
+                            <span
+                                className="bg-brand-500 text-white text-[10px] font-bold w-4 h-4 flex items-center justify-center rounded-full"
+                                title={chat.unreadMentionCount === 1 ? 'You were mentioned' : `You were mentioned ${chat.unreadMentionCount} times`}
+                            >
+                                @
+                            </span>
+                        )}
+                        {chat.unreadCount > 0 ? (
+                            <span className={`${chat.isMuted ? 'bg-gray-400 dark:bg-gray-600' : 'bg-brand-500'} text-white text-[10px] font-bold px-1.5 h-4 min-w-[1rem] flex items-center justify-center rounded-full`}>
+                                {chat.unreadCount}
+                            </span>
+                        ) : chat.markedUnread && (
+                            <span className="bg-brand-500 w-3 h-3 rounded-full" />
+                        )}
+                    </div>
                 </div>
               </div>
-            </motion.button>
+            </button>
+
+            <button
+              onClick={() => setMenuChatId(menuChatId === chat.id ? null : chat.id)}
+              className="absolute top-2 right-2 p-1 rounded-lg text-gray-400 hover:text-brand-500 bg-white/80 dark:bg-gray-900/80 opacity-0 group-hover:opacity-100 transition-opacity"
+            >
+              <MoreHorizontal className="w-4 h-4" />
+            </button>
+
+            <AnimatePresence>
+              {menuChatId === chat.id && (
+                <motion.div
+                  initial={{ opacity: 0, scale: 0.95 }}
+                  animate={{ opacity: 1, scale: 1 }}
+                  exit={{ opacity: 0, scale: 0.95 }}
+                  onMouseLeave={() => setMenuChatId(null)}
+                  className="absolute top-9 right-2 z-30 bg-white dark:bg-gray-800 rounded-xl shadow-xl border border-gray-100 dark:border-gray-700 py-1 min-w-[160px]"
+                >
+                  <button
+                    onClick={() => { isUnread ? markChatRead(chat.id) : markChatUnread(chat.id); setMenuChatId(null); }}
+                    className="w-full px-3 py-2 text-sm text-left flex items-center gap-2 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700"
+                  >
+                    {isUnread ? <MailOpen className="w-4 h-4" /> : <Mail className="w-4 h-4" />}
+                    {isUnread ? 'Mark as read' : 'Mark as unread'}
+                  </button>
+                  <button
+                    onClick={() => { toggleChatMute(chat.id); setMenuChatId(null); }}
+                    className="w-full px-3 py-2 text-sm text-left flex items-center gap-2 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700"
+                  >
+                    {chat.isMuted ? <Bell className="w-4 h-4" /> : <BellOff className="w-4 h-4" />}
+                    {chat.isMuted ? 'Unmute' : 'Mute'}
+                  </button>
+                </motion.div>
+              )}
+            </AnimatePresence>
+            </motion.div>
           );
         })}
       </div>
+
+      <NewGroupModal isOpen={isNewGroupOpen} onClose={() => setNewGroupOpen(false)} />
     </div>
   );
 };
\ No newline at end of file
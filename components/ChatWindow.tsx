@@ -1,115 +1,270 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
 import { useStore } from '../store';
-import { Send, Paperclip, Mic, Image as ImageIcon, Smile, MoreVertical, Phone, Video, Trash2, Square, Play, Pause, Loader2 } from 'lucide-react';
-import { MessageType, User, UserStatus } from '../types';
-import { motion, AnimatePresence } from 'framer-motion';
-import { api } from '../api';
-
-// --- Custom Audio Player Component ---
-const AudioMessage: React.FC<{ src: string; isMe: boolean }> = ({ src, isMe }) => {
-  const audioRef = useRef<HTMLAudioElement>(null);
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [progress, setProgress] = useState(0);
-  const [duration, setDuration] = useState(0);
-
-  useEffect(() => {
-    const audio = audioRef.current;
-    if (!audio) return;
-
-    const onTimeUpdate = () => {
-        if (audio.duration && !isNaN(audio.duration)) {
-            setProgress((audio.currentTime / audio.duration) * 100);
-        }
-    };
-    
-    const onEnded = () => {
-        setIsPlaying(false);
-        setProgress(0);
-    };
-
-    const onLoadedMetadata = () => {
-        if (!isNaN(audio.duration) && audio.duration !== Infinity) {
-            setDuration(audio.duration);
-        }
-    };
-
-    audio.addEventListener('timeupdate', onTimeUpdate);
-    audio.addEventListener('ended', onEnded);
-    audio.addEventListener('loadedmetadata', onLoadedMetadata);
-
-    return () => {
-        audio.pause();
-        audio.removeEventListener('timeupdate', onTimeUpdate);
-        audio.removeEventListener('ended', onEnded);
-        audio.removeEventListener('loadedmetadata', onLoadedMetadata);
-    };
-  }, [src]);
-
-  const togglePlay = () => {
-    if (!audioRef.current) return;
-    if (isPlaying) {
-        audioRef.current.pause();
-    } else {
-        audioRef.current.play();
-    }
-    setIsPlaying(!isPlaying);
-  };
-
-  const formatTime = (time: number) => {
-    if (!time || isNaN(time) || time === Infinity) return "0:00";
-    const minutes = Math.floor(time / 60);
-    const seconds = Math.floor(time % 60);
-    return `${minutes}:${seconds < 10 ? '0' : ''}${seconds}`;
-  };
-
-  return (
-    <div className={`flex items-center gap-3 min-w-[200px] ${isMe ? 'text-white' : 'text-gray-800 dark:text-gray-200'}`}>
-        <audio ref={audioRef} src={src} preload="metadata" />
-        <button 
-            onClick={togglePlay}
-            className={`p-2 rounded-full shrink-0 transition-colors ${
-                isMe ? 'bg-white/20 hover:bg-white/30 text-white' : 'bg-brand-100 hover:bg-brand-200 text-brand-600 dark:bg-gray-700 dark:text-brand-400 dark:hover:bg-gray-600'
-            }`}
-        >
-            {isPlaying ? <Pause className="w-4 h-4 fill-current" /> : <Play className="w-4 h-4 fill-current ml-0.5" />}
-        </button>
-        <div className="flex-1 flex flex-col justify-center gap-1">
-            <div className={`h-1 rounded-full overflow-hidden w-full ${isMe ? 'bg-white/30' : 'bg-gray-200 dark:bg-gray-600'}`}>
-                <div 
-                    className={`h-full transition-all duration-100 ${isMe ? 'bg-white' : 'bg-brand-500'}`} 
-                    style={{ width: `${progress}%` }}
-                />
-            </div>
-            <div className={`text-[10px] font-medium ${isMe ? 'text-white/80' : 'text-gray-400 dark:text-gray-400'}`}>
-                {isPlaying ? formatTime(audioRef.current?.currentTime || 0) : formatTime(duration)}
-            </div>
-        </div>
-    </div>
-  );
-};
+import { Send, Paperclip, Mic, Image as ImageIcon, Smile, MoreVertical, Phone, Video, Trash2, Square, Loader2, Reply, X, Pencil, Check, Type, Bold, Italic, Strikethrough, Code, SquareCode, EyeOff, CalendarClock, ChevronRight } from 'lucide-react';
+import { Message, MessageType, User, UserStatus } from '../types';
+import { motion } from 'framer-motion';
+import { getTypingText } from '../typing';
+import { MessageBubble } from './MessageBubble';
+import { VirtualMessageList, VirtualListHandle } from './VirtualMessageList';
+import { ForwardModal } from './ForwardModal';
+import { PinnedBanner } from './PinnedBanner';
+import { LinkPreviewCard } from './LinkPreviewCard';
+import { MentionSuggestions } from './MentionSuggestions';
+import { EmojiSuggestions } from './EmojiSuggestions';
+import { EmojiPicker } from './EmojiPicker';
+import { ScheduleModal } from './ScheduleModal';
+import { ScheduledMessagesModal } from './ScheduledMessagesModal';
+import { GroupInfoPanel } from './GroupInfoPanel';
+import { findPreviewUrl } from '../linkPreview';
+import { getMessagePreview } from '../preview';
+import { FormatStyle, TextEdit, applyFormat, getShortcutStyle } from '../format';
+import { findMentionCandidates, getMentionQuery, insertMention } from '../mentions';
+import { Emoji, applySkinTone, expandShortcode, findShortcodeMatches, getShortcodeQuery, insertText } from '../emoji';
+import { formatSendTime } from '../scheduling';
+import { formatMemberCount, getChatAvatar, getChatTitle, getLastSeenText, getOtherUser } from '../chatInfo';
+
+const getMessageKey = (msg: Message) => msg.id;
+
+const HIGHLIGHT_MS = 2000;
+// The composer grows with its text up to this height, then scrolls
+const COMPOSER_MAX_HEIGHT_PX = 160;
+// Pause in typing before a link in the composer gets unfurled
+const COMPOSER_PREVIEW_DELAY_MS = 600;
+
+const FORMAT_BUTTONS: { style: FormatStyle; icon: React.ElementType; label: string }[] = [
+  { style: 'bold', icon: Bold, label: 'Bold (Ctrl+B)' },
+  { style: 'italic', icon: Italic, label: 'Italic (Ctrl+I)' },
+  { style: 'strike', icon: Strikethrough, label: 'Strikethrough (Ctrl+Shift+X)' },
+  { style: 'code', icon: Code, label: 'Code (Ctrl+E)' },
+  { style: 'codeBlock', icon: SquareCode, label: 'Code block (Ctrl+Shift+M)' },
+  { style: 'spoiler', icon: EyeOff, label: 'Spoiler (Ctrl+Shift+H)' },
+];
 
 // --- Main ChatWindow Component ---
 export const ChatWindow: React.FC = () => {
-  const { activeChatId, chats, messages, sendMessage, setMobileMenuOpen, currentUser } = useStore();
+  const { activeChatId, chats, messages, messagePaging, loadOlderMessages, loadUntilMessage, sendMessage, editMessage, loadMessageRevisions, deleteMessage, toggleReaction, pinMessage, unpinMessage, scheduleMessage, scheduledMessages, setDraft, emojiSkinTone, recordEmojiUse, hiddenMessageIds, sendFile, retryMessage, discardMessage, setMobileMenuOpen, currentUser, notifyTyping, stopTyping, markMessagesRead } = useStore();
   const [inputText, setInputText] = useState('');
   const [isRecording, setIsRecording] = useState(false);
   const [recordingDuration, setRecordingDuration] = useState(0);
-  const [isUploading, setIsUploading] = useState(false);
-
+  const [renderedRange, setRenderedRange] = useState('0:0');
+  const [isPageVisible, setIsPageVisible] = useState(document.visibilityState === 'visible');
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const [forwardingMessage, setForwardingMessage] = useState<Message | null>(null);
+  const [isFormatBarOpen, setFormatBarOpen] = useState(false);
+  const [composerPreviewUrl, setComposerPreviewUrl] = useState<string | null>(null);
+  const [dismissedPreviewUrl, setDismissedPreviewUrl] = useState<string | null>(null);
+  const [mentionQuery, setMentionQuery] = useState<{ start: number; query: string } | null>(null);
+  const [emojiQuery, setEmojiQuery] = useState<{ start: number; query: string } | null>(null);
+  const [suggestionIndex, setSuggestionIndex] = useState(0); // In whichever of the two lists is showing
+  const [isEmojiPickerOpen, setEmojiPickerOpen] = useState(false);
+  const [isScheduleOpen, setScheduleOpen] = useState(false);
+  const [isScheduledListOpen, setScheduledListOpen] = useState(false);
+  const [isGroupInfoOpen, setGroupInfoOpen] = useState(false);
+  const [jumpTargetId, setJumpTargetId] = useState<string | null>(null);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+
+  const messagesContainerRef = useRef<HTMLDivElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const listHandleRef = useRef<VirtualListHandle | null>(null);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  // Scroll metrics captured right before older messages are prepended
+  const prependAnchorRef = useRef<{ scrollHeight: number; scrollTop: number; firstId?: string } | null>(null);
+  // Entry animations: only for messages that arrive after the chat was opened, and only once
+  const openedAtRef = useRef({ chatId: null as string | null, at: Date.now() });
+  const animatedIdsRef = useRef(new Set<string>());
   const fileInputRef = useRef<HTMLInputElement>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
   const timerRef = useRef<number | null>(null);
+  // The chat a voice message is being recorded for, fixed when recording starts
+  const recordingChatIdRef = useRef<string | null>(null);
 
   const activeChat = chats.find(c => c.id === activeChatId);
-  // Find other user: logic is find participant that is NOT me, or default to first if somehow fail
-  const otherUser = activeChat?.participants.find(p => p.id !== currentUser?.id) || activeChat?.participants[0];
-  const activeMessages = activeChatId ? messages[activeChatId] || [] : [];
+  const otherUser = activeChat ? getOtherUser(activeChat, currentUser?.id) : undefined;
+  const chatMessages = activeChatId ? messages[activeChatId] : undefined;
+  // Messages deleted "for me" are still in the store (paging relies on them), just never shown
+  const activeMessages = useMemo(() => {
+    const list = chatMessages || [];
+    if (hiddenMessageIds.length === 0) return list;
+    const hidden = new Set(hiddenMessageIds);
+    return list.filter(m => !hidden.has(m.id));
+  }, [chatMessages, hiddenMessageIds]);
+  // Media still sitting in the outbox waiting for its upload
+  const isUploading = activeMessages.some(m => m.status === 'pending' && (m.attachments?.length || 0) > 0);
+
+  const messagesById = useMemo(() => new Map(activeMessages.map(m => [m.id, m])), [activeMessages]);
+  const scheduled = activeChatId ? scheduledMessages[activeChatId] || [] : [];
+  const mentionCandidates = useMemo(
+    () => mentionQuery && activeChat ? findMentionCandidates(activeChat.participants, mentionQuery.query, currentUser?.id) : [],
+    [mentionQuery, activeChat?.participants, currentUser?.id]
+  );
+  const emojiMatches = useMemo(() => emojiQuery ? findShortcodeMatches(emojiQuery.query) : [], [emojiQuery]);
+  const suggestionCount = mentionCandidates.length || emojiMatches.length;
+
+  const paging = activeChatId ? messagePaging[activeChatId] : undefined;
+  const lastMessageId = activeMessages[activeMessages.length - 1]?.id;
+  const firstMessageId = activeMessages[0]?.id;
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [activeMessages.length, activeChatId]); // Only scroll on new messages or chat change
+  }, [lastMessageId, activeChatId]); // Only scroll on new messages or chat change (not when history is prepended)
+
+  useEffect(() => {
+    activeMessages.forEach(m => animatedIdsRef.current.add(m.id));
+  }, [activeMessages]);
+
+  // Keep the viewport on the same message while older ones are inserted above it
+  useLayoutEffect(() => {
+    const container = messagesContainerRef.current;
+    const anchor = prependAnchorRef.current;
+    if (!container || !anchor || anchor.firstId === firstMessageId) return;
+    container.scrollTop = container.scrollHeight - anchor.scrollHeight + anchor.scrollTop;
+    prependAnchorRef.current = null;
+  }, [firstMessageId]);
+
+  const handleMessagesScroll = () => {
+    const container = messagesContainerRef.current;
+    if (!container || !activeChatId || paging?.isLoadingOlder || paging?.hasMoreOlder === false) return;
+    if (container.scrollTop > 200) return;
+    prependAnchorRef.current = { scrollHeight: container.scrollHeight, scrollTop: container.scrollTop, firstId: firstMessageId };
+    loadOlderMessages(activeChatId);
+  };
+
+  useEffect(() => {
+    const onVisibilityChange = () => setIsPageVisible(document.visibilityState === 'visible');
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', onVisibilityChange);
+  }, []);
+
+  // Mark incoming messages as read once they are actually on screen (and the tab is in front)
+  useEffect(() => {
+    const container = messagesContainerRef.current;
+    if (!container || !activeChatId || !isPageVisible) return;
+
+    const observer = new IntersectionObserver((entries) => {
+        const visibleIds = entries
+            .filter(entry => entry.isIntersecting)
+            .map(entry => (entry.target as HTMLElement).dataset.unreadId)
+            .filter((id): id is string => !!id);
+        if (visibleIds.length > 0) markMessagesRead(activeChatId, visibleIds);
+    }, { root: container, threshold: 0.6 });
+
+    container.querySelectorAll<HTMLElement>('[data-unread-id]').forEach(el => observer.observe(el));
+    return () => observer.disconnect();
+  }, [activeChatId, activeMessages, renderedRange, isPageVisible, markMessagesRead]);
+
+  // Leaving a chat ends any typing / recording indicator we were showing there
+  useEffect(() => {
+    if (!activeChatId) return;
+    return () => stopTyping(activeChatId);
+  }, [activeChatId, stopTyping]);
+
+  // The composer shows the open chat's draft whenever it isn't busy editing a message
+  const restoreDraft = useCallback(() => {
+    setInputText(activeChatId ? useStore.getState().drafts[activeChatId]?.text || '' : '');
+  }, [activeChatId]);
+
+  useEffect(() => {
+    restoreDraft();
+    setReplyingTo(null);
+    setEditingMessage(null);
+    setJumpTargetId(null);
+    setHighlightedId(null);
+    setDismissedPreviewUrl(null);
+    setMentionQuery(null);
+    setEmojiQuery(null);
+    setEmojiPickerOpen(false);
+    setScheduleOpen(false);
+    setScheduledListOpen(false);
+    setGroupInfoOpen(false);
+  }, [activeChatId, restoreDraft]);
+
+  useEffect(() => {
+    if (!inputText.trim()) {
+      setComposerPreviewUrl(null);
+      return;
+    }
+    const timer = window.setTimeout(() => setComposerPreviewUrl(findPreviewUrl(inputText)), COMPOSER_PREVIEW_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [inputText]);
+
+  const handleReply = useCallback((msg: Message) => {
+    if (editingMessage) {
+      setEditingMessage(null);
+      restoreDraft();
+    }
+    setReplyingTo(msg);
+    inputRef.current?.focus();
+  }, [editingMessage, restoreDraft]);
+
+  // Editing reuses the input: it is prefilled with the current text and Send saves the edit
+  const handleEdit = useCallback((msg: Message) => {
+    setReplyingTo(null);
+    setEditingMessage(msg);
+    setInputText(msg.content || '');
+    inputRef.current?.focus();
+  }, []);
+
+  const handleDelete = useCallback((msg: Message, scope: 'me' | 'everyone') => {
+    if (scope === 'everyone' && !window.confirm("Delete this message for everyone? This can't be undone.")) return;
+    if (editingMessage?.id === msg.id) {
+      setEditingMessage(null);
+      restoreDraft();
+    }
+    setReplyingTo(reply => reply?.id === msg.id ? null : reply);
+    deleteMessage(msg.chatId, msg.id, scope).catch((err) => {
+      console.warn("Delete failed", err);
+      alert("Could not delete the message. Please try again.");
+    });
+  }, [editingMessage, deleteMessage, restoreDraft]);
+
+  const handleReact = useCallback((msg: Message, emoji: string) => {
+    toggleReaction(msg.chatId, msg.id, emoji).catch(err => console.warn("Reaction failed", err));
+  }, [toggleReaction]);
+
+  const handleTogglePin = useCallback((msg: Message) => {
+    const isPinned = activeChat?.pins?.some(p => p.messageId === msg.id);
+    (isPinned ? unpinMessage : pinMessage)(msg.chatId, msg.id).catch((err) => {
+      console.warn("Pin failed", err);
+      alert(isPinned ? "Could not unpin the message." : "Could not pin the message.");
+    });
+  }, [activeChat?.pins, pinMessage, unpinMessage]);
+
+  const handleUnpin = useCallback((messageId: string) => {
+    if (!activeChatId) return;
+    unpinMessage(activeChatId, messageId).catch((err) => {
+      console.warn("Unpin failed", err);
+      alert("Could not unpin the message.");
+    });
+  }, [activeChatId, unpinMessage]);
+
+  const closeEmojiPicker = useCallback(() => setEmojiPickerOpen(false), []);
+
+  const cancelEdit = () => {
+    setEditingMessage(null);
+    restoreDraft();
+  };
+
+  // Originals that aren't loaded yet are paged in first, then scrolled to once rendered
+  const jumpToMessage = useCallback(async (messageId: string) => {
+    if (!activeChatId) return;
+    const isLoaded = (useStore.getState().messages[activeChatId] || []).some(m => m.id === messageId);
+    if (isLoaded || await loadUntilMessage(activeChatId, messageId)) setJumpTargetId(messageId);
+  }, [activeChatId, loadUntilMessage]);
+
+  useEffect(() => {
+    if (!jumpTargetId || !messagesById.has(jumpTargetId)) return;
+    listHandleRef.current?.scrollToKey(jumpTargetId);
+    setHighlightedId(jumpTargetId);
+    setJumpTargetId(null);
+  }, [jumpTargetId, messagesById]);
+
+  useEffect(() => {
+    if (!highlightedId) return;
+    const timer = window.setTimeout(() => setHighlightedId(null), HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [highlightedId]);
 
   // Clean up timer on unmount
   useEffect(() => {
@@ -125,43 +280,173 @@ export const ChatWindow: React.FC = () => {
   const handleSend = (e?: React.FormEvent) => {
     e?.preventDefault();
     if ((!inputText.trim()) || !activeChatId) return;
+
+    if (editingMessage) {
+      editMessage(activeChatId, editingMessage.id, inputText).catch((err) => {
+        console.warn("Edit failed", err);
+        alert("Could not save the edit. The message may be too old to change.");
+      });
+      cancelEdit();
+      return;
+    }
     
-    sendMessage(activeChatId, inputText, MessageType.TEXT);
-    setInputText('');
+    const previewUrl = findPreviewUrl(inputText);
+    sendMessage(activeChatId, inputText, MessageType.TEXT, {
+      replyToId: replyingTo?.id,
+      noLinkPreview: !!previewUrl && previewUrl === dismissedPreviewUrl
+    });
+    handleInputChange('');
+    setReplyingTo(null);
+    setDismissedPreviewUrl(null);
+    setMentionQuery(null);
+    setEmojiQuery(null);
   };
 
+  // The composer is only cleared once the server has the message, so a failure loses nothing
+  const handleSchedule = async (sendAt: Date) => {
+    const chatId = activeChatId;
+    if (!chatId || !inputText.trim()) return;
+    setScheduleOpen(false);
+    const previewUrl = findPreviewUrl(inputText);
+    try {
+      await scheduleMessage(chatId, inputText, sendAt, {
+        replyToId: replyingTo?.id,
+        noLinkPreview: !!previewUrl && previewUrl === dismissedPreviewUrl
+      });
+      setDraft(chatId, '');
+      stopTyping(chatId);
+      // The user may have moved on to another chat while this was saving
+      if (useStore.getState().activeChatId !== chatId) return;
+      setInputText('');
+      setReplyingTo(null);
+      setDismissedPreviewUrl(null);
+    } catch (err) {
+      console.warn("Scheduling failed", err);
+      alert("Could not schedule the message. Please check your connection and try again.");
+    }
+  };
+
+  const handleInputChange = (value: string) => {
+    setInputText(value);
+    if (!activeChatId || editingMessage) return;
+    setDraft(activeChatId, value);
+    if (value.trim()) notifyTyping(activeChatId, 'typing');
+    else stopTyping(activeChatId);
+  };
+
+  // Applies a composer edit and puts the caret (or selection) where it says
+  const applyEdit = (edit: TextEdit) => {
+    const el = inputRef.current;
+    handleInputChange(edit.value);
+    requestAnimationFrame(() => {
+      el?.focus();
+      el?.setSelectionRange(edit.selectionStart, edit.selectionEnd);
+    });
+  };
+
+  // Wraps the selection in markers, then puts the selection back inside them
+  const applyFormatStyle = (style: FormatStyle) => {
+    const el = inputRef.current;
+    if (!el) return;
+    applyEdit(applyFormat(inputText, el.selectionStart, el.selectionEnd, style));
+  };
+
+  // A ":shortcode:" typed out in full is swapped for its emoji right away
+  const handleComposerChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const { value, selectionStart } = e.target;
+    const expanded = value.length > inputText.length ? expandShortcode(value, selectionStart, emojiSkinTone) : null;
+    if (!expanded) return handleInputChange(value);
+    recordEmojiUse(expanded.emoji.char);
+    applyEdit(expanded.edit);
+  };
+
+  // Follows the caret: typing, clicking or arrowing into an "@name" or ":code" brings the suggestions back
+  const updateSuggestions = (el: HTMLTextAreaElement) => {
+    const hasCaret = el.selectionStart === el.selectionEnd;
+    const nextMention = hasCaret ? getMentionQuery(el.value, el.selectionStart) : null;
+    const nextEmoji = hasCaret ? getShortcodeQuery(el.value, el.selectionStart) : null;
+    const next = nextMention || nextEmoji;
+    const current = mentionQuery || emojiQuery;
+    if (next?.start !== current?.start || next?.query !== current?.query) setSuggestionIndex(0);
+    setMentionQuery(nextMention);
+    setEmojiQuery(nextEmoji);
+  };
+
+  const pickMention = (user: User) => {
+    const el = inputRef.current;
+    if (!el || !mentionQuery) return;
+    applyEdit(insertMention(inputText, mentionQuery.start, el.selectionStart, user.username));
+    setMentionQuery(null);
+  };
+
+  const pickShortcode = (emoji: Emoji) => {
+    const el = inputRef.current;
+    if (!el || !emojiQuery) return;
+    recordEmojiUse(emoji.char);
+    applyEdit(insertText(inputText, emojiQuery.start, el.selectionStart, applySkinTone(emoji, emojiSkinTone)));
+    setEmojiQuery(null);
+  };
+
+  const pickSuggestion = (index: number) => {
+    if (mentionCandidates.length > 0) pickMention(mentionCandidates[index]);
+    else pickShortcode(emojiMatches[index]);
+  };
+
+  // From the picker: replaces the selection, or goes in at the caret. The picker stays open for more.
+  const insertEmoji = (emoji: string) => {
+    const el = inputRef.current;
+    if (!el) return;
+    applyEdit(insertText(inputText, el.selectionStart, el.selectionEnd, emoji));
+  };
+
+  useLayoutEffect(() => {
+    const el = inputRef.current;
+    if (!el) return;
+    el.style.height = 'auto';
+    el.style.height = `${Math.min(el.scrollHeight, COMPOSER_MAX_HEIGHT_PX)}px`;
+  }, [inputText]);
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter' && !e.shiftKey) {
+    if (suggestionCount > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setSuggestionIndex(i => (i + step + suggestionCount) % suggestionCount);
+        return;
+      }
+      if ((e.key === 'Enter' || e.key === 'Tab') && !e.shiftKey) {
+        e.preventDefault();
+        pickSuggestion(Math.min(suggestionIndex, suggestionCount - 1));
+        return;
+      }
+      if (e.key === 'Escape') {
+        setMentionQuery(null);
+        setEmojiQuery(null);
+        return;
+      }
+    }
+    const shortcutStyle = (e.ctrlKey || e.metaKey) && !e.altKey ? getShortcutStyle(e) : null;
+    if (shortcutStyle) {
+      e.preventDefault();
+      applyFormatStyle(shortcutStyle);
+    } else if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSend();
+    } else if (e.key === 'Escape' && editingMessage) {
+      cancelEdit();
+    } else if (e.key === 'Escape' && replyingTo) {
+      setReplyingTo(null);
     }
   };
 
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0] && activeChatId) {
         const file = e.target.files[0];
-        setIsUploading(true);
-        try {
-            const url = await api.storage.upload(file);
-            const type = file.type.startsWith('image/') ? MessageType.IMAGE : MessageType.FILE;
-            
-            const attachment = {
-                id: Math.random().toString(),
-                type: type === MessageType.IMAGE ? 'image' : 'file' as any,
-                url: url,
-                name: file.name,
-                size: file.size,
-                mimeType: file.type
-            };
-    
-            sendMessage(activeChatId, '', type, [attachment]);
-        } catch (error) {
-            console.error("Upload failed", error);
-            alert("Failed to upload file. Check console for details.");
-        } finally {
-            setIsUploading(false);
-            if (fileInputRef.current) fileInputRef.current.value = '';
-        }
+        const type = file.type.startsWith('image/') ? MessageType.IMAGE : MessageType.FILE;
+        // Upload happens in the outbox, in order with everything else queued for this chat
+        sendFile(activeChatId, file, type, { replyToId: replyingTo?.id });
+        setReplyingTo(null);
+        if (fileInputRef.current) fileInputRef.current.value = '';
     }
   };
 
@@ -173,9 +458,16 @@ export const ChatWindow: React.FC = () => {
         alert("Voice messages require a secure connection (HTTPS) or localhost. They are disabled on HTTP LAN (192.168.x.x).");
         return;
     }
+    const recordingChatId = activeChatId;
+    if (!recordingChatId) return;
 
     try {
         const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+        // The permission prompt can outlast the visit to this chat
+        if (useStore.getState().activeChatId !== recordingChatId) {
+            stream.getTracks().forEach(track => track.stop());
+            return;
+        }
         const mediaRecorder = new MediaRecorder(stream);
         mediaRecorderRef.current = mediaRecorder;
         audioChunksRef.current = [];
@@ -187,10 +479,15 @@ export const ChatWindow: React.FC = () => {
         };
 
         mediaRecorder.start();
+        recordingChatIdRef.current = recordingChatId;
         setIsRecording(true);
         setRecordingDuration(0);
+
+        notifyTyping(recordingChatId, 'recording');
         timerRef.current = window.setInterval(() => {
             setRecordingDuration(prev => prev + 1);
+            // Throttled inside the notifier, this just keeps the indicator alive
+            notifyTyping(recordingChatId, 'recording');
         }, 1000);
 
     } catch (err) {
@@ -200,30 +497,14 @@ export const ChatWindow: React.FC = () => {
   };
 
   const stopAndSendRecording = () => {
-    if (mediaRecorderRef.current && isRecording && activeChatId) {
-         mediaRecorderRef.current.onstop = async () => {
+    const recordingChatId = recordingChatIdRef.current;
+    if (mediaRecorderRef.current && isRecording && recordingChatId) {
+         recordingChatIdRef.current = null;
+         const replyToId = replyingTo?.id;
+         setReplyingTo(null);
+         mediaRecorderRef.current.onstop = () => {
             const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
-            
-            setIsUploading(true);
-            try {
-                const audioUrl = await api.storage.upload(audioBlob);
-                
-                const attachment = {
-                    id: Math.random().toString(),
-                    type: 'audio' as any,
-                    url: audioUrl,
-                    name: 'Voice Message',
-                    size: audioBlob.size,
-                    mimeType: 'audio/webm'
-                };
-                
-                sendMessage(activeChatId, '', MessageType.VOICE, [attachment]);
-            } catch (error) {
-                console.error("Audio upload failed", error);
-                alert("Failed to send voice message.");
-            } finally {
-                setIsUploading(false);
-            }
+            sendFile(recordingChatId, audioBlob, MessageType.VOICE, { name: 'Voice Message', replyToId });
             
             // Cleanup
             mediaRecorderRef.current?.stream.getTracks().forEach(track => track.stop());
@@ -235,49 +516,75 @@ export const ChatWindow: React.FC = () => {
     }
   };
 
+  // Reads refs only, so the chat-change cleanup below can call it from a stale render
   const cancelRecording = () => {
-    if (mediaRecorderRef.current && isRecording) {
-        mediaRecorderRef.current.onstop = () => {
-            // Just cleanup tracks, don't send
-            mediaRecorderRef.current?.stream.getTracks().forEach(track => track.stop());
-        };
-        mediaRecorderRef.current.stop();
-        setIsRecording(false);
-        if (timerRef.current) clearInterval(timerRef.current);
-    }
+    const recorder = mediaRecorderRef.current;
+    if (!recorder || recorder.state !== 'recording') return;
+    // Just cleanup tracks, don't send
+    recorder.onstop = () => recorder.stream.getTracks().forEach(track => track.stop());
+    recorder.stop();
+    setIsRecording(false);
+    if (timerRef.current) clearInterval(timerRef.current);
+    if (recordingChatIdRef.current) stopTyping(recordingChatIdRef.current);
+    recordingChatIdRef.current = null;
   };
 
+  // A voice message belongs to the chat it was recorded in; switching chats throws it away
+  useEffect(() => () => cancelRecording(), [activeChatId]);
+
   const formatDuration = (sec: number) => {
     const m = Math.floor(sec / 60);
     const s = sec % 60;
     return `${m}:${s < 10 ? '0' : ''}${s}`;
   };
 
-  const getLastSeenText = (user: User) => {
-    if (user.status === UserStatus.ONLINE) return 'Active now';
-    if (user.lastSeen) {
-        const lastSeenDate = new Date(user.lastSeen);
-        if (isNaN(lastSeenDate.getTime())) return 'Offline';
-
-        const now = new Date();
-        const diffMs = now.getTime() - lastSeenDate.getTime();
-        const diffMins = Math.floor(diffMs / 60000);
-        
-        if (diffMins < 1) return 'Last seen just now';
-
-        const isToday = lastSeenDate.getDate() === now.getDate() && 
-                        lastSeenDate.getMonth() === now.getMonth() && 
-                        lastSeenDate.getFullYear() === now.getFullYear();
-        
-        const timeString = lastSeenDate.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-
-        if (isToday) return `Last seen today at ${timeString}`;
-        return `Last seen ${lastSeenDate.toLocaleDateString([], { month: 'short', day: 'numeric' })} at ${timeString}`;
-    }
-    return 'Offline';
+  const typingText = activeChat ? getTypingText(activeChat, currentUser?.id) : null;
+
+  if (openedAtRef.current.chatId !== activeChatId) {
+    openedAtRef.current = { chatId: activeChatId, at: Date.now() };
+  }
+
+  const handleRangeChange = useCallback((start: number, end: number) => setRenderedRange(`${start}:${end}`), []);
+
+  const renderMessage = (msg: Message, idx: number) => {
+    const isMe = msg.senderId === currentUser?.id || msg.senderId === 'me';
+    const previous = activeMessages[idx - 1];
+    const showAvatar = !isMe && (!previous || previous.senderId !== msg.senderId || previous.type === MessageType.SYSTEM);
+    const isUnread = !isMe && !!currentUser && !msg.readBy.includes(currentUser.id);
+    const sender = activeChat?.isGroup ? activeChat.participants.find(p => p.id === msg.senderId) : otherUser;
+
+    // Rows remount when scrolled back into the window; they must not replay the animation
+    const animateEntry = !animatedIdsRef.current.has(msg.id) && new Date(msg.createdAt).getTime() >= openedAtRef.current.at;
+
+    return (
+      <MessageBubble
+        msg={msg}
+        chat={activeChat!}
+        currentUserId={currentUser?.id}
+        isMe={isMe}
+        showAvatar={showAvatar}
+        avatarUrl={sender?.avatarUrl}
+        senderName={activeChat?.isGroup && !isMe ? sender?.username || 'Former member' : undefined}
+        isUnread={isUnread}
+        animateEntry={animateEntry}
+        isHighlighted={highlightedId === msg.id}
+        isPinned={!!activeChat?.pins?.some(p => p.messageId === msg.id)}
+        replyTarget={msg.replyToId ? messagesById.get(msg.replyToId) : undefined}
+        onRetry={retryMessage}
+        onDiscard={discardMessage}
+        onReply={handleReply}
+        onEdit={handleEdit}
+        onDelete={handleDelete}
+        onReact={handleReact}
+        onForward={setForwardingMessage}
+        onTogglePin={handleTogglePin}
+        onLoadRevisions={loadMessageRevisions}
+        onJumpToMessage={jumpToMessage}
+      />
+    );
   };
 
-  if (!activeChat || !otherUser) {
+  if (!activeChat || (!otherUser && !activeChat.isGroup)) {
     return (
       <div className="h-full flex flex-col items-center justify-center bg-gray-50/50 dark:bg-gray-950 p-8 text-center transition-colors">
         <div className="w-24 h-24 bg-brand-100 dark:bg-brand-900/20 rounded-full flex items-center justify-center mb-6 shadow-inner">
@@ -297,74 +604,69 @@ export const ChatWindow: React.FC = () => {
             <button className="md:hidden text-gray-500 dark:text-gray-400" onClick={() => setMobileMenuOpen(true)}>
                 <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" /></svg>
             </button>
-            <img src={otherUser.avatarUrl} alt={otherUser.username} className="w-10 h-10 rounded-full object-cover shadow-sm" />
-            <div>
+            <img src={getChatAvatar(activeChat, currentUser?.id)} alt={getChatTitle(activeChat, currentUser?.id)} className="w-10 h-10 rounded-full object-cover shadow-sm" />
+            <div
+                className={`min-w-0 ${activeChat.isGroup ? 'cursor-pointer' : ''}`}
+                onClick={() => activeChat.isGroup && setGroupInfoOpen(true)}
+            >
                 <div className="flex items-center gap-2">
-                    <h3 className="font-bold text-gray-800 dark:text-gray-100">{otherUser.username}</h3>
-                    <span className="text-[10px] text-gray-500 dark:text-gray-400 font-mono tracking-wider bg-gray-100 dark:bg-gray-800 px-1.5 py-0.5 rounded-md opacity-70">
-                        #{otherUser.friendCode}
-                    </span>
+                    <h3 className="font-bold text-gray-800 dark:text-gray-100 truncate">{getChatTitle(activeChat, currentUser?.id)}</h3>
+                    {!activeChat.isGroup && otherUser && (
+                        <span className="text-[10px] text-gray-500 dark:text-gray-400 font-mono tracking-wider bg-gray-100 dark:bg-gray-800 px-1.5 py-0.5 rounded-md opacity-70">
+                            #{otherUser.friendCode}
+                        </span>
+                    )}
                 </div>
-                <span className={`text-xs font-medium ${otherUser.status === UserStatus.ONLINE ? 'text-brand-500' : 'text-gray-400 dark:text-gray-500'}`}>
-                    {getLastSeenText(otherUser)}
-                </span>
+                {typingText ? (
+                    <span className="text-xs font-medium text-brand-500 italic">{typingText}</span>
+                ) : activeChat.isGroup ? (
+                    <span className="text-xs font-medium text-gray-400 dark:text-gray-500">{formatMemberCount(activeChat)}</span>
+                ) : otherUser && (
+                    <span className={`text-xs font-medium ${otherUser.status === UserStatus.ONLINE ? 'text-brand-500' : 'text-gray-400 dark:text-gray-500'}`}>
+                        {getLastSeenText(otherUser)}
+                    </span>
+                )}
             </div>
         </div>
         <div className="flex items-center gap-4 text-brand-500">
             <button className="p-2 hover:bg-brand-50 dark:hover:bg-brand-900/20 rounded-full transition-colors"><Phone className="w-5 h-5" /></button>
             <button className="p-2 hover:bg-brand-50 dark:hover:bg-brand-900/20 rounded-full transition-colors"><Video className="w-5 h-5" /></button>
-            <button className="p-2 hover:bg-brand-50 dark:hover:bg-brand-900/20 rounded-full transition-colors text-gray-400 dark:text-gray-500"><MoreVertical className="w-5 h-5" /></button>
+            <button
+                onClick={() => activeChat.isGroup && setGroupInfoOpen(true)}
+                className="p-2 hover:bg-brand-50 dark:hover:bg-brand-900/20 rounded-full transition-colors text-gray-400 dark:text-gray-500"
+                title={activeChat.isGroup ? 'Group info' : undefined}
+            >
+                <MoreVertical className="w-5 h-5" />
+            </button>
         </div>
       </div>
 
-      {/* Messages Area */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {activeMessages.map((msg, idx) => {
-            const isMe = msg.senderId === currentUser?.id || msg.senderId === 'me';
-            const showAvatar = !isMe && (idx === 0 || activeMessages[idx - 1].senderId !== msg.senderId);
+      {activeChat.pins && activeChat.pins.length > 0 && (
+        <PinnedBanner
+          key={activeChat.id}
+          pins={activeChat.pins}
+          messagesById={messagesById}
+          onJump={jumpToMessage}
+          onUnpin={handleUnpin}
+        />
+      )}
 
-            return (
-                <motion.div 
-                    key={msg.id}
-                    initial={{ opacity: 0, y: 10, scale: 0.95 }}
-                    animate={{ opacity: 1, y: 0, scale: 1 }}
-                    className={`flex ${isMe ? 'justify-end' : 'justify-start'} group`}
-                >
-                    {!isMe && (
-                        <div className="w-8 h-8 mr-2 flex-shrink-0">
-                            {showAvatar ? <img src={otherUser.avatarUrl} className="w-8 h-8 rounded-full object-cover" /> : <div className="w-8" />}
-                        </div>
-                    )}
-                    
-                    <div className={`max-w-[85%] sm:max-w-[70%] relative`}>
-                        {/* Attachments */}
-                        {msg.type === MessageType.IMAGE && msg.attachments?.[0] && (
-                            <div className={`rounded-2xl overflow-hidden mb-1 shadow-sm border-4 ${isMe ? 'border-brand-500' : 'border-white dark:border-gray-800'}`}>
-                                <img src={msg.attachments[0].url} alt="attachment" className="w-full h-auto" />
-                            </div>
-                        )}
-                        
-                        {/* Message Bubble Content */}
-                        <div className={`
-                            px-4 py-2.5 rounded-2xl text-[15px] shadow-sm
-                            ${isMe 
-                                ? 'bg-brand-500 text-white rounded-br-none' 
-                                : 'bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-100 rounded-bl-none border border-gray-100 dark:border-gray-700'}
-                        `}>
-                            {msg.type === MessageType.VOICE && msg.attachments?.[0] ? (
-                                <AudioMessage src={msg.attachments[0].url} isMe={isMe} />
-                            ) : (
-                                <span>{msg.content}</span>
-                            )}
-                        </div>
-                        
-                        <div className={`text-[10px] mt-1 opacity-0 group-hover:opacity-100 transition-opacity absolute -bottom-4 ${isMe ? 'right-0' : 'left-0'} text-gray-400 dark:text-gray-500 whitespace-nowrap`}>
-                            {new Date(msg.createdAt).toLocaleTimeString([], { hour: '2-digit', minute:'2-digit' })}
-                        </div>
-                    </div>
-                </motion.div>
-            )
-        })}
+      {/* Messages Area */}
+      <div ref={messagesContainerRef} onScroll={handleMessagesScroll} className="flex-1 overflow-y-auto p-4 relative">
+        {paging?.isLoadingOlder && (
+            <div className="flex justify-center py-2 text-gray-400">
+                <Loader2 className="w-4 h-4 animate-spin" />
+            </div>
+        )}
+        <VirtualMessageList
+            key={activeChatId || undefined}
+            items={activeMessages}
+            getKey={getMessageKey}
+            renderItem={renderMessage}
+            scrollRef={messagesContainerRef}
+            onRangeChange={handleRangeChange}
+            handleRef={listHandleRef}
+        />
         <div ref={messagesEndRef} />
       </div>
 
@@ -377,6 +679,102 @@ export const ChatWindow: React.FC = () => {
                 </div>
             )}
             
+            {scheduled.length > 0 && !isRecording && (
+                <button
+                    type="button"
+                    onClick={() => setScheduledListOpen(true)}
+                    className="w-full flex items-center gap-2 mb-3 px-3 py-2 bg-gray-50 dark:bg-gray-800/60 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-2xl text-left text-xs text-gray-500 dark:text-gray-400 transition-colors"
+                >
+                    <CalendarClock className="w-4 h-4 text-brand-500 shrink-0" />
+                    <span className="flex-1 truncate">
+                        <span className="font-semibold text-brand-600 dark:text-brand-400">
+                            {scheduled.length === 1 ? '1 scheduled message' : `${scheduled.length} scheduled messages`}
+                        </span>
+                        {' '}· next {formatSendTime(scheduled[0].sendAt)}
+                    </span>
+                    <ChevronRight className="w-4 h-4 shrink-0" />
+                </button>
+            )}
+
+            {editingMessage && (
+                <div className="flex items-center gap-3 mb-3 px-3 py-2 bg-gray-50 dark:bg-gray-800/60 rounded-2xl border-l-4 border-brand-500">
+                    <Pencil className="w-4 h-4 text-brand-500 shrink-0" />
+                    <button type="button" onClick={() => jumpToMessage(editingMessage.id)} className="flex-1 min-w-0 text-left">
+                        <p className="text-xs font-semibold text-brand-600 dark:text-brand-400">Editing message</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{getMessagePreview(editingMessage)}</p>
+                    </button>
+                    <button
+                        type="button"
+                        onClick={cancelEdit}
+                        className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 rounded-full transition-colors"
+                        title="Cancel edit"
+                    >
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+            )}
+
+            {replyingTo && (
+                <div className="flex items-center gap-3 mb-3 px-3 py-2 bg-gray-50 dark:bg-gray-800/60 rounded-2xl border-l-4 border-brand-500">
+                    <Reply className="w-4 h-4 text-brand-500 shrink-0" />
+                    <button type="button" onClick={() => jumpToMessage(replyingTo.id)} className="flex-1 min-w-0 text-left">
+                        <p className="text-xs font-semibold text-brand-600 dark:text-brand-400">
+                            Replying to {replyingTo.senderId === currentUser?.id ? 'yourself' : activeChat.participants.find(p => p.id === replyingTo.senderId)?.username || 'message'}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{getMessagePreview(replyingTo)}</p>
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => setReplyingTo(null)}
+                        className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 rounded-full transition-colors"
+                        title="Cancel reply"
+                    >
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+            )}
+
+            {composerPreviewUrl && composerPreviewUrl !== dismissedPreviewUrl && !editingMessage && !isRecording && (
+                <div className="mb-3 max-w-sm">
+                    <LinkPreviewCard url={composerPreviewUrl} onRemove={() => setDismissedPreviewUrl(composerPreviewUrl)} />
+                </div>
+            )}
+
+            {!isRecording && (
+                <>
+                    <MentionSuggestions
+                        users={mentionCandidates}
+                        activeIndex={suggestionIndex}
+                        onPick={pickMention}
+                        onHover={setSuggestionIndex}
+                    />
+                    <EmojiSuggestions
+                        emojis={emojiMatches}
+                        skinTone={emojiSkinTone}
+                        activeIndex={suggestionIndex}
+                        onPick={pickShortcode}
+                        onHover={setSuggestionIndex}
+                    />
+                </>
+            )}
+
+            {isFormatBarOpen && !isRecording && (
+                <div className="flex items-center gap-1 mb-2 px-2">
+                    {FORMAT_BUTTONS.map(({ style, icon: Icon, label }) => (
+                        <button
+                            key={style}
+                            type="button"
+                            onMouseDown={(e) => e.preventDefault()}
+                            onClick={() => applyFormatStyle(style)}
+                            className="p-1.5 text-gray-500 dark:text-gray-400 hover:text-brand-500 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+                            title={label}
+                        >
+                            <Icon className="w-4 h-4" />
+                        </button>
+                    ))}
+                </div>
+            )}
+
             {isRecording ? (
                 /* Recording UI */
                 <motion.div 
@@ -431,43 +829,76 @@ export const ChatWindow: React.FC = () => {
                             onChange={handleFileUpload}
                             accept="image/*,application/pdf"
                         />
-                        <button type="button" onClick={() => fileInputRef.current?.click()} className="p-2 text-gray-400 hover:text-brand-500 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-full transition-colors" disabled={isUploading}>
+                        <button type="button" onClick={() => fileInputRef.current?.click()} className="p-2 text-gray-400 hover:text-brand-500 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-full transition-colors">
                             <Paperclip className="w-5 h-5" />
                         </button>
-                        <button type="button" onClick={() => fileInputRef.current?.click()} className="hidden sm:block p-2 text-gray-400 hover:text-brand-500 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-full transition-colors" disabled={isUploading}>
+                        <button type="button" onClick={() => fileInputRef.current?.click()} className="hidden sm:block p-2 text-gray-400 hover:text-brand-500 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-full transition-colors">
                             <ImageIcon className="w-5 h-5" />
                         </button>
                     </div>
                     
-                    <div className="flex-1 bg-gray-100 dark:bg-gray-800 rounded-3xl flex items-center px-4 py-2 border border-transparent focus-within:border-brand-300 focus-within:bg-white dark:focus-within:bg-gray-700 transition-all shadow-inner">
-                        <input 
-                            type="text" 
+                    <div className="relative flex-1 bg-gray-100 dark:bg-gray-800 rounded-3xl flex items-end px-4 py-2 border border-transparent focus-within:border-brand-300 focus-within:bg-white dark:focus-within:bg-gray-700 transition-all shadow-inner">
+                        <textarea
+                            ref={inputRef}
+                            rows={1}
                             value={inputText}
-                            onChange={(e) => setInputText(e.target.value)}
+                            onChange={handleComposerChange}
                             onKeyDown={handleKeyDown}
+                            onSelect={(e) => updateSuggestions(e.currentTarget)}
+                            onBlur={() => { setMentionQuery(null); setEmojiQuery(null); }}
                             placeholder="Type a message..."
-                            className="flex-1 bg-transparent outline-none text-gray-800 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500 min-h-[24px]"
-                            disabled={isUploading}
+                            className="flex-1 bg-transparent outline-none resize-none text-gray-800 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500 min-h-[24px] leading-6"
                         />
-                        <button type="button" className="text-gray-400 hover:text-brand-500 ml-2">
+                        <button
+                            type="button"
+                            onClick={() => setFormatBarOpen(!isFormatBarOpen)}
+                            className={`ml-2 transition-colors ${isFormatBarOpen ? 'text-brand-500' : 'text-gray-400 hover:text-brand-500'}`}
+                            title="Formatting"
+                        >
+                            <Type className="w-5 h-5" />
+                        </button>
+                        <button
+                            type="button"
+                            data-emoji-toggle
+                            onClick={() => setEmojiPickerOpen(!isEmojiPickerOpen)}
+                            className={`ml-2 transition-colors ${isEmojiPickerOpen ? 'text-brand-500' : 'text-gray-400 hover:text-brand-500'}`}
+                            title="Emoji"
+                        >
                             <Smile className="w-5 h-5" />
                         </button>
+                        {isEmojiPickerOpen && (
+                            <EmojiPicker
+                                onPick={insertEmoji}
+                                onClose={closeEmojiPicker}
+                                className="absolute bottom-full right-0 mb-3 z-30"
+                            />
+                        )}
                     </div>
 
+                    {inputText.trim() && !editingMessage && (
+                        <button
+                            type="button"
+                            onClick={() => setScheduleOpen(true)}
+                            className="mb-0.5 p-3 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-500 dark:text-gray-400 hover:text-brand-500 rounded-full transition-colors"
+                            title="Schedule message"
+                        >
+                            <CalendarClock className="w-5 h-5" />
+                        </button>
+                    )}
                     {inputText.trim() ? (
                         <button 
                             type="submit"
+                            // Right-click is a shortcut to "send later"
+                            onContextMenu={(e) => { if (!editingMessage) { e.preventDefault(); setScheduleOpen(true); } }}
                             className="mb-0.5 p-3 bg-brand-500 hover:bg-brand-600 text-white rounded-full shadow-lg shadow-brand-500/30 transition-all transform hover:scale-105 active:scale-95"
-                            disabled={isUploading}
                         >
-                            <Send className="w-5 h-5 ml-0.5" />
+                            {editingMessage ? <Check className="w-5 h-5" /> : <Send className="w-5 h-5 ml-0.5" />}
                         </button>
                     ) : (
                         <button 
                             type="button"
                             onClick={startRecording}
                             className="mb-0.5 p-3 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-400 hover:text-brand-500 rounded-full transition-colors"
-                            disabled={isUploading}
                         >
                             <Mic className="w-5 h-5" />
                         </button>
@@ -476,6 +907,11 @@ export const ChatWindow: React.FC = () => {
             )}
         </div>
       </div>
+
+      <ForwardModal message={forwardingMessage} onClose={() => setForwardingMessage(null)} />
+      <ScheduleModal isOpen={isScheduleOpen} onConfirm={handleSchedule} onClose={() => setScheduleOpen(false)} />
+      <ScheduledMessagesModal chatId={isScheduledListOpen ? activeChatId : null} onClose={() => setScheduledListOpen(false)} />
+      <GroupInfoPanel chatId={isGroupInfoOpen ? activeChatId : null} onClose={() => setGroupInfoOpen(false)} />
     </div>
   );
 };
\ No newline at end of file
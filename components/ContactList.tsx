@@ -0,0 +1,161 @@
+import React, { useMemo, useState } from 'react';
+import { Check, X, MessageCircle, UserMinus, Loader2, Clock } from 'lucide-react';
+import { useStore } from '../store';
+import { Contact, UserStatus } from '../types';
+import { getLastSeenText } from '../chatInfo';
+import { StatusBadge } from './StatusBadge';
+
+const SectionTitle: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <p className="px-3 pt-3 pb-1 text-[11px] font-semibold uppercase tracking-wide text-gray-400">{children}</p>
+);
+
+// The "Contacts" tab of the sidebar: incoming requests on top, then contacts (online first),
+// then requests we sent that are still waiting. Blocked rows are not shown.
+export const ContactList: React.FC<{ searchTerm: string }> = ({ searchTerm }) => {
+  const { contacts, createChat, acceptFriendRequest, removeContact } = useStore();
+  const [busyUserId, setBusyUserId] = useState<string | null>(null);
+
+  const { incoming, accepted, outgoing } = useMemo(() => {
+    const term = searchTerm.toLowerCase();
+    const visible = contacts.filter(c => !term || c.user.username.toLowerCase().includes(term) || c.user.friendCode.includes(term));
+    const isOnline = (c: Contact) => c.user.status === UserStatus.ONLINE;
+    return {
+      incoming: visible.filter(c => c.status === 'PENDING' && c.isIncoming),
+      accepted: visible
+        .filter(c => c.status === 'ACCEPTED')
+        .sort((a, b) => Number(isOnline(b)) - Number(isOnline(a)) || a.user.username.localeCompare(b.user.username)),
+      outgoing: visible.filter(c => c.status === 'PENDING' && !c.isIncoming)
+    };
+  }, [contacts, searchTerm]);
+
+  const run = async (userId: string, action: () => Promise<void>, failure: string) => {
+    setBusyUserId(userId);
+    try {
+      await action();
+    } catch (e: any) {
+      console.warn(failure, e);
+      alert(e?.message || failure);
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  const handleRemove = (contact: Contact) => {
+    if (!window.confirm(`Remove ${contact.user.username} from your contacts?`)) return;
+    run(contact.user.id, () => removeContact(contact.user.id), "Could not remove the contact.");
+  };
+
+  const renderRow = (contact: Contact, subtitle: React.ReactNode, actions: React.ReactNode, onClick?: () => void) => (
+    <div key={contact.user.id} className="relative group">
+      <button
+        type="button"
+        onClick={onClick}
+        disabled={!onClick}
+        className="w-full p-3 rounded-2xl flex items-center gap-3 text-left transition-all hover:bg-gray-50 dark:hover:bg-gray-800 disabled:cursor-default"
+      >
+        <div className="relative shrink-0">
+          <img src={contact.user.avatarUrl} alt={contact.user.username} className="w-12 h-12 rounded-full object-cover" />
+          {contact.status === 'ACCEPTED' && <StatusBadge status={contact.user.status} />}
+        </div>
+        <div className="flex-1 min-w-0 pr-16">
+          <p className="font-semibold text-sm text-gray-800 dark:text-gray-200 truncate">{contact.user.username}</p>
+          <p className="text-xs text-gray-500 truncate">{subtitle}</p>
+        </div>
+      </button>
+      <div className="absolute top-1/2 right-3 -translate-y-1/2 flex items-center gap-1">
+        {busyUserId === contact.user.id ? <Loader2 className="w-4 h-4 text-gray-400 animate-spin" /> : actions}
+      </div>
+    </div>
+  );
+
+  if (contacts.every(c => c.status === 'BLOCKED')) {
+    return (
+      <div className="px-6 py-10 text-center text-sm text-gray-400">
+        No contacts yet. Tap + and enter someone's friend code to send them a request.
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {incoming.length > 0 && (
+        <>
+          <SectionTitle>Requests</SectionTitle>
+          {incoming.map(contact => renderRow(
+            contact,
+            `#${contact.user.friendCode} wants to be your contact`,
+            <>
+              <button
+                type="button"
+                onClick={() => run(contact.user.id, () => acceptFriendRequest(contact.user.id), "Could not accept the request.")}
+                className="p-1.5 rounded-full bg-brand-500 text-white hover:bg-brand-600 transition-colors"
+                title="Accept"
+              >
+                <Check className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => run(contact.user.id, () => removeContact(contact.user.id), "Could not decline the request.")}
+                className="p-1.5 rounded-full bg-gray-100 dark:bg-gray-800 text-gray-500 hover:text-red-500 transition-colors"
+                title="Decline"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </>
+          ))}
+        </>
+      )}
+
+      {accepted.length > 0 && (
+        <>
+          <SectionTitle>Contacts</SectionTitle>
+          {accepted.map(contact => renderRow(
+            contact,
+            <span className={contact.user.status === UserStatus.ONLINE ? 'text-brand-500' : ''}>{getLastSeenText(contact.user)}</span>,
+            <>
+              <button
+                type="button"
+                onClick={() => run(contact.user.id, () => createChat(contact.user.friendCode), "Could not open the chat.")}
+                className="p-1.5 rounded-full text-gray-400 hover:text-brand-500 opacity-0 group-hover:opacity-100 transition-all"
+                title="Message"
+              >
+                <MessageCircle className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => handleRemove(contact)}
+                className="p-1.5 rounded-full text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-all"
+                title="Remove contact"
+              >
+                <UserMinus className="w-4 h-4" />
+              </button>
+            </>,
+            () => run(contact.user.id, () => createChat(contact.user.friendCode), "Could not open the chat.")
+          ))}
+        </>
+      )}
+
+      {outgoing.length > 0 && (
+        <>
+          <SectionTitle>Sent</SectionTitle>
+          {outgoing.map(contact => renderRow(
+            contact,
+            <span className="flex items-center gap-1"><Clock className="w-3 h-3" /> Waiting for #{contact.user.friendCode}</span>,
+            <button
+              type="button"
+              onClick={() => run(contact.user.id, () => removeContact(contact.user.id), "Could not cancel the request.")}
+              className="p-1.5 rounded-full text-gray-400 hover:text-red-500 transition-colors"
+              title="Cancel request"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          ))}
+        </>
+      )}
+
+      {incoming.length + accepted.length + outgoing.length === 0 && (
+        <p className="px-6 py-10 text-center text-sm text-gray-400">No contacts match your search.</p>
+      )}
+    </div>
+  );
+};
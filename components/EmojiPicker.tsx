@@ -0,0 +1,187 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Search, Clock, Smile, Dog, Pizza, Trophy, Plane, Lightbulb, Heart, Flag } from 'lucide-react';
+import { useStore } from '../store';
+import { EMOJI_CATEGORIES, Emoji, SKIN_TONES, SKIN_TONE_LABELS, applySkinTone, findEmoji, searchEmoji } from '../emoji';
+import { EmojiCategoryId } from '../emojiData';
+
+const CATEGORY_ICONS: Record<EmojiCategoryId | 'recent', React.ElementType> = {
+  recent: Clock,
+  people: Smile,
+  nature: Dog,
+  food: Pizza,
+  activity: Trophy,
+  travel: Plane,
+  objects: Lightbulb,
+  symbols: Heart,
+  flags: Flag
+};
+
+// Shown on the skin tone button
+const TONE_SAMPLE: Emoji = { char: '✋', shortcode: 'hand', keywords: [], hasSkinTones: true };
+
+interface EmojiPickerProps {
+  onPick: (emoji: string) => void;
+  onClose: () => void;
+  className?: string;
+}
+
+// Full emoji picker, used by the composer and for reactions. Picks are remembered in the
+// "Recent" row and come back in the user's skin tone. Clicking outside closes it, except on
+// elements marked data-emoji-toggle (the button that opens it handles those clicks itself).
+export const EmojiPicker: React.FC<EmojiPickerProps> = ({ onPick, onClose, className = '' }) => {
+  const { recentEmoji, emojiSkinTone, recordEmojiUse, setEmojiSkinTone } = useStore();
+  const [query, setQuery] = useState('');
+  const [activeCategory, setActiveCategory] = useState<EmojiCategoryId | 'recent'>(recentEmoji.length > 0 ? 'recent' : 'people');
+  const [isTonePickerOpen, setTonePickerOpen] = useState(false);
+  const [hovered, setHovered] = useState<Emoji | null>(null);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const bodyRef = useRef<HTMLDivElement>(null);
+  const sectionRefs = useRef<Partial<Record<string, HTMLDivElement | null>>>({});
+
+  const sections = useMemo(() => {
+    // Reactions from others may use emoji we don't ship; those still work as plain characters
+    const recent = recentEmoji.map(char => findEmoji(char) || { char, shortcode: '', keywords: [], hasSkinTones: false });
+    const all = EMOJI_CATEGORIES.map(c => ({ id: c.id as EmojiCategoryId | 'recent', label: c.label, emojis: c.emojis }));
+    return recent.length > 0 ? [{ id: 'recent' as const, label: 'Recent', emojis: recent }, ...all] : all;
+  }, [recentEmoji]);
+  const results = useMemo(() => searchEmoji(query), [query]);
+
+  useEffect(() => {
+    const handlePointerDown = (e: PointerEvent) => {
+      const target = e.target as Element;
+      if (rootRef.current?.contains(target) || target.closest?.('[data-emoji-toggle]')) return;
+      onClose();
+    };
+    document.addEventListener('pointerdown', handlePointerDown);
+    return () => document.removeEventListener('pointerdown', handlePointerDown);
+  }, [onClose]);
+
+  const pick = (emoji: Emoji) => {
+    recordEmojiUse(emoji.char);
+    onPick(applySkinTone(emoji, emojiSkinTone));
+  };
+
+  const scrollToCategory = (id: string) => {
+    const body = bodyRef.current;
+    const section = sectionRefs.current[id];
+    if (body && section) body.scrollTop = section.offsetTop;
+  };
+
+  // Highlights the tab of the section at the top while scrolling
+  const handleScroll = () => {
+    const body = bodyRef.current;
+    if (!body) return;
+    const current = sections.filter(s => (sectionRefs.current[s.id]?.offsetTop ?? Infinity) <= body.scrollTop + 8).pop();
+    if (current && current.id !== activeCategory) setActiveCategory(current.id);
+  };
+
+  const renderGrid = (emojis: Emoji[]) => (
+    <div className="grid grid-cols-8">
+      {emojis.map(emoji => (
+        <button
+          key={emoji.char}
+          type="button"
+          onClick={() => pick(emoji)}
+          onMouseEnter={() => setHovered(emoji)}
+          className="w-9 h-9 rounded-lg text-2xl leading-none flex items-center justify-center hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+        >
+          {applySkinTone(emoji, emojiSkinTone)}
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div
+      ref={rootRef}
+      onKeyDown={(e) => { if (e.key === 'Escape') { e.stopPropagation(); onClose(); } }}
+      className={`w-[320px] max-w-[calc(100vw-1.5rem)] h-[380px] flex flex-col bg-white dark:bg-gray-800 rounded-2xl shadow-xl border border-gray-100 dark:border-gray-700 overflow-hidden ${className}`}
+    >
+      <div className="flex items-center gap-2 p-2">
+        <div className="flex-1 flex items-center gap-2 bg-gray-100 dark:bg-gray-900 rounded-xl px-2.5 py-1.5">
+          <Search className="w-4 h-4 text-gray-400 shrink-0" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search emoji"
+            className="flex-1 min-w-0 bg-transparent outline-none text-sm text-gray-700 dark:text-gray-200 placeholder-gray-400"
+            autoFocus
+          />
+        </div>
+        <button
+          type="button"
+          onClick={() => setTonePickerOpen(!isTonePickerOpen)}
+          className="w-8 h-8 rounded-lg text-xl flex items-center justify-center hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+          title="Skin tone"
+        >
+          {applySkinTone(TONE_SAMPLE, emojiSkinTone)}
+        </button>
+      </div>
+
+      {isTonePickerOpen && (
+        <div className="flex items-center justify-end gap-1 px-2 pb-2">
+          {SKIN_TONES.map((_, tone) => (
+            <button
+              key={tone}
+              type="button"
+              onClick={() => { setEmojiSkinTone(tone); setTonePickerOpen(false); }}
+              className={`w-8 h-8 rounded-lg text-xl flex items-center justify-center transition-colors ${
+                tone === emojiSkinTone ? 'bg-brand-100 dark:bg-brand-900/40' : 'hover:bg-gray-100 dark:hover:bg-gray-700'
+              }`}
+              title={SKIN_TONE_LABELS[tone]}
+            >
+              {applySkinTone(TONE_SAMPLE, tone)}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {!query && (
+        <div className="flex items-center justify-between px-2 border-b border-gray-100 dark:border-gray-700">
+          {sections.map(section => {
+            const Icon = CATEGORY_ICONS[section.id];
+            return (
+              <button
+                key={section.id}
+                type="button"
+                onClick={() => scrollToCategory(section.id)}
+                className={`p-1.5 border-b-2 transition-colors ${
+                  section.id === activeCategory ? 'border-brand-500 text-brand-500' : 'border-transparent text-gray-400 hover:text-gray-600 dark:hover:text-gray-200'
+                }`}
+                title={section.label}
+              >
+                <Icon className="w-4 h-4" />
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      <div ref={bodyRef} onScroll={handleScroll} className="relative flex-1 overflow-y-auto px-2 pb-2">
+        {query ? (
+          results.length > 0
+            ? <div className="pt-2">{renderGrid(results)}</div>
+            : <p className="text-center text-sm text-gray-400 py-8">No emoji found</p>
+        ) : (
+          sections.map(section => (
+            <div key={section.id} ref={el => { sectionRefs.current[section.id] = el; }}>
+              <p className="sticky top-0 bg-white/95 dark:bg-gray-800/95 py-1.5 text-[11px] font-semibold uppercase tracking-wide text-gray-400">
+                {section.label}
+              </p>
+              {renderGrid(section.emojis)}
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="h-8 px-3 flex items-center gap-2 border-t border-gray-100 dark:border-gray-700 text-xs text-gray-500 dark:text-gray-400">
+        {hovered?.shortcode && (
+          <>
+            <span className="text-lg leading-none">{applySkinTone(hovered, emojiSkinTone)}</span>
+            <span className="truncate font-mono">:{hovered.shortcode}:</span>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
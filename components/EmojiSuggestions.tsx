@@ -0,0 +1,38 @@
+import React from 'react';
+import { Emoji, applySkinTone } from '../emoji';
+
+interface EmojiSuggestionsProps {
+  emojis: Emoji[];
+  skinTone: number;
+  activeIndex: number;
+  onPick: (emoji: Emoji) => void;
+  onHover: (index: number) => void;
+}
+
+// ":shortcode" autocomplete above the composer, the emoji twin of MentionSuggestions
+export const EmojiSuggestions: React.FC<EmojiSuggestionsProps> = ({ emojis, skinTone, activeIndex, onPick, onHover }) => {
+  if (emojis.length === 0) return null;
+
+  return (
+    <div className="mb-2 max-w-xs bg-white dark:bg-gray-800 rounded-2xl shadow-lg border border-gray-100 dark:border-gray-700 py-1 overflow-hidden" role="listbox">
+      {emojis.map((emoji, i) => (
+        <button
+          key={emoji.char}
+          type="button"
+          role="option"
+          aria-selected={i === activeIndex}
+          // Keeps focus (and the caret) in the composer
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onPick(emoji)}
+          onMouseEnter={() => onHover(i)}
+          className={`w-full flex items-center gap-2 px-3 py-1.5 text-left text-sm transition-colors ${
+            i === activeIndex ? 'bg-brand-50 dark:bg-brand-900/30 text-brand-700 dark:text-brand-300' : 'text-gray-700 dark:text-gray-200'
+          }`}
+        >
+          <span className="w-6 text-lg leading-none text-center">{applySkinTone(emoji, skinTone)}</span>
+          <span className="truncate font-mono text-xs">:{emoji.shortcode}:</span>
+        </button>
+      ))}
+    </div>
+  );
+};
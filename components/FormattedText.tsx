@@ -0,0 +1,82 @@
+import React, { useMemo, useState } from 'react';
+import { FormatNode, MentionSpan, parseFormatting } from '../format';
+
+// Hidden until tapped; stays revealed afterwards
+const Spoiler: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [isRevealed, setRevealed] = useState(false);
+  return (
+    <span
+      onClick={(e) => { if (!isRevealed) { e.stopPropagation(); setRevealed(true); } }}
+      className={`rounded px-0.5 transition-colors ${isRevealed ? 'bg-black/10 dark:bg-white/10' : 'bg-gray-400 dark:bg-gray-500 text-transparent cursor-pointer select-none'}`}
+      title={isRevealed ? undefined : 'Show spoiler'}
+    >
+      {children}
+    </span>
+  );
+};
+
+interface RenderContext {
+  isMe: boolean;
+  currentUserId?: string;
+}
+
+const renderNodes = (nodes: FormatNode[], ctx: RenderContext): React.ReactNode[] => nodes.map((node, i) => {
+  const { isMe } = ctx;
+  switch (node.type) {
+    case 'text':
+      return <React.Fragment key={i}>{node.text}</React.Fragment>;
+    case 'bold':
+      return <strong key={i} className="font-semibold">{renderNodes(node.children, ctx)}</strong>;
+    case 'italic':
+      return <em key={i}>{renderNodes(node.children, ctx)}</em>;
+    case 'strike':
+      return <s key={i}>{renderNodes(node.children, ctx)}</s>;
+    case 'spoiler':
+      return <Spoiler key={i}>{renderNodes(node.children, ctx)}</Spoiler>;
+    case 'mention':
+      // Mentions of us stand out; everyone else's just read as names
+      return node.userId === ctx.currentUserId ? (
+        <span key={i} className="px-0.5 rounded font-semibold bg-amber-200 text-amber-900 dark:bg-amber-400/30 dark:text-amber-200">{node.text}</span>
+      ) : (
+        <span key={i} className={`font-semibold ${isMe ? 'text-white' : 'text-brand-600 dark:text-brand-400'}`}>{node.text}</span>
+      );
+    case 'code':
+      return (
+        <code key={i} className={`px-1 py-0.5 rounded font-mono text-[13px] ${isMe ? 'bg-white/20' : 'bg-gray-100 dark:bg-gray-700'}`}>
+          {node.text}
+        </code>
+      );
+    case 'codeBlock':
+      return (
+        <pre key={i} className={`my-1 p-2.5 rounded-lg font-mono text-[13px] leading-snug overflow-x-auto whitespace-pre ${isMe ? 'bg-black/20' : 'bg-gray-100 dark:bg-gray-900'}`}>
+          {node.language && <span className="block mb-1 text-[10px] uppercase tracking-wider opacity-60">{node.language}</span>}
+          <code>{node.text}</code>
+        </pre>
+      );
+    case 'link':
+      return (
+        <a
+          key={i}
+          href={node.href}
+          target="_blank"
+          rel="noopener noreferrer nofollow"
+          className={`underline underline-offset-2 break-all ${isMe ? 'text-white' : 'text-brand-600 dark:text-brand-400'}`}
+        >
+          {node.text}
+        </a>
+      );
+  }
+});
+
+interface FormattedTextProps {
+  text: string;
+  isMe: boolean;
+  mentions?: MentionSpan[];
+  currentUserId?: string;
+}
+
+// Message text with formatting; newlines are kept as typed
+export const FormattedText: React.FC<FormattedTextProps> = ({ text, isMe, mentions, currentUserId }) => {
+  const nodes = useMemo(() => parseFormatting(text, mentions), [text, mentions]);
+  return <span className="whitespace-pre-wrap break-words">{renderNodes(nodes, { isMe, currentUserId })}</span>;
+};
@@ -0,0 +1,139 @@
+import React, { useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Search, Check, Forward } from 'lucide-react';
+import { useStore } from '../store';
+import { Message } from '../types';
+import { getMessagePreview } from '../preview';
+import { getChatAvatar, getChatTitle } from '../chatInfo';
+
+// Chat picker for forwarding one message to any number of chats
+export const ForwardModal: React.FC<{ message: Message | null; onClose: () => void }> = ({ message, onClose }) => {
+  const { chats, currentUser, forwardMessage } = useStore();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const getChatName = (chatId: string) => {
+    const chat = chats.find(c => c.id === chatId);
+    return chat ? getChatTitle(chat, currentUser?.id) : 'Chat';
+  };
+
+  // Same order and search as the chat list
+  const filteredChats = useMemo(() => {
+    const sorted = [...chats].sort((a, b) => {
+        const dateA = a.lastMessage?.createdAt ? new Date(a.lastMessage.createdAt).getTime() : 0;
+        const dateB = b.lastMessage?.createdAt ? new Date(b.lastMessage.createdAt).getTime() : 0;
+        return dateB - dateA;
+    });
+    if (!searchTerm) return sorted;
+    return sorted.filter(chat => getChatTitle(chat, currentUser?.id).toLowerCase().includes(searchTerm.toLowerCase()));
+  }, [chats, currentUser?.id, searchTerm]);
+
+  const handleClose = () => {
+    setSearchTerm('');
+    setSelectedIds([]);
+    onClose();
+  };
+
+  const toggleChat = (chatId: string) => {
+    setSelectedIds(ids => ids.includes(chatId) ? ids.filter(id => id !== chatId) : [...ids, chatId]);
+  };
+
+  const handleForward = () => {
+    if (!message || selectedIds.length === 0) return;
+    forwardMessage(message, selectedIds);
+    handleClose();
+  };
+
+  return (
+    <AnimatePresence>
+      {message && (
+        <>
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={handleClose}
+            className="fixed inset-0 bg-black/40 backdrop-blur-sm z-50"
+          />
+
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            className={`
+              fixed left-0 right-0 top-0 bottom-0 m-auto
+              w-full max-w-md h-[80vh] md:max-h-[600px]
+              bg-white dark:bg-gray-900
+              rounded-3xl shadow-2xl z-50
+              flex flex-col overflow-hidden border border-gray-100 dark:border-gray-700
+            `}
+          >
+            <div className="px-6 py-4 flex items-center justify-between border-b border-gray-100 dark:border-gray-800">
+              <h2 className="text-xl font-bold text-gray-800 dark:text-white">Forward to...</h2>
+              <button
+                onClick={handleClose}
+                className="p-2 bg-gray-100 dark:bg-gray-800 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+              >
+                <X className="w-5 h-5 text-gray-500 dark:text-gray-300" />
+              </button>
+            </div>
+
+            <div className="px-6 pt-4 pb-2 space-y-3">
+              <p className="text-xs text-gray-500 dark:text-gray-400 truncate border-l-2 border-brand-500 pl-2">
+                {getMessagePreview(message) || 'Message'}
+              </p>
+              <div className="relative">
+                <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                <input
+                  type="text"
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  placeholder="Search chats..."
+                  className="w-full bg-gray-100 dark:bg-gray-800 dark:text-gray-200 rounded-2xl py-2.5 pl-10 pr-4 text-sm outline-none border border-transparent focus:border-brand-300 focus:bg-white dark:focus:bg-gray-700 transition-all placeholder-gray-400 text-gray-700"
+                  autoFocus
+                />
+              </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto px-3 py-1 space-y-1">
+              {filteredChats.map(chat => {
+                const isSelected = selectedIds.includes(chat.id);
+                return (
+                  <button
+                    key={chat.id}
+                    onClick={() => toggleChat(chat.id)}
+                    className={`w-full p-3 rounded-2xl flex items-center gap-3 transition-colors ${isSelected ? 'bg-brand-50 dark:bg-brand-900/20' : 'hover:bg-gray-50 dark:hover:bg-gray-800'}`}
+                  >
+                    <img src={getChatAvatar(chat, currentUser?.id)} alt="" className="w-10 h-10 rounded-full object-cover" />
+                    <span className="flex-1 text-left text-sm font-semibold text-gray-800 dark:text-gray-200 truncate">
+                      {getChatName(chat.id)}
+                    </span>
+                    <span className={`w-5 h-5 rounded-full border-2 flex items-center justify-center ${isSelected ? 'bg-brand-500 border-brand-500' : 'border-gray-300 dark:border-gray-600'}`}>
+                      {isSelected && <Check className="w-3 h-3 text-white" />}
+                    </span>
+                  </button>
+                );
+              })}
+              {filteredChats.length === 0 && (
+                <p className="text-center text-sm text-gray-400 py-8">No chats found</p>
+              )}
+            </div>
+
+            <div className="px-6 py-4 border-t border-gray-100 dark:border-gray-800 flex items-center justify-between gap-3">
+              <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                {selectedIds.length === 0 ? 'Select chats' : selectedIds.map(getChatName).join(', ')}
+              </p>
+              <button
+                onClick={handleForward}
+                disabled={selectedIds.length === 0}
+                className="px-4 py-2 rounded-xl bg-brand-500 text-white text-sm font-medium flex items-center gap-2 hover:bg-brand-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors shrink-0"
+              >
+                <Forward className="w-4 h-4" /> Forward
+              </button>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+};
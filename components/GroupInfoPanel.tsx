@@ -0,0 +1,365 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Camera, Check, Pencil, Loader2, UserPlus, UserMinus, ShieldCheck, ShieldOff, Link2, Copy, Trash2, LogOut } from 'lucide-react';
+import { useStore } from '../store';
+import { Chat, GroupInvite, UserStatus } from '../types';
+import { formatMemberCount, getChatAvatar, getChatTitle, getInviteLink, isGroupAdmin, isInviteExpired, parseFriendCodes } from '../chatInfo';
+import { formatSendTime } from '../scheduling';
+
+const INVITE_EXPIRY_OPTIONS: { label: string; ms: number | null }[] = [
+  { label: '1 hour', ms: 60 * 60 * 1000 },
+  { label: '1 day', ms: 24 * 60 * 60 * 1000 },
+  { label: '7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+  { label: 'Never', ms: null }
+];
+
+const InviteItem: React.FC<{ invite: GroupInvite; onRevoke: () => void }> = ({ invite, onRevoke }) => {
+  const [isCopied, setCopied] = useState(false);
+  const isExpired = isInviteExpired(invite);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(getInviteLink(invite.code));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (e) {
+      console.warn("Clipboard write failed", e);
+      alert(`Copy this link: ${getInviteLink(invite.code)}`);
+    }
+  };
+
+  return (
+    <div className={`flex items-center gap-3 p-2 rounded-2xl bg-gray-50 dark:bg-gray-800 ${isExpired ? 'opacity-60' : ''}`}>
+      <Link2 className="w-4 h-4 text-brand-500 shrink-0" />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-mono text-gray-700 dark:text-gray-200 truncate">{invite.code}</p>
+        <p className="text-[10px] text-gray-400">
+          {isExpired ? 'Expired' : invite.expiresAt ? `Expires ${formatSendTime(invite.expiresAt)}` : 'Never expires'}
+        </p>
+      </div>
+      {!isExpired && (
+        <button type="button" onClick={handleCopy} className="p-1.5 rounded-full text-gray-400 hover:text-brand-500 hover:bg-white dark:hover:bg-gray-700 transition-colors" title="Copy link">
+          {isCopied ? <Check className="w-4 h-4 text-brand-500" /> : <Copy className="w-4 h-4" />}
+        </button>
+      )}
+      <button type="button" onClick={onRevoke} className="p-1.5 rounded-full text-gray-400 hover:text-red-500 hover:bg-white dark:hover:bg-gray-700 transition-colors" title={isExpired ? 'Remove' : 'Revoke'}>
+        <Trash2 className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+const GroupInfoBody: React.FC<{ chat: Chat; onClose: () => void }> = ({ chat, onClose }) => {
+  const {
+    currentUser, updateGroup, addGroupMembers, removeGroupMember, setGroupRole, leaveGroup,
+    loadGroupInvites, createGroupInvite, revokeGroupInvite
+  } = useStore();
+  const isAdmin = isGroupAdmin(chat, currentUser?.id);
+
+  const [isEditingName, setEditingName] = useState(false);
+  const [name, setName] = useState('');
+  const [codeInput, setCodeInput] = useState('');
+  const [invites, setInvites] = useState<GroupInvite[]>([]);
+  const [inviteExpiry, setInviteExpiry] = useState(1);
+  const [busy, setBusy] = useState<string | null>(null); // What is in flight, to disable and spin the right control
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isAdmin) return;
+    let isCancelled = false;
+    loadGroupInvites(chat.id)
+      .then(list => { if (!isCancelled) setInvites(list); })
+      .catch(e => console.warn("Failed to load invites", e));
+    return () => { isCancelled = true; };
+  }, [chat.id, isAdmin, loadGroupInvites]);
+
+  const run = async (key: string, action: () => Promise<void>, failure: string) => {
+    setBusy(key);
+    try {
+      await action();
+    } catch (e: any) {
+      console.warn(failure, e);
+      alert(e?.message || failure);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const title = getChatTitle(chat, currentUser?.id);
+  // Admins first, then by name; we're always on top
+  const members = [...chat.participants].sort((a, b) =>
+    Number(b.id === currentUser?.id) - Number(a.id === currentUser?.id) ||
+    Number(isGroupAdmin(chat, b.id)) - Number(isGroupAdmin(chat, a.id)) ||
+    a.username.localeCompare(b.username)
+  );
+
+  const saveName = () => run('name', async () => {
+    if (name.trim()) await updateGroup(chat.id, { name });
+    setEditingName(false);
+  }, "Could not rename the group.");
+
+  const handleAvatar = (file?: File) => {
+    if (file) run('avatar', () => updateGroup(chat.id, { avatar: file }), "Could not change the group photo.");
+  };
+
+  const handleAddMembers = () => {
+    const codes = parseFriendCodes(codeInput).filter(code => !chat.participants.some(p => p.friendCode === code));
+    if (codes.length === 0) return;
+    run('add', async () => {
+      await addGroupMembers(chat.id, codes);
+      setCodeInput('');
+    }, "Could not add members. Check the friend codes and try again.");
+  };
+
+  const handleRemove = (userId: string, username: string) => {
+    if (!window.confirm(`Remove ${username} from the group?`)) return;
+    run(`member:${userId}`, () => removeGroupMember(chat.id, userId), "Could not remove the member.");
+  };
+
+  const handleCreateInvite = () => {
+    const ms = INVITE_EXPIRY_OPTIONS[inviteExpiry].ms;
+    run('invite', async () => {
+      const invite = await createGroupInvite(chat.id, ms === null ? undefined : new Date(Date.now() + ms));
+      setInvites(current => [invite, ...current]);
+    }, "Could not create an invite link.");
+  };
+
+  const handleRevoke = (invite: GroupInvite) => {
+    if (!isInviteExpired(invite) && !window.confirm("Revoke this link? Nobody will be able to join with it anymore.")) return;
+    run(`invite:${invite.id}`, async () => {
+      await revokeGroupInvite(chat.id, invite.id);
+      setInvites(current => current.filter(i => i.id !== invite.id));
+    }, "Could not revoke the link.");
+  };
+
+  const handleLeave = () => {
+    if (!window.confirm(`Leave "${title}"? You won't get its messages anymore.`)) return;
+    run('leave', async () => {
+      await leaveGroup(chat.id);
+      onClose();
+    }, "Could not leave the group.");
+  };
+
+  return (
+    <>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="fixed inset-0 bg-black/40 backdrop-blur-sm z-50"
+      />
+
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        className="fixed left-0 right-0 top-0 bottom-0 m-auto w-full max-w-md h-fit max-h-[85vh] bg-white dark:bg-gray-900 rounded-3xl shadow-2xl z-50 flex flex-col overflow-hidden border border-gray-100 dark:border-gray-700"
+      >
+        <div className="px-6 py-4 flex items-center justify-between border-b border-gray-100 dark:border-gray-800">
+          <h2 className="text-xl font-bold text-gray-800 dark:text-white">Group info</h2>
+          <button
+            onClick={onClose}
+            className="p-2 bg-gray-100 dark:bg-gray-800 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-500 dark:text-gray-300" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-5">
+          <div className="flex items-center gap-4">
+            <input
+              type="file"
+              ref={fileInputRef}
+              className="hidden"
+              accept="image/*"
+              onChange={(e) => { handleAvatar(e.target.files?.[0]); e.target.value = ''; }}
+            />
+            <button
+              type="button"
+              disabled={!isAdmin || busy === 'avatar'}
+              onClick={() => fileInputRef.current?.click()}
+              className="relative w-16 h-16 shrink-0 rounded-full overflow-hidden group disabled:cursor-default"
+              title={isAdmin ? 'Change group photo' : undefined}
+            >
+              <img src={getChatAvatar(chat, currentUser?.id)} alt="" className="w-full h-full object-cover" />
+              {isAdmin && (
+                <span className={`absolute inset-0 bg-black/40 flex items-center justify-center text-white transition-opacity ${busy === 'avatar' ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}>
+                  {busy === 'avatar' ? <Loader2 className="w-5 h-5 animate-spin" /> : <Camera className="w-5 h-5" />}
+                </span>
+              )}
+            </button>
+            <div className="flex-1 min-w-0">
+              {isEditingName ? (
+                <div className="flex items-center gap-2">
+                  <input
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') saveName();
+                      if (e.key === 'Escape') { e.stopPropagation(); setEditingName(false); }
+                    }}
+                    maxLength={64}
+                    className="flex-1 min-w-0 bg-gray-100 dark:bg-gray-800 dark:text-gray-200 rounded-xl py-1.5 px-3 text-sm outline-none border border-transparent focus:border-brand-300 text-gray-700"
+                    autoFocus
+                  />
+                  <button
+                    type="button"
+                    onClick={saveName}
+                    disabled={!name.trim() || busy === 'name'}
+                    className="p-1.5 rounded-full bg-brand-500 text-white disabled:opacity-50 transition-colors"
+                    title="Save"
+                  >
+                    {busy === 'name' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                  </button>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <h3 className="font-bold text-lg text-gray-800 dark:text-gray-100 truncate">{title}</h3>
+                  {isAdmin && (
+                    <button
+                      type="button"
+                      onClick={() => { setName(chat.name || ''); setEditingName(true); }}
+                      className="p-1 rounded-full text-gray-400 hover:text-brand-500 transition-colors"
+                      title="Rename group"
+                    >
+                      <Pencil className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </div>
+              )}
+              <p className="text-xs text-gray-400 dark:text-gray-500">{formatMemberCount(chat)}</p>
+            </div>
+          </div>
+
+          {isAdmin && (
+            <div className="flex items-center gap-2">
+              <input
+                value={codeInput}
+                onChange={(e) => setCodeInput(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleAddMembers(); }}
+                placeholder="Add by friend code (e.g. 12849)"
+                inputMode="numeric"
+                className="flex-1 min-w-0 bg-gray-100 dark:bg-gray-800 dark:text-gray-200 rounded-2xl py-2.5 px-4 text-sm outline-none border border-transparent focus:border-brand-300 focus:bg-white dark:focus:bg-gray-700 transition-all text-gray-700"
+              />
+              <button
+                type="button"
+                onClick={handleAddMembers}
+                disabled={parseFriendCodes(codeInput).length === 0 || busy === 'add'}
+                className="p-2.5 rounded-2xl bg-brand-500 text-white hover:bg-brand-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                title="Add members"
+              >
+                {busy === 'add' ? <Loader2 className="w-5 h-5 animate-spin" /> : <UserPlus className="w-5 h-5" />}
+              </button>
+            </div>
+          )}
+
+          <div>
+            <p className="text-[11px] font-semibold uppercase tracking-wide text-gray-400 mb-2">Members</p>
+            <div className="space-y-1">
+              {members.map(member => {
+                const isMe = member.id === currentUser?.id;
+                const isMemberAdmin = isGroupAdmin(chat, member.id);
+                const isBusy = busy === `member:${member.id}`;
+                return (
+                  <div key={member.id} className="p-2 rounded-2xl flex items-center gap-3 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors">
+                    <div className="relative shrink-0">
+                      <img src={member.avatarUrl} alt="" className="w-9 h-9 rounded-full object-cover" />
+                      {member.status === UserStatus.ONLINE && (
+                        <span className="absolute bottom-0 right-0 w-2.5 h-2.5 bg-green-500 border-2 border-white dark:border-gray-900 rounded-full" />
+                      )}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-semibold text-gray-800 dark:text-gray-200 truncate">
+                        {member.username}{isMe && <span className="font-normal text-gray-400"> (you)</span>}
+                      </p>
+                      <p className="text-[10px] text-gray-400 font-mono">#{member.friendCode}</p>
+                    </div>
+                    {isMemberAdmin && (
+                      <span className="px-2 py-0.5 rounded-full bg-brand-50 dark:bg-brand-900/30 text-brand-600 dark:text-brand-300 text-[10px] font-semibold uppercase tracking-wide">Admin</span>
+                    )}
+                    {isAdmin && !isMe && (
+                      isBusy ? <Loader2 className="w-4 h-4 text-gray-400 animate-spin" /> : (
+                        <div className="flex items-center">
+                          <button
+                            type="button"
+                            onClick={() => run(`member:${member.id}`, () => setGroupRole(chat.id, member.id, isMemberAdmin ? 'MEMBER' : 'ADMIN'), "Could not change the role.")}
+                            className="p-1.5 rounded-full text-gray-400 hover:text-brand-500 transition-colors"
+                            title={isMemberAdmin ? 'Remove as admin' : 'Make admin'}
+                          >
+                            {isMemberAdmin ? <ShieldOff className="w-4 h-4" /> : <ShieldCheck className="w-4 h-4" />}
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => handleRemove(member.id, member.username)}
+                            className="p-1.5 rounded-full text-gray-400 hover:text-red-500 transition-colors"
+                            title="Remove from group"
+                          >
+                            <UserMinus className="w-4 h-4" />
+                          </button>
+                        </div>
+                      )
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {isAdmin && (
+            <div>
+              <p className="text-[11px] font-semibold uppercase tracking-wide text-gray-400 mb-2">Invite links</p>
+              <div className="flex items-center gap-2 mb-2">
+                <select
+                  value={inviteExpiry}
+                  onChange={(e) => setInviteExpiry(Number(e.target.value))}
+                  className="flex-1 bg-gray-100 dark:bg-gray-800 dark:text-gray-200 rounded-2xl py-2 px-3 text-sm outline-none text-gray-700"
+                  title="Link expires after"
+                >
+                  {INVITE_EXPIRY_OPTIONS.map((option, i) => (
+                    <option key={option.label} value={i}>{option.ms === null ? 'Never expires' : `Expires in ${option.label}`}</option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={handleCreateInvite}
+                  disabled={busy === 'invite'}
+                  className="px-3 py-2 rounded-2xl bg-brand-500 text-white text-sm font-medium flex items-center gap-2 hover:bg-brand-600 disabled:opacity-50 transition-colors"
+                >
+                  {busy === 'invite' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Link2 className="w-4 h-4" />} Create link
+                </button>
+              </div>
+              <div className="space-y-1.5">
+                {invites.map(invite => (
+                  <InviteItem key={invite.id} invite={invite} onRevoke={() => handleRevoke(invite)} />
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-100 dark:border-gray-800">
+          <button
+            onClick={handleLeave}
+            disabled={busy === 'leave'}
+            className="w-full py-2.5 rounded-2xl text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 text-sm font-medium flex items-center justify-center gap-2 disabled:opacity-50 transition-colors"
+          >
+            {busy === 'leave' ? <Loader2 className="w-4 h-4 animate-spin" /> : <LogOut className="w-4 h-4" />} Leave group
+          </button>
+        </div>
+      </motion.div>
+    </>
+  );
+};
+
+// Members, roles and invite links of a group. Everyone can see it and leave;
+// only admins get the editing controls.
+export const GroupInfoPanel: React.FC<{ chatId: string | null; onClose: () => void }> = ({ chatId, onClose }) => {
+  const { chats } = useStore();
+  const chat = chats.find(c => c.id === chatId && c.isGroup);
+  return (
+    <AnimatePresence>
+      {chat && <GroupInfoBody key={chat.id} chat={chat} onClose={onClose} />}
+    </AnimatePresence>
+  );
+};
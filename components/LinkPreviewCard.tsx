@@ -0,0 +1,55 @@
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { LinkPreview } from '../types';
+import { getLinkPreview } from '../linkPreview';
+
+interface LinkPreviewCardProps {
+  url: string;
+  isMe?: boolean;
+  onRemove?: () => void; // Composer only: drops the preview from the message being written
+}
+
+// Renders nothing until (and unless) the unfurl service has something to show
+export const LinkPreviewCard: React.FC<LinkPreviewCardProps> = ({ url, isMe, onRemove }) => {
+  const [preview, setPreview] = useState<LinkPreview | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPreview(null);
+    getLinkPreview(url).then(result => { if (!cancelled) setPreview(result); });
+    return () => { cancelled = true; };
+  }, [url]);
+
+  if (!preview) return null;
+
+  return (
+    <div className={`relative mt-1 rounded-2xl overflow-hidden border bg-white dark:bg-gray-800 shadow-sm ${isMe ? 'border-brand-200 dark:border-brand-900' : 'border-gray-100 dark:border-gray-700'}`}>
+      <a href={preview.url} target="_blank" rel="noopener noreferrer nofollow" className="block hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
+        {preview.imageUrl && (
+          <img src={preview.imageUrl} alt="" referrerPolicy="no-referrer" className="w-full max-h-40 object-cover" />
+        )}
+        <div className="px-3 py-2 border-l-4 border-brand-500">
+          {preview.siteName && (
+            <p className="text-[10px] font-semibold uppercase tracking-wider text-brand-600 dark:text-brand-400 truncate">{preview.siteName}</p>
+          )}
+          {preview.title && (
+            <p className="text-sm font-semibold text-gray-800 dark:text-gray-100 line-clamp-2">{preview.title}</p>
+          )}
+          {preview.description && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 line-clamp-2 mt-0.5">{preview.description}</p>
+          )}
+        </div>
+      </a>
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          className="absolute top-1.5 right-1.5 p-1 bg-black/40 hover:bg-black/60 text-white rounded-full transition-colors"
+          title="Remove preview"
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+import React from 'react';
+import { User } from '../types';
+
+interface MentionSuggestionsProps {
+  users: User[];
+  activeIndex: number;
+  onPick: (user: User) => void;
+  onHover: (index: number) => void;
+}
+
+// "@" autocomplete above the composer; the keyboard side lives in ChatWindow's handleKeyDown
+export const MentionSuggestions: React.FC<MentionSuggestionsProps> = ({ users, activeIndex, onPick, onHover }) => {
+  if (users.length === 0) return null;
+
+  return (
+    <div className="mb-2 max-w-xs bg-white dark:bg-gray-800 rounded-2xl shadow-lg border border-gray-100 dark:border-gray-700 py-1 overflow-hidden" role="listbox">
+      {users.map((user, i) => (
+        <button
+          key={user.id}
+          type="button"
+          role="option"
+          aria-selected={i === activeIndex}
+          // Keeps focus (and the caret) in the composer
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onPick(user)}
+          onMouseEnter={() => onHover(i)}
+          className={`w-full flex items-center gap-2 px-3 py-1.5 text-left text-sm transition-colors ${
+            i === activeIndex ? 'bg-brand-50 dark:bg-brand-900/30 text-brand-700 dark:text-brand-300' : 'text-gray-700 dark:text-gray-200'
+          }`}
+        >
+          <img src={user.avatarUrl} alt="" className="w-6 h-6 rounded-full object-cover" />
+          <span className="truncate font-medium">{user.username}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
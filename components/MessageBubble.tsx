@@ -0,0 +1,646 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Play, Pause, Check, CheckCheck, Clock, AlertCircle, RotateCcw, Trash2, Reply, Pencil, Loader2, Ban, SmilePlus, Forward, Pin, PinOff, Plus } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Chat, Message, MessageRevision, MessageStatus, MessageType, Reaction, ReplyPreview } from '../types';
+import { getMessagePreview } from '../preview';
+import { canEditMessage, getMessageVersions } from '../editing';
+import { QUICK_REACTIONS, hasReacted } from '../reactions';
+import { FormattedText } from './FormattedText';
+import { LinkPreviewCard } from './LinkPreviewCard';
+import { EmojiPicker } from './EmojiPicker';
+import { findPreviewUrl } from '../linkPreview';
+import { toMentionSpans } from '../mentions';
+import { getMemberColor } from '../chatInfo';
+
+// Horizontal swipe (touch) that triggers a reply
+const SWIPE_REPLY_PX = 60;
+// Holding a finger still this long opens the message menu
+const LONG_PRESS_MS = 500;
+
+// --- Custom Audio Player Component ---
+const AudioMessage: React.FC<{ src: string; isMe: boolean }> = ({ src, isMe }) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [duration, setDuration] = useState(0);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    const onTimeUpdate = () => {
+        if (audio.duration && !isNaN(audio.duration)) {
+            setProgress((audio.currentTime / audio.duration) * 100);
+        }
+    };
+    
+    const onEnded = () => {
+        setIsPlaying(false);
+        setProgress(0);
+    };
+
+    const onLoadedMetadata = () => {
+        if (!isNaN(audio.duration) && audio.duration !== Infinity) {
+            setDuration(audio.duration);
+        }
+    };
+
+    audio.addEventListener('timeupdate', onTimeUpdate);
+    audio.addEventListener('ended', onEnded);
+    audio.addEventListener('loadedmetadata', onLoadedMetadata);
+
+    return () => {
+        audio.pause();
+        audio.removeEventListener('timeupdate', onTimeUpdate);
+        audio.removeEventListener('ended', onEnded);
+        audio.removeEventListener('loadedmetadata', onLoadedMetadata);
+    };
+  }, [src]);
+
+  const togglePlay = () => {
+    if (!audioRef.current) return;
+    if (isPlaying) {
+        audioRef.current.pause();
+    } else {
+        audioRef.current.play();
+    }
+    setIsPlaying(!isPlaying);
+  };
+
+  const formatTime = (time: number) => {
+    if (!time || isNaN(time) || time === Infinity) return "0:00";
+    const minutes = Math.floor(time / 60);
+    const seconds = Math.floor(time % 60);
+    return `${minutes}:${seconds < 10 ? '0' : ''}${seconds}`;
+  };
+
+  return (
+    <div className={`flex items-center gap-3 min-w-[200px] ${isMe ? 'text-white' : 'text-gray-800 dark:text-gray-200'}`}>
+        <audio ref={audioRef} src={src} preload="metadata" />
+        <button 
+            onClick={togglePlay}
+            className={`p-2 rounded-full shrink-0 transition-colors ${
+                isMe ? 'bg-white/20 hover:bg-white/30 text-white' : 'bg-brand-100 hover:bg-brand-200 text-brand-600 dark:bg-gray-700 dark:text-brand-400 dark:hover:bg-gray-600'
+            }`}
+        >
+            {isPlaying ? <Pause className="w-4 h-4 fill-current" /> : <Play className="w-4 h-4 fill-current ml-0.5" />}
+        </button>
+        <div className="flex-1 flex flex-col justify-center gap-1">
+            <div className={`h-1 rounded-full overflow-hidden w-full ${isMe ? 'bg-white/30' : 'bg-gray-200 dark:bg-gray-600'}`}>
+                <div 
+                    className={`h-full transition-all duration-100 ${isMe ? 'bg-white' : 'bg-brand-500'}`} 
+                    style={{ width: `${progress}%` }}
+                />
+            </div>
+            <div className={`text-[10px] font-medium ${isMe ? 'text-white/80' : 'text-gray-400 dark:text-gray-400'}`}>
+                {isPlaying ? formatTime(audioRef.current?.currentTime || 0) : formatTime(duration)}
+            </div>
+        </div>
+    </div>
+  );
+};
+
+// --- Delivery Ticks ---
+
+// Read = every other participant has read it, delivered = at least one client acknowledged it
+const getMessageStatus = (msg: Message, chat: Chat, currentUserId?: string): MessageStatus => {
+  if (msg.status === 'pending' || msg.status === 'failed') return msg.status;
+  const others = chat.participants.filter(p => p.id !== currentUserId);
+  if (others.length > 0 && others.every(p => msg.readBy.includes(p.id))) return 'read';
+  if (msg.readBy.some(id => id !== currentUserId) || msg.deliveredTo?.some(id => id !== currentUserId)) return 'delivered';
+  return 'sent';
+};
+
+const MessageTicks: React.FC<{ status: MessageStatus }> = ({ status }) => {
+  if (status === 'pending') return <Clock className="w-3 h-3" />;
+  if (status === 'failed') return <AlertCircle className="w-3.5 h-3.5 text-red-200" />;
+  if (status === 'sent') return <Check className="w-3.5 h-3.5" />;
+  return <CheckCheck className={`w-3.5 h-3.5 ${status === 'read' ? 'text-sky-200' : ''}`} />;
+};
+
+// Group chats: who has read a message and when
+const SeenByList: React.FC<{ msg: Message; chat: Chat; currentUserId?: string; onClose: () => void }> = ({ msg, chat, currentUserId, onClose }) => {
+  const readers = (msg.readReceipts || []).filter(r => r.userId !== currentUserId);
+  return (
+    <motion.div
+        initial={{ opacity: 0, y: 4 }}
+        animate={{ opacity: 1, y: 0 }}
+        exit={{ opacity: 0, y: 4 }}
+        onMouseLeave={onClose}
+        className="absolute right-0 bottom-full mb-2 z-20 w-56 bg-white dark:bg-gray-800 rounded-2xl shadow-xl border border-gray-100 dark:border-gray-700 p-3 text-gray-800 dark:text-gray-100"
+    >
+        <p className="text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-2">Seen by</p>
+        {readers.length === 0 ? (
+            <p className="text-xs text-gray-400">Nobody yet</p>
+        ) : (
+            <div className="space-y-2 max-h-48 overflow-y-auto">
+                {readers.map(r => {
+                    const reader = chat.participants.find(p => p.id === r.userId);
+                    return (
+                        <div key={r.userId} className="flex items-center gap-2">
+                            <img src={reader?.avatarUrl} className="w-6 h-6 rounded-full object-cover" />
+                            <span className="text-xs font-medium flex-1 truncate">{reader?.username || 'Unknown'}</span>
+                            {r.readAt && (
+                                <span className="text-[10px] text-gray-400">
+                                    {new Date(r.readAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                                </span>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        )}
+    </motion.div>
+  );
+};
+
+// --- Edit History ---
+
+interface EditHistoryListProps {
+  msg: Message;
+  isMe: boolean;
+  loadRevisions: (chatId: string, messageId: string) => Promise<MessageRevision[]>;
+  onClose: () => void;
+}
+
+const EditHistoryList: React.FC<EditHistoryListProps> = ({ msg, isMe, loadRevisions, onClose }) => {
+  const [revisions, setRevisions] = useState<MessageRevision[] | null>(null);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadRevisions(msg.chatId, msg.id)
+      .then(list => { if (!cancelled) setRevisions(list); })
+      .catch(() => { if (!cancelled) setError(true); });
+    return () => { cancelled = true; };
+  }, [loadRevisions, msg.chatId, msg.id, msg.editedAt]);
+
+  return (
+    <motion.div
+        initial={{ opacity: 0, y: 4 }}
+        animate={{ opacity: 1, y: 0 }}
+        exit={{ opacity: 0, y: 4 }}
+        onMouseLeave={onClose}
+        className={`absolute ${isMe ? 'right-0' : 'left-0'} bottom-full mb-2 z-20 w-64 bg-white dark:bg-gray-800 rounded-2xl shadow-xl border border-gray-100 dark:border-gray-700 p-3 text-gray-800 dark:text-gray-100`}
+    >
+        <p className="text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-2">Edit history</p>
+        {error ? (
+            <p className="text-xs text-red-500">Could not load earlier versions</p>
+        ) : !revisions ? (
+            <Loader2 className="w-4 h-4 animate-spin text-gray-400" />
+        ) : (
+            <div className="space-y-2 max-h-56 overflow-y-auto">
+                {getMessageVersions(msg, revisions).reverse().map((version, i, list) => (
+                    <div key={i} className={version.isCurrent ? '' : 'opacity-70'}>
+                        <p className="text-[10px] text-gray-400">
+                            {version.isCurrent ? 'Current' : i === list.length - 1 ? 'Original' : 'Edited'}
+                            {' · '}
+                            {version.writtenAt.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                        </p>
+                        <p className="text-xs whitespace-pre-wrap break-words">{version.content}</p>
+                    </div>
+                ))}
+            </div>
+        )}
+    </motion.div>
+  );
+};
+
+// --- Reply Quote ---
+
+// The quoted parent of a reply; tapping it jumps to the original
+const ReplyQuote: React.FC<{ reply?: ReplyPreview; authorName: string; isMe: boolean; onClick: () => void }> = ({ reply, authorName, isMe, onClick }) => (
+  <button
+      type="button"
+      onClick={onClick}
+      className={`block w-full text-left mb-1.5 px-2 py-1 rounded-lg border-l-2 text-xs transition-colors ${
+          isMe
+            ? 'bg-white/15 border-white/70 hover:bg-white/25'
+            : 'bg-brand-50 dark:bg-gray-700/60 border-brand-500 hover:bg-brand-100 dark:hover:bg-gray-700'
+      }`}
+  >
+      <span className={`block font-semibold truncate ${isMe ? 'text-white' : 'text-brand-600 dark:text-brand-400'}`}>{authorName}</span>
+      <span className={`block truncate ${isMe ? 'text-white/80' : 'text-gray-500 dark:text-gray-400'}`}>
+          {reply ? getMessagePreview(reply) || 'Message' : 'Original message'}
+      </span>
+  </button>
+);
+
+// --- Reactions ---
+
+// Quick picks plus a "+" that opens the full emoji picker
+const ReactionBar: React.FC<{ reactions?: Reaction[]; currentUserId?: string; onPick: (emoji: string) => void; onMore: () => void }> = ({ reactions, currentUserId, onPick, onMore }) => (
+  <div className="flex items-center gap-0.5">
+      {QUICK_REACTIONS.map(emoji => (
+          <button
+              key={emoji}
+              type="button"
+              onClick={() => onPick(emoji)}
+              className={`w-8 h-8 rounded-full text-lg flex items-center justify-center transition-transform hover:scale-125 ${
+                  hasReacted(reactions, emoji, currentUserId) ? 'bg-brand-100 dark:bg-brand-900/40' : ''
+              }`}
+          >
+              {emoji}
+          </button>
+      ))}
+      <button
+          type="button"
+          data-emoji-toggle
+          onClick={onMore}
+          className="w-8 h-8 rounded-full flex items-center justify-center text-gray-400 hover:text-brand-500 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+          title="More reactions"
+      >
+          <Plus className="w-4 h-4" />
+      </button>
+  </div>
+);
+
+// One chip per emoji; hovering lists who reacted, clicking adds or takes back our own
+const ReactionChips: React.FC<{ reactions: Reaction[]; chat: Chat; currentUserId?: string; isMe: boolean; onToggle: (emoji: string) => void }> = ({ reactions, chat, currentUserId, isMe, onToggle }) => (
+  <div className={`flex flex-wrap gap-1 mt-1 ${isMe ? 'justify-end' : 'justify-start'}`}>
+      {reactions.map(r => {
+          const isMine = !!currentUserId && r.userIds.includes(currentUserId);
+          const names = r.userIds.map(id => id === currentUserId ? 'You' : chat.participants.find(p => p.id === id)?.username || 'Unknown');
+          return (
+              <button
+                  key={r.emoji}
+                  type="button"
+                  onClick={() => onToggle(r.emoji)}
+                  title={`${names.join(', ')} reacted with ${r.emoji}`}
+                  className={`h-6 px-2 rounded-full text-xs flex items-center gap-1 border transition-colors ${
+                      isMine
+                        ? 'bg-brand-50 border-brand-300 text-brand-700 dark:bg-brand-900/30 dark:border-brand-700 dark:text-brand-300'
+                        : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50 dark:bg-gray-800 dark:border-gray-700 dark:text-gray-300 dark:hover:bg-gray-700'
+                  }`}
+              >
+                  <span>{r.emoji}</span>
+                  <span className="font-medium">{r.userIds.length}</span>
+              </button>
+          );
+      })}
+  </div>
+);
+
+// --- Message Row ---
+interface MessageBubbleProps {
+  msg: Message;
+  chat: Chat;
+  currentUserId?: string;
+  isMe: boolean;
+  showAvatar: boolean;
+  avatarUrl?: string;
+  senderName?: string; // Only in groups, for other people's messages
+  isUnread: boolean;
+  animateEntry: boolean; // Only freshly arrived messages get the entry animation
+  isHighlighted: boolean; // Briefly set after jumping to this message
+  isPinned: boolean;
+  replyTarget?: Message; // The replied-to message, when it is loaded
+  onRetry: (messageId: string) => void;
+  onDiscard: (chatId: string, messageId: string) => void;
+  onReply: (msg: Message) => void;
+  onEdit: (msg: Message) => void;
+  onDelete: (msg: Message, scope: 'me' | 'everyone') => void;
+  onReact: (msg: Message, emoji: string) => void;
+  onForward: (msg: Message) => void;
+  onTogglePin: (msg: Message) => void;
+  onLoadRevisions: (chatId: string, messageId: string) => Promise<MessageRevision[]>;
+  onJumpToMessage: (messageId: string) => void;
+}
+
+export const MessageBubble: React.FC<MessageBubbleProps> = React.memo(({
+  msg, chat, currentUserId, isMe, showAvatar, avatarUrl, senderName, isUnread, animateEntry, isHighlighted, isPinned, replyTarget,
+  onRetry, onDiscard, onReply, onEdit, onDelete, onReact, onForward, onTogglePin, onLoadRevisions, onJumpToMessage
+}) => {
+  const [isSeenByOpen, setSeenByOpen] = useState(false);
+  const [isHistoryOpen, setHistoryOpen] = useState(false);
+  const [isMenuOpen, setMenuOpen] = useState(false);
+  const [isReactionPickerOpen, setReactionPickerOpen] = useState(false);
+  const [isEmojiPickerOpen, setEmojiPickerOpen] = useState(false);
+  const [swipeOffset, setSwipeOffset] = useState(0);
+  const swipeRef = useRef<{ x: number; y: number; active: boolean } | null>(null);
+  const longPressTimer = useRef<number | null>(null);
+
+  // Queued messages have no server id yet, so nothing can refer to them
+  const isSent = msg.status !== 'pending' && msg.status !== 'failed';
+  const canReply = isSent && !msg.isDeleted;
+  const canEdit = isMe && canEditMessage(msg, currentUserId);
+  const canReact = canReply;
+  const reactions = msg.reactions || [];
+  const previewUrl = useMemo(
+    () => !msg.isDeleted && !msg.noLinkPreview && msg.content ? findPreviewUrl(msg.content) : null,
+    [msg.isDeleted, msg.noLinkPreview, msg.content]
+  );
+  const mentionSpans = useMemo(() => toMentionSpans(msg.content, msg.mentions), [msg.content, msg.mentions]);
+
+  const react = (emoji: string) => {
+    onReact(msg, emoji);
+    setReactionPickerOpen(false);
+    setEmojiPickerOpen(false);
+    setMenuOpen(false);
+  };
+
+  const closeEmojiPicker = useCallback(() => setEmojiPickerOpen(false), []);
+
+  const openEmojiPicker = () => {
+    setReactionPickerOpen(false);
+    setMenuOpen(false);
+    setEmojiPickerOpen(true);
+  };
+
+  const cancelLongPress = () => {
+    if (longPressTimer.current) clearTimeout(longPressTimer.current);
+    longPressTimer.current = null;
+  };
+
+  useEffect(() => cancelLongPress, []);
+
+  const reply = replyTarget || msg.replyTo;
+  const replyAuthor = !reply ? 'Reply'
+    : reply.senderId === currentUserId ? 'You'
+    : chat.participants.find(p => p.id === reply.senderId)?.username || 'Unknown';
+
+  const handleTouchStart = (e: React.TouchEvent) => {
+    if (!isSent) return;
+    longPressTimer.current = window.setTimeout(() => {
+      longPressTimer.current = null;
+      swipeRef.current = null;
+      setMenuOpen(true);
+    }, LONG_PRESS_MS);
+    if (!canReply) return;
+    const touch = e.touches[0];
+    swipeRef.current = { x: touch.clientX, y: touch.clientY, active: false };
+  };
+
+  const handleTouchMove = (e: React.TouchEvent) => {
+    cancelLongPress();
+    const swipe = swipeRef.current;
+    if (!swipe) return;
+    const touch = e.touches[0];
+    const dx = swipe.x - touch.clientX;
+    if (!swipe.active) {
+      // Vertical movement first means the user is scrolling
+      if (Math.abs(touch.clientY - swipe.y) > 10) { swipeRef.current = null; return; }
+      if (dx < 10) return;
+      swipe.active = true;
+    }
+    setSwipeOffset(Math.max(0, Math.min(SWIPE_REPLY_PX * 1.3, dx)));
+  };
+
+  const handleTouchEnd = () => {
+    cancelLongPress();
+    if (swipeOffset >= SWIPE_REPLY_PX) onReply(msg);
+    swipeRef.current = null;
+    setSwipeOffset(0);
+  };
+
+  // Notices like "X pinned ..." sit centered in the timeline; they point at their message via replyToId
+  if (msg.type === MessageType.SYSTEM) {
+    return (
+      <motion.div
+          data-unread-id={isUnread ? msg.id : undefined}
+          initial={animateEntry ? { opacity: 0, y: 10 } : false}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex justify-center py-1"
+      >
+          <button
+              type="button"
+              onClick={() => msg.replyToId && onJumpToMessage(msg.replyToId)}
+              className={`max-w-[85%] px-3 py-1 rounded-full bg-gray-100 dark:bg-gray-800 text-xs text-gray-500 dark:text-gray-400 truncate ${msg.replyToId ? 'hover:bg-gray-200 dark:hover:bg-gray-700' : 'cursor-default'}`}
+          >
+              {msg.content}
+          </button>
+      </motion.div>
+    );
+  }
+
+  return (
+    <motion.div 
+        data-unread-id={isUnread ? msg.id : undefined}
+        initial={animateEntry ? { opacity: 0, y: 10, scale: 0.95 } : false}
+        animate={{ opacity: 1, y: 0, scale: 1 }}
+        onTouchStart={handleTouchStart}
+        onTouchMove={handleTouchMove}
+        onTouchEnd={handleTouchEnd}
+        className={`flex ${isMe ? 'justify-end' : 'justify-start'} group rounded-2xl transition-colors duration-700 ${isHighlighted ? 'bg-brand-100/70 dark:bg-brand-900/30' : ''}`}
+    >
+        {!isMe && (
+            <div className="w-8 h-8 mr-2 flex-shrink-0">
+                {showAvatar ? <img src={avatarUrl} className="w-8 h-8 rounded-full object-cover" /> : <div className="w-8" />}
+            </div>
+        )}
+        
+        <div
+            className={`max-w-[85%] sm:max-w-[70%] relative ${swipeOffset ? '' : 'transition-transform'}`}
+            style={{ transform: swipeOffset ? `translateX(${-swipeOffset}px)` : undefined }}
+            onContextMenu={(e) => { if (!isSent) return; e.preventDefault(); setMenuOpen(true); }}
+        >
+            {swipeOffset > 0 && (
+                <Reply
+                    className="absolute top-1/2 -translate-y-1/2 -right-8 w-5 h-5 text-brand-500"
+                    style={{ opacity: Math.min(1, swipeOffset / SWIPE_REPLY_PX) }}
+                />
+            )}
+
+            {canReply && (
+                <div className={`absolute top-1/2 -translate-y-1/2 ${isMe ? 'right-full mr-1 flex-row-reverse' : 'left-full ml-1'} flex items-center opacity-0 group-hover:opacity-100 transition-opacity`}>
+                    <button
+                        type="button"
+                        onClick={() => onReply(msg)}
+                        className="p-1.5 rounded-full text-gray-400 hover:text-brand-500 hover:bg-gray-100 dark:hover:bg-gray-800"
+                        title="Reply"
+                    >
+                        <Reply className="w-4 h-4" />
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => setReactionPickerOpen(!isReactionPickerOpen)}
+                        className="p-1.5 rounded-full text-gray-400 hover:text-brand-500 hover:bg-gray-100 dark:hover:bg-gray-800"
+                        title="React"
+                    >
+                        <SmilePlus className="w-4 h-4" />
+                    </button>
+                </div>
+            )}
+
+            {/* Attachments */}
+            {msg.type === MessageType.IMAGE && msg.attachments?.[0] && (
+                <div className={`rounded-2xl overflow-hidden mb-1 shadow-sm border-4 ${isMe ? 'border-brand-500' : 'border-white dark:border-gray-800'}`}>
+                    <img src={msg.attachments[0].url} alt="attachment" className="w-full h-auto" />
+                </div>
+            )}
+            
+            {/* Message Bubble Content */}
+            <div className={`
+                px-4 py-2.5 rounded-2xl text-[15px] shadow-sm
+                ${isMe 
+                    ? 'bg-brand-500 text-white rounded-br-none' 
+                    : 'bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-100 rounded-bl-none border border-gray-100 dark:border-gray-700'}
+            `}>
+                {senderName && showAvatar && (
+                    <p className={`text-xs font-semibold mb-0.5 truncate ${getMemberColor(msg.senderId)}`}>{senderName}</p>
+                )}
+                {msg.forwardedFrom && !msg.isDeleted && (
+                    <p className={`flex items-center gap-1 mb-1 text-xs italic ${isMe ? 'text-white/80' : 'text-brand-600 dark:text-brand-400'}`}>
+                        <Forward className="w-3 h-3 shrink-0" />
+                        <span className="truncate">Forwarded from {msg.forwardedFrom.userId === currentUserId ? 'you' : msg.forwardedFrom.username}</span>
+                    </p>
+                )}
+                {msg.replyToId && !msg.isDeleted && (
+                    <ReplyQuote reply={reply} authorName={replyAuthor} isMe={isMe} onClick={() => onJumpToMessage(msg.replyToId!)} />
+                )}
+                {msg.isDeleted ? (
+                    <span className="italic opacity-70 inline-flex items-center gap-1.5">
+                        <Ban className="w-3.5 h-3.5" /> This message was deleted
+                    </span>
+                ) : msg.type === MessageType.VOICE && msg.attachments?.[0] ? (
+                    <AudioMessage src={msg.attachments[0].url} isMe={isMe} />
+                ) : msg.content ? (
+                    <FormattedText text={msg.content} isMe={isMe} mentions={mentionSpans} currentUserId={currentUserId} />
+                ) : null}
+                {msg.editedAt && !msg.isDeleted && (
+                    <button
+                        type="button"
+                        onClick={() => setHistoryOpen(!isHistoryOpen)}
+                        className={`float-right ml-2 mt-1 text-[10px] italic hover:underline ${isMe ? 'text-white/70' : 'text-gray-400'}`}
+                        title="Show edit history"
+                    >
+                        edited
+                    </button>
+                )}
+                {isMe && (
+                    <button
+                        type="button"
+                        onClick={() => chat.isGroup && setSeenByOpen(!isSeenByOpen)}
+                        className={`float-right ml-2 mt-1.5 text-white/70 ${chat.isGroup ? 'cursor-pointer hover:text-white' : 'cursor-default'}`}
+                        title={chat.isGroup ? 'Seen by' : undefined}
+                    >
+                        <MessageTicks status={getMessageStatus(msg, chat, currentUserId)} />
+                    </button>
+                )}
+            </div>
+
+            {previewUrl && <LinkPreviewCard url={previewUrl} isMe={isMe} />}
+
+            {reactions.length > 0 && (
+                <ReactionChips reactions={reactions} chat={chat} currentUserId={currentUserId} isMe={isMe} onToggle={react} />
+            )}
+
+            {isMe && msg.status === 'failed' && (
+                <div className="flex items-center justify-end gap-2 mt-1 text-[11px]">
+                    <span className="text-red-500">Not sent</span>
+                    <button onClick={() => onRetry(msg.id)} className="flex items-center gap-1 text-brand-500 hover:text-brand-600 font-medium">
+                        <RotateCcw className="w-3 h-3" /> Retry
+                    </button>
+                    <button onClick={() => onDiscard(msg.chatId, msg.id)} className="flex items-center gap-1 text-gray-400 hover:text-red-500 font-medium">
+                        <Trash2 className="w-3 h-3" /> Delete
+                    </button>
+                </div>
+            )}
+
+            <AnimatePresence>
+                {isMenuOpen && (
+                    <motion.div
+                        initial={{ opacity: 0, scale: 0.95 }}
+                        animate={{ opacity: 1, scale: 1 }}
+                        exit={{ opacity: 0, scale: 0.95 }}
+                        onMouseLeave={() => setMenuOpen(false)}
+                        className={`absolute top-full mt-1 ${isMe ? 'right-0' : 'left-0'} z-30 bg-white dark:bg-gray-800 rounded-xl shadow-xl border border-gray-100 dark:border-gray-700 py-1 min-w-[140px]`}
+                    >
+                        {canReact && (
+                            <div className="px-1.5 pb-1 mb-1 border-b border-gray-100 dark:border-gray-700">
+                                <ReactionBar reactions={reactions} currentUserId={currentUserId} onPick={react} onMore={openEmojiPicker} />
+                            </div>
+                        )}
+                        {canReply && (
+                            <button
+                                onClick={() => { onReply(msg); setMenuOpen(false); }}
+                                className="w-full px-3 py-2 text-sm text-left flex items-center gap-2 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700"
+                            >
+                                <Reply className="w-4 h-4" /> Reply
+                            </button>
+                        )}
+                        {canReply && (
+                            <button
+                                onClick={() => { onForward(msg); setMenuOpen(false); }}
+                                className="w-full px-3 py-2 text-sm text-left flex items-center gap-2 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700"
+                            >
+                                <Forward className="w-4 h-4" /> Forward
+                            </button>
+                        )}
+                        {canReply && (
+                            <button
+                                onClick={() => { onTogglePin(msg); setMenuOpen(false); }}
+                                className="w-full px-3 py-2 text-sm text-left flex items-center gap-2 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700"
+                            >
+                                {isPinned ? <><PinOff className="w-4 h-4" /> Unpin</> : <><Pin className="w-4 h-4" /> Pin</>}
+                            </button>
+                        )}
+                        {canEdit && (
+                            <button
+                                onClick={() => { onEdit(msg); setMenuOpen(false); }}
+                                className="w-full px-3 py-2 text-sm text-left flex items-center gap-2 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700"
+                            >
+                                <Pencil className="w-4 h-4" /> Edit
+                            </button>
+                        )}
+                        <button
+                            onClick={() => { onDelete(msg, 'me'); setMenuOpen(false); }}
+                            className="w-full px-3 py-2 text-sm text-left flex items-center gap-2 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20"
+                        >
+                            <Trash2 className="w-4 h-4" /> Delete for me
+                        </button>
+                        {isMe && !msg.isDeleted && (
+                            <button
+                                onClick={() => { onDelete(msg, 'everyone'); setMenuOpen(false); }}
+                                className="w-full px-3 py-2 text-sm text-left flex items-center gap-2 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20"
+                            >
+                                <Trash2 className="w-4 h-4" /> Delete for everyone
+                            </button>
+                        )}
+                    </motion.div>
+                )}
+            </AnimatePresence>
+
+            <AnimatePresence>
+                {isReactionPickerOpen && (
+                    <motion.div
+                        initial={{ opacity: 0, y: 4 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: 4 }}
+                        onMouseLeave={() => setReactionPickerOpen(false)}
+                        className={`absolute ${isMe ? 'right-0' : 'left-0'} bottom-full mb-2 z-30 px-1.5 py-1 bg-white dark:bg-gray-800 rounded-full shadow-xl border border-gray-100 dark:border-gray-700`}
+                    >
+                        <ReactionBar reactions={reactions} currentUserId={currentUserId} onPick={react} onMore={openEmojiPicker} />
+                    </motion.div>
+                )}
+            </AnimatePresence>
+
+            {isEmojiPickerOpen && (
+                <EmojiPicker
+                    onPick={react}
+                    onClose={closeEmojiPicker}
+                    className={`absolute ${isMe ? 'right-0' : 'left-0'} bottom-full mb-2 z-40`}
+                />
+            )}
+
+            <AnimatePresence>
+                {isSeenByOpen && (
+                    <SeenByList msg={msg} chat={chat} currentUserId={currentUserId} onClose={() => setSeenByOpen(false)} />
+                )}
+                {isHistoryOpen && (
+                    <EditHistoryList
+                        msg={msg}
+                        isMe={isMe}
+                        loadRevisions={onLoadRevisions}
+                        onClose={() => setHistoryOpen(false)}
+                    />
+                )}
+            </AnimatePresence>
+            
+            <div className={`text-[10px] mt-1 opacity-0 group-hover:opacity-100 transition-opacity absolute -bottom-4 ${isMe ? 'right-0' : 'left-0'} text-gray-400 dark:text-gray-500 whitespace-nowrap`}>
+                {new Date(msg.createdAt).toLocaleTimeString([], { hour: '2-digit', minute:'2-digit' })}
+            </div>
+        </div>
+    </motion.div>
+  );
+});
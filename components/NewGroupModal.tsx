@@ -0,0 +1,248 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Camera, Check, Loader2, Users, Link2 } from 'lucide-react';
+import { useStore } from '../store';
+import { User } from '../types';
+import { parseFriendCodes, parseInviteCode } from '../chatInfo';
+import { getContactsConfig } from '../constants';
+
+// Group name, optional avatar and members, picked from our contacts (or people we already chat with,
+// when anyone may be added) or added by friend code
+export const NewGroupModal: React.FC<{ isOpen: boolean; onClose: () => void }> = ({ isOpen, onClose }) => {
+  const { chats, contacts, currentUser, createGroup, joinGroupByInvite } = useStore();
+  const [name, setName] = useState('');
+  const [codes, setCodes] = useState<string[]>([]);
+  const [codeInput, setCodeInput] = useState('');
+  const [avatar, setAvatar] = useState<File | null>(null);
+  const [isCreating, setCreating] = useState(false);
+  const [inviteInput, setInviteInput] = useState('');
+  const [isJoining, setJoining] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const avatarPreview = useMemo(() => avatar ? URL.createObjectURL(avatar) : null, [avatar]);
+  useEffect(() => () => { if (avatarPreview) URL.revokeObjectURL(avatarPreview); }, [avatarPreview]);
+
+  // Accepted contacts, or everyone from our direct chats once each when the contacts-only rule is off
+  const knownUsers = useMemo(() => {
+    const byId = new Map<string, User>();
+    if (getContactsConfig().contactsOnlyChats) {
+      contacts.filter(c => c.status === 'ACCEPTED').forEach(c => byId.set(c.user.id, c.user));
+    } else {
+      chats.filter(c => !c.isGroup).forEach(c => c.participants.forEach(p => {
+        if (p.id !== currentUser?.id) byId.set(p.id, p);
+      }));
+    }
+    return Array.from(byId.values()).sort((a, b) => a.username.localeCompare(b.username));
+  }, [chats, contacts, currentUser?.id]);
+
+  const canCreate = !!name.trim() && (codes.length > 0 || parseFriendCodes(codeInput).length > 0) && !isCreating;
+
+  const reset = () => {
+    setName('');
+    setCodes([]);
+    setCodeInput('');
+    setAvatar(null);
+    setInviteInput('');
+  };
+
+  const handleClose = () => {
+    if (isCreating || isJoining) return;
+    reset();
+    onClose();
+  };
+
+  const addCodes = (input: string) => {
+    const added = parseFriendCodes(input).filter(code => code !== currentUser?.friendCode);
+    setCodes(current => Array.from(new Set([...current, ...added])));
+    setCodeInput('');
+  };
+
+  const toggleCode = (code: string) => {
+    setCodes(current => current.includes(code) ? current.filter(c => c !== code) : [...current, code]);
+  };
+
+  const handleCreate = async () => {
+    // A code still sitting in the input counts too
+    const members = Array.from(new Set([...codes, ...parseFriendCodes(codeInput)]));
+    if (!name.trim() || members.length === 0) return;
+    setCreating(true);
+    try {
+      await createGroup(name, members, avatar || undefined);
+      reset();
+      onClose();
+    } catch (e: any) {
+      console.warn("Group creation failed", e);
+      alert(e?.message || "Could not create the group. Please try again.");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleJoin = async () => {
+    const code = parseInviteCode(inviteInput);
+    if (!code) return;
+    setJoining(true);
+    try {
+      await joinGroupByInvite(code);
+      reset();
+      onClose();
+    } catch (e) {
+      console.warn("Joining by invite failed", e);
+      alert("This invite link is invalid or has expired.");
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  const nameForCode = (code: string) => knownUsers.find(u => u.friendCode === code)?.username;
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={handleClose}
+            className="fixed inset-0 bg-black/40 backdrop-blur-sm z-50"
+          />
+
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            className="fixed left-0 right-0 top-0 bottom-0 m-auto w-full max-w-md h-fit max-h-[85vh] bg-white dark:bg-gray-900 rounded-3xl shadow-2xl z-50 flex flex-col overflow-hidden border border-gray-100 dark:border-gray-700"
+          >
+            <div className="px-6 py-4 flex items-center justify-between border-b border-gray-100 dark:border-gray-800">
+              <h2 className="text-xl font-bold text-gray-800 dark:text-white">New group</h2>
+              <button
+                onClick={handleClose}
+                className="p-2 bg-gray-100 dark:bg-gray-800 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+              >
+                <X className="w-5 h-5 text-gray-500 dark:text-gray-300" />
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+              <div className="flex items-center gap-4">
+                <input
+                  type="file"
+                  ref={fileInputRef}
+                  className="hidden"
+                  accept="image/*"
+                  onChange={(e) => { setAvatar(e.target.files?.[0] || null); e.target.value = ''; }}
+                />
+                <button
+                  type="button"
+                  onClick={() => fileInputRef.current?.click()}
+                  className="w-16 h-16 shrink-0 rounded-full bg-gray-100 dark:bg-gray-800 flex items-center justify-center overflow-hidden text-gray-400 hover:text-brand-500 transition-colors"
+                  title="Group photo"
+                >
+                  {avatarPreview ? <img src={avatarPreview} alt="" className="w-full h-full object-cover" /> : <Camera className="w-6 h-6" />}
+                </button>
+                <input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Group name"
+                  maxLength={64}
+                  className="flex-1 bg-gray-100 dark:bg-gray-800 dark:text-gray-200 rounded-2xl py-2.5 px-4 text-sm outline-none border border-transparent focus:border-brand-300 focus:bg-white dark:focus:bg-gray-700 transition-all text-gray-700"
+                  autoFocus
+                />
+              </div>
+
+              <div>
+                <p className="text-[11px] font-semibold uppercase tracking-wide text-gray-400 mb-2">Members</p>
+                {codes.length > 0 && (
+                  <div className="flex flex-wrap gap-1.5 mb-2">
+                    {codes.map(code => (
+                      <span key={code} className="flex items-center gap-1 pl-2.5 pr-1 py-1 rounded-full bg-brand-50 dark:bg-brand-900/30 text-brand-700 dark:text-brand-300 text-xs font-medium">
+                        {nameForCode(code) || `#${code}`}
+                        <button type="button" onClick={() => toggleCode(code)} className="p-0.5 rounded-full hover:bg-brand-100 dark:hover:bg-brand-900/50">
+                          <X className="w-3 h-3" />
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+                )}
+                <input
+                  value={codeInput}
+                  onChange={(e) => setCodeInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' || e.key === ',' || e.key === ' ') {
+                      e.preventDefault();
+                      addCodes(codeInput);
+                    }
+                  }}
+                  onBlur={() => codeInput && addCodes(codeInput)}
+                  placeholder="Add by friend code (e.g. 12849)"
+                  inputMode="numeric"
+                  className="w-full bg-gray-100 dark:bg-gray-800 dark:text-gray-200 rounded-2xl py-2.5 px-4 text-sm outline-none border border-transparent focus:border-brand-300 focus:bg-white dark:focus:bg-gray-700 transition-all text-gray-700"
+                />
+              </div>
+
+              {knownUsers.length > 0 && (
+                <div className="space-y-1">
+                  {knownUsers.map(user => {
+                    const isSelected = codes.includes(user.friendCode);
+                    return (
+                      <button
+                        key={user.id}
+                        type="button"
+                        onClick={() => toggleCode(user.friendCode)}
+                        className={`w-full p-2 rounded-2xl flex items-center gap-3 transition-colors ${isSelected ? 'bg-brand-50 dark:bg-brand-900/20' : 'hover:bg-gray-50 dark:hover:bg-gray-800'}`}
+                      >
+                        <img src={user.avatarUrl} alt="" className="w-9 h-9 rounded-full object-cover" />
+                        <span className="flex-1 min-w-0 text-left">
+                          <span className="block text-sm font-semibold text-gray-800 dark:text-gray-200 truncate">{user.username}</span>
+                          <span className="block text-[10px] text-gray-400 font-mono">#{user.friendCode}</span>
+                        </span>
+                        <span className={`w-5 h-5 rounded-full border-2 flex items-center justify-center ${isSelected ? 'bg-brand-500 border-brand-500' : 'border-gray-300 dark:border-gray-600'}`}>
+                          {isSelected && <Check className="w-3 h-3 text-white" />}
+                        </span>
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+
+              <div className="pt-4 border-t border-gray-100 dark:border-gray-800">
+                <p className="text-[11px] font-semibold uppercase tracking-wide text-gray-400 mb-2">Have an invite?</p>
+                <div className="flex items-center gap-2">
+                  <input
+                    value={inviteInput}
+                    onChange={(e) => setInviteInput(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') handleJoin(); }}
+                    placeholder="Paste an invite link or code"
+                    className="flex-1 min-w-0 bg-gray-100 dark:bg-gray-800 dark:text-gray-200 rounded-2xl py-2.5 px-4 text-sm outline-none border border-transparent focus:border-brand-300 focus:bg-white dark:focus:bg-gray-700 transition-all text-gray-700"
+                  />
+                  <button
+                    type="button"
+                    onClick={handleJoin}
+                    disabled={!parseInviteCode(inviteInput) || isJoining}
+                    className="px-3 py-2.5 rounded-2xl bg-gray-100 dark:bg-gray-800 text-brand-600 dark:text-brand-400 text-sm font-medium flex items-center gap-2 hover:bg-brand-50 dark:hover:bg-brand-900/20 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {isJoining ? <Loader2 className="w-4 h-4 animate-spin" /> : <Link2 className="w-4 h-4" />} Join
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            <div className="px-6 py-4 border-t border-gray-100 dark:border-gray-800 flex items-center justify-between">
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                {codes.length === 0 ? 'Add at least one member' : `${codes.length + 1} members including you`}
+              </span>
+              <button
+                onClick={handleCreate}
+                disabled={!canCreate}
+                className="px-4 py-2 rounded-xl bg-brand-500 text-white text-sm font-medium flex items-center gap-2 hover:bg-brand-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {isCreating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Users className="w-4 h-4" />} Create group
+              </button>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+};
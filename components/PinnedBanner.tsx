@@ -0,0 +1,53 @@
+import React, { useEffect, useState } from 'react';
+import { Pin, X } from 'lucide-react';
+import { Message, PinnedMessage } from '../types';
+import { getMessagePreview } from '../preview';
+
+interface PinnedBannerProps {
+  pins: PinnedMessage[];
+  messagesById: Map<string, Message>;
+  onJump: (messageId: string) => void;
+  onUnpin: (messageId: string) => void;
+}
+
+// Shows one pin at a time, newest first. Clicking jumps to it and moves on to the next older
+// one, wrapping around, so repeated clicks walk through every pin.
+export const PinnedBanner: React.FC<PinnedBannerProps> = ({ pins, messagesById, onJump, onUnpin }) => {
+  const [index, setIndex] = useState(pins.length - 1);
+
+  // A new pin is shown right away; removals just keep the index in range
+  useEffect(() => {
+    setIndex(pins.length - 1);
+  }, [pins.length]);
+
+  if (pins.length === 0) return null;
+  const current = pins[Math.min(Math.max(index, 0), pins.length - 1)];
+  const loaded = messagesById.get(current.messageId);
+  const preview = loaded ? getMessagePreview(loaded) : current.message ? getMessagePreview(current.message) : '';
+
+  const handleClick = () => {
+    onJump(current.messageId);
+    setIndex(i => (i <= 0 ? pins.length - 1 : i - 1));
+  };
+
+  return (
+    <div className="bg-white/80 dark:bg-gray-900/80 backdrop-blur-md border-b border-gray-100 dark:border-gray-800 px-6 py-2 flex items-center gap-3 z-10 transition-colors">
+      <span className="w-0.5 self-stretch rounded-full bg-brand-500" />
+      <button type="button" onClick={handleClick} className="flex-1 min-w-0 text-left">
+        <span className="flex items-center gap-1 text-xs font-semibold text-brand-600 dark:text-brand-400">
+          <Pin className="w-3 h-3" />
+          {pins.length > 1 ? `Pinned message ${pins.indexOf(current) + 1} of ${pins.length}` : 'Pinned message'}
+        </span>
+        <span className="block text-sm text-gray-600 dark:text-gray-300 truncate">{preview || 'Message'}</span>
+      </button>
+      <button
+        type="button"
+        onClick={() => onUnpin(current.messageId)}
+        className="p-1.5 rounded-full text-gray-400 hover:text-red-500 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+        title="Unpin"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, CalendarClock } from 'lucide-react';
+import { formatSendTime, fromLocalInputValue, getSchedulePresets, isValidSendTime, toLocalInputValue } from '../scheduling';
+
+interface ScheduleModalProps {
+  isOpen: boolean;
+  initialDate?: Date;
+  onConfirm: (sendAt: Date) => void;
+  onClose: () => void;
+}
+
+// Date/time picker for "send later", with a few quick picks
+export const ScheduleModal: React.FC<ScheduleModalProps> = ({ isOpen, initialDate, onConfirm, onClose }) => {
+  const [value, setValue] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const presets = getSchedulePresets();
+    const initial = initialDate || presets[0]?.date || new Date(Date.now() + 60 * 60 * 1000);
+    setValue(toLocalInputValue(initial));
+  }, [isOpen, initialDate]);
+
+  const sendAt = fromLocalInputValue(value);
+  const isValid = isValidSendTime(sendAt);
+
+  const handleConfirm = () => {
+    if (isValidSendTime(sendAt)) onConfirm(sendAt);
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/40 backdrop-blur-sm z-50"
+          />
+
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            className="fixed left-0 right-0 top-0 bottom-0 m-auto w-full max-w-sm h-fit bg-white dark:bg-gray-900 rounded-3xl shadow-2xl z-50 overflow-hidden border border-gray-100 dark:border-gray-700"
+          >
+            <div className="px-6 py-4 flex items-center justify-between border-b border-gray-100 dark:border-gray-800">
+              <h2 className="text-xl font-bold text-gray-800 dark:text-white">Schedule message</h2>
+              <button
+                onClick={onClose}
+                className="p-2 bg-gray-100 dark:bg-gray-800 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+              >
+                <X className="w-5 h-5 text-gray-500 dark:text-gray-300" />
+              </button>
+            </div>
+
+            <div className="px-6 py-4 space-y-4">
+              <div className="flex flex-wrap gap-2">
+                {getSchedulePresets().map(preset => (
+                  <button
+                    key={preset.label}
+                    type="button"
+                    onClick={() => setValue(toLocalInputValue(preset.date))}
+                    className="px-3 py-1.5 rounded-full text-xs font-medium bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-200 hover:bg-brand-50 hover:text-brand-600 dark:hover:bg-brand-900/30 dark:hover:text-brand-300 transition-colors"
+                  >
+                    {preset.label}
+                  </button>
+                ))}
+              </div>
+
+              <input
+                type="datetime-local"
+                value={value}
+                min={toLocalInputValue(new Date())}
+                onChange={(e) => setValue(e.target.value)}
+                className="w-full bg-gray-100 dark:bg-gray-800 dark:text-gray-200 rounded-2xl py-2.5 px-4 text-sm outline-none border border-transparent focus:border-brand-300 focus:bg-white dark:focus:bg-gray-700 transition-all text-gray-700"
+              />
+
+              <p className={`text-xs ${isValid ? 'text-gray-500 dark:text-gray-400' : 'text-red-500'}`}>
+                {isValid && sendAt ? `Will be sent ${formatSendTime(sendAt)}, even if Flick is closed.` : 'Pick a time at least a minute from now.'}
+              </p>
+            </div>
+
+            <div className="px-6 py-4 border-t border-gray-100 dark:border-gray-800 flex justify-end">
+              <button
+                onClick={handleConfirm}
+                disabled={!isValid}
+                className="px-4 py-2 rounded-xl bg-brand-500 text-white text-sm font-medium flex items-center gap-2 hover:bg-brand-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                <CalendarClock className="w-4 h-4" /> Schedule
+              </button>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+};
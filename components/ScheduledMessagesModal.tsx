@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Pencil, Send, Trash2, Check, Loader2 } from 'lucide-react';
+import { useStore } from '../store';
+import { ScheduledMessage } from '../types';
+import { stripFormatting } from '../format';
+import { formatSendTime, fromLocalInputValue, isValidSendTime, toLocalInputValue } from '../scheduling';
+
+const ScheduledItem: React.FC<{ item: ScheduledMessage }> = ({ item }) => {
+  const { updateScheduledMessage, cancelScheduledMessage, sendScheduledNow } = useStore();
+  const [isEditing, setEditing] = useState(false);
+  const [isBusy, setBusy] = useState(false);
+  const [text, setText] = useState(item.content);
+  const [time, setTime] = useState(toLocalInputValue(item.sendAt));
+
+  const sendAt = fromLocalInputValue(time);
+  const canSave = !!text.trim() && isValidSendTime(sendAt);
+  // The server may be posting it right now; it drops off the list once that's confirmed
+  const isDue = item.sendAt.getTime() <= Date.now();
+
+  const startEdit = () => {
+    setText(item.content);
+    setTime(toLocalInputValue(item.sendAt));
+    setEditing(true);
+  };
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setBusy(true);
+    try {
+      await action();
+      setEditing(false);
+    } catch (e) {
+      console.warn(failure, e);
+      alert(`${failure} It may have been sent already.`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!canSave || !sendAt) return;
+    run(() => updateScheduledMessage(item.chatId, item.id, text, sendAt), "Could not save the changes.");
+  };
+
+  const handleCancel = () => {
+    if (!window.confirm("Cancel this scheduled message?")) return;
+    run(() => cancelScheduledMessage(item.chatId, item.id), "Could not cancel the message.");
+  };
+
+  if (isEditing) {
+    return (
+      <div className="p-3 rounded-2xl bg-gray-50 dark:bg-gray-800 space-y-2">
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={3}
+          className="w-full bg-white dark:bg-gray-900 dark:text-gray-200 rounded-xl p-2.5 text-sm outline-none border border-gray-200 dark:border-gray-700 focus:border-brand-300 resize-none"
+          autoFocus
+        />
+        <input
+          type="datetime-local"
+          value={time}
+          min={toLocalInputValue(new Date())}
+          onChange={(e) => setTime(e.target.value)}
+          className="w-full bg-white dark:bg-gray-900 dark:text-gray-200 rounded-xl py-2 px-2.5 text-sm outline-none border border-gray-200 dark:border-gray-700 focus:border-brand-300"
+        />
+        <div className="flex justify-end gap-2">
+          <button onClick={() => setEditing(false)} className="px-3 py-1.5 rounded-lg text-sm text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!canSave || isBusy}
+            className="px-3 py-1.5 rounded-lg bg-brand-500 text-white text-sm font-medium flex items-center gap-1.5 hover:bg-brand-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />} Save
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="group p-3 rounded-2xl hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors">
+      <p className="text-[11px] font-semibold text-brand-600 dark:text-brand-400">
+        {isDue ? 'Sending…' : formatSendTime(item.sendAt)}
+      </p>
+      <p className="text-sm text-gray-700 dark:text-gray-200 line-clamp-3 break-words">{stripFormatting(item.content)}</p>
+      {!isDue && (
+        <div className="flex items-center gap-1 mt-1.5">
+          <button
+            onClick={startEdit}
+            disabled={isBusy}
+            className="p-1.5 rounded-lg text-gray-400 hover:text-brand-500 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            title="Edit"
+          >
+            <Pencil className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => run(() => sendScheduledNow(item.chatId, item.id), "Could not send the message.")}
+            disabled={isBusy}
+            className="p-1.5 rounded-lg text-gray-400 hover:text-brand-500 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            title="Send now"
+          >
+            <Send className="w-4 h-4" />
+          </button>
+          <button
+            onClick={handleCancel}
+            disabled={isBusy}
+            className="p-1.5 rounded-lg text-gray-400 hover:text-red-500 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            title="Cancel message"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+          {isBusy && <Loader2 className="w-4 h-4 animate-spin text-gray-400 ml-1" />}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Our scheduled messages in one chat, soonest first
+export const ScheduledMessagesModal: React.FC<{ chatId: string | null; onClose: () => void }> = ({ chatId, onClose }) => {
+  const { scheduledMessages, loadScheduledMessages } = useStore();
+  const items = chatId ? scheduledMessages[chatId] || [] : [];
+
+  // Refresh on open, so anything the server delivered meanwhile drops off
+  useEffect(() => {
+    if (chatId) loadScheduledMessages(chatId);
+  }, [chatId, loadScheduledMessages]);
+
+  return (
+    <AnimatePresence>
+      {chatId && (
+        <>
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/40 backdrop-blur-sm z-50"
+          />
+
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            className="fixed left-0 right-0 top-0 bottom-0 m-auto w-full max-w-md h-fit max-h-[80vh] bg-white dark:bg-gray-900 rounded-3xl shadow-2xl z-50 flex flex-col overflow-hidden border border-gray-100 dark:border-gray-700"
+          >
+            <div className="px-6 py-4 flex items-center justify-between border-b border-gray-100 dark:border-gray-800">
+              <h2 className="text-xl font-bold text-gray-800 dark:text-white">Scheduled messages</h2>
+              <button
+                onClick={onClose}
+                className="p-2 bg-gray-100 dark:bg-gray-800 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+              >
+                <X className="w-5 h-5 text-gray-500 dark:text-gray-300" />
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto px-3 py-2 space-y-1">
+              {items.map(item => <ScheduledItem key={item.id} item={item} />)}
+              {items.length === 0 && (
+                <p className="text-center text-sm text-gray-400 py-8">No scheduled messages</p>
+              )}
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+};
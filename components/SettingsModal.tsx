@@ -3,7 +3,8 @@ import { useStore } from '../store';
 import { motion, AnimatePresence } from 'framer-motion';
 import { X, Camera, Moon, Sun, Bell, BellOff, LogOut, Check, Save, Loader2, Database, QrCode } from 'lucide-react';
 import { api } from '../api';
-import { getSupabaseConfig } from '../constants';
+import { getSupabaseConfig, getBackendConfig, BackendKind } from '../constants';
+import { StatusPicker } from './StatusPicker';
 
 export const SettingsModal: React.FC = () => {
   const { 
@@ -26,6 +27,7 @@ export const SettingsModal: React.FC = () => {
   // Storage Config State
   const [sbUrl, setSbUrl] = useState('');
   const [sbKey, setSbKey] = useState('');
+  const [backend, setBackend] = useState<BackendKind>(getBackendConfig().kind);
   const [showConfig, setShowConfig] = useState(false);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -35,6 +37,7 @@ export const SettingsModal: React.FC = () => {
         const config = getSupabaseConfig();
         setSbUrl(config.url.includes("YOUR_SUPABASE") ? '' : config.url);
         setSbKey(config.key.includes("YOUR_SUPABASE") ? '' : config.key);
+        setBackend(getBackendConfig().kind);
         // Show config if it's not configured properly
         if (!config.isConfigured) {
             setShowConfig(true);
@@ -54,6 +57,14 @@ export const SettingsModal: React.FC = () => {
             localStorage.setItem('supabase_project_url', sbUrl);
             localStorage.setItem('supabase_anon_key', sbKey);
         }
+
+        // Accounts don't carry over between backends: sign out and start fresh
+        if (backend !== getBackendConfig().kind) {
+            localStorage.setItem('backend', backend);
+            logout();
+            window.location.reload();
+            return;
+        }
         
         await updateUserProfile({ username, bio });
         setIsSaved(true);
@@ -224,6 +235,12 @@ export const SettingsModal: React.FC = () => {
               {/* Preferences */}
               <div className="space-y-4">
                 <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider">Preferences</h3>
+
+                {/* Status */}
+                <div className="p-2 bg-gray-50 dark:bg-gray-800/50 rounded-2xl">
+                  <p className="px-3 pt-1 pb-2 font-medium text-gray-800 dark:text-white">Status</p>
+                  <StatusPicker />
+                </div>
                 
                 {/* Theme Toggle */}
                 <div className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-800/50 rounded-2xl">
@@ -256,12 +273,26 @@ export const SettingsModal: React.FC = () => {
                         onClick={() => setShowConfig(!showConfig)}
                         className="flex items-center gap-2 text-xs font-bold text-gray-400 uppercase tracking-wider hover:text-brand-500 transition-colors"
                     >
-                        <Database className="w-3 h-3" /> Storage Configuration
+                        <Database className="w-3 h-3" /> Server Configuration
                     </button>
                     
                     {showConfig && (
                         <div className="mt-3 p-4 bg-gray-50 dark:bg-gray-800/50 rounded-2xl space-y-3 animate-fade-in border border-gray-100 dark:border-gray-700">
-                             <p className="text-xs text-red-500 mb-2">Required for file uploads. Find these in Supabase Dashboard &rarr; Settings &rarr; API.</p>
+                             <div>
+                                <label className="block text-xs font-medium text-gray-500 mb-1">Backend</label>
+                                <select
+                                    value={backend}
+                                    onChange={(e) => setBackend(e.target.value as BackendKind)}
+                                    className="w-full bg-white dark:bg-black/20 border border-gray-200 dark:border-gray-600 rounded-lg px-3 py-2 text-xs outline-none focus:border-brand-400 dark:text-gray-200"
+                                >
+                                    <option value="xano">Xano</option>
+                                    <option value="supabase">Supabase (Auth + Database)</option>
+                                </select>
+                                {backend !== getBackendConfig().kind && (
+                                    <p className="text-xs text-gray-400 mt-1">Saving switches the backend and signs you out.</p>
+                                )}
+                             </div>
+                             <p className="text-xs text-red-500 mb-2">Required for file uploads{backend === 'supabase' ? ' and the Supabase backend' : ''}. Find these in Supabase Dashboard &rarr; Settings &rarr; API.</p>
                              <div>
                                 <label className="block text-xs font-medium text-gray-500 mb-1">Project URL</label>
                                 <input 
@@ -0,0 +1,13 @@
+import React from 'react';
+import { UserStatus } from '../types';
+
+// Presence dot on the corner of an avatar; the avatar wrapper must be `relative`
+export const StatusBadge: React.FC<{ status: UserStatus }> = ({ status }) => {
+  const colors = {
+    [UserStatus.ONLINE]: 'bg-green-500',
+    [UserStatus.OFFLINE]: 'bg-gray-400',
+    [UserStatus.BUSY]: 'bg-red-500',
+    [UserStatus.AWAY]: 'bg-yellow-500',
+  };
+  return <div className={`absolute bottom-0 right-0 w-3.5 h-3.5 rounded-full border-2 border-white ${colors[status] || colors[UserStatus.OFFLINE]}`} />;
+};
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { useStore } from '../store';
+import { Check } from 'lucide-react';
+import { UserStatus } from '../types';
+
+const STATUS_OPTIONS: { status: UserStatus; label: string; hint: string; color: string }[] = [
+  { status: UserStatus.ONLINE, label: 'Automatic', hint: 'Online, or away when idle', color: 'bg-green-500' },
+  { status: UserStatus.AWAY, label: 'Away', hint: 'Show as away', color: 'bg-yellow-500' },
+  { status: UserStatus.BUSY, label: 'Busy', hint: 'Do not disturb', color: 'bg-red-500' },
+  { status: UserStatus.OFFLINE, label: 'Appear offline', hint: 'Hide your activity', color: 'bg-gray-400' },
+];
+
+const EXPIRY_OPTIONS: { label: string; getDate: () => Date | undefined }[] = [
+  { label: "Don't clear", getDate: () => undefined },
+  { label: '30 minutes', getDate: () => new Date(Date.now() + 30 * 60 * 1000) },
+  { label: '1 hour', getDate: () => new Date(Date.now() + 60 * 60 * 1000) },
+  { label: '4 hours', getDate: () => new Date(Date.now() + 4 * 60 * 60 * 1000) },
+  {
+    label: 'Today',
+    getDate: () => {
+      const endOfDay = new Date();
+      endOfDay.setHours(23, 59, 59, 999);
+      return endOfDay;
+    }
+  },
+];
+
+export const StatusPicker: React.FC<{ onDone?: () => void }> = ({ onDone }) => {
+  const { currentUser, isStatusManual, setMyStatus } = useStore();
+  const selected = isStatusManual ? currentUser?.status : UserStatus.ONLINE;
+
+  const [pending, setPending] = useState<UserStatus | null>(null);
+  const [statusText, setStatusText] = useState(currentUser?.statusText || '');
+  const [expiryIndex, setExpiryIndex] = useState(0);
+
+  const choose = (status: UserStatus) => {
+    // Busy gets an extra step for the custom text / expiry
+    if (status === UserStatus.BUSY) {
+      setPending(status);
+      return;
+    }
+    setMyStatus(status);
+    onDone?.();
+  };
+
+  const confirmBusy = () => {
+    setMyStatus(UserStatus.BUSY, { text: statusText, expiresAt: EXPIRY_OPTIONS[expiryIndex].getDate() });
+    setPending(null);
+    onDone?.();
+  };
+
+  return (
+    <div className="space-y-1">
+      {STATUS_OPTIONS.map(option => (
+        <button
+          key={option.status}
+          onClick={() => choose(option.status)}
+          className="w-full flex items-center gap-3 px-3 py-2 rounded-xl text-left hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors"
+        >
+          <span className={`w-2.5 h-2.5 rounded-full shrink-0 ${option.color}`} />
+          <span className="flex-1 min-w-0">
+            <span className="block text-sm font-medium text-gray-800 dark:text-gray-100">{option.label}</span>
+            <span className="block text-[11px] text-gray-400 truncate">{option.hint}</span>
+          </span>
+          {selected === option.status && <Check className="w-4 h-4 text-brand-500" />}
+        </button>
+      ))}
+
+      {pending === UserStatus.BUSY && (
+        <div className="mt-2 p-3 bg-gray-50 dark:bg-gray-800/50 rounded-xl space-y-2 animate-fade-in border border-gray-100 dark:border-gray-700">
+          <input
+            type="text"
+            value={statusText}
+            onChange={(e) => setStatusText(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && confirmBusy()}
+            placeholder="What are you up to? (optional)"
+            maxLength={80}
+            className="w-full bg-white dark:bg-black/20 border border-gray-200 dark:border-gray-600 rounded-lg px-3 py-2 text-xs outline-none focus:border-brand-400 dark:text-gray-200"
+            autoFocus
+          />
+          <div className="flex items-center gap-2">
+            <select
+              value={expiryIndex}
+              onChange={(e) => setExpiryIndex(Number(e.target.value))}
+              className="flex-1 bg-white dark:bg-black/20 border border-gray-200 dark:border-gray-600 rounded-lg px-2 py-2 text-xs outline-none focus:border-brand-400 dark:text-gray-200"
+            >
+              {EXPIRY_OPTIONS.map((option, i) => (
+                <option key={option.label} value={i}>Clear after: {option.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={confirmBusy}
+              className="px-3 py-2 bg-brand-500 hover:bg-brand-600 text-white text-xs font-semibold rounded-lg transition-colors"
+            >
+              Set
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,178 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+
+// Windowed list for long conversations: only rows near the viewport are mounted, the rest is
+// represented by top/bottom spacers. Row heights are measured as they render (images, voice
+// players and files all differ) and unmeasured rows fall back to an estimate.
+
+export interface VirtualListHandle {
+  // Centers the row in the viewport; false if no row has that key
+  scrollToKey: (key: string) => boolean;
+}
+
+interface VirtualMessageListProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T, index: number) => React.ReactNode;
+  // The scrolling element that contains this list
+  scrollRef: React.RefObject<HTMLDivElement>;
+  estimatedItemHeight?: number;
+  overscanPx?: number;
+  onRangeChange?: (start: number, end: number) => void;
+  handleRef?: React.MutableRefObject<VirtualListHandle | null>;
+}
+
+const BOTTOM_THRESHOLD_PX = 4;
+
+// First index whose bottom edge is below `offset`
+const findIndex = (offsets: number[], offset: number) => {
+  let low = 0;
+  let high = offsets.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (offsets[mid + 1] <= offset) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
+
+const VirtualRow: React.FC<{ rowKey: string; observer: ResizeObserver; children: React.ReactNode }> = ({ rowKey, observer, children }) => {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useLayoutEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    observer.observe(el);
+    return () => observer.unobserve(el);
+  }, [observer]);
+
+  return <div ref={ref} data-virtual-key={rowKey} className="pb-4">{children}</div>;
+};
+
+export function VirtualMessageList<T>({
+  items,
+  getKey,
+  renderItem,
+  scrollRef,
+  estimatedItemHeight = 72,
+  overscanPx = 800,
+  onRangeChange,
+  handleRef
+}: VirtualMessageListProps<T>) {
+  const listRef = useRef<HTMLDivElement>(null);
+  const heightsRef = useRef(new Map<string, number>());
+  const keyIndexRef = useRef(new Map<string, number>());
+  const offsetsRef = useRef<number[]>([0]);
+  const atBottomRef = useRef(true);
+  const [measureVersion, setMeasureVersion] = useState(0);
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const update = () => {
+      atBottomRef.current = el.scrollHeight - el.scrollTop - el.clientHeight < BOTTOM_THRESHOLD_PX;
+      setViewport({ top: el.scrollTop, height: el.clientHeight });
+    };
+    update();
+    el.addEventListener('scroll', update, { passive: true });
+    const resizeObserver = new ResizeObserver(update);
+    resizeObserver.observe(el);
+    return () => {
+      el.removeEventListener('scroll', update);
+      resizeObserver.disconnect();
+    };
+  }, [scrollRef]);
+
+  const rowObserver = useMemo(() => new ResizeObserver((entries) => {
+    const el = scrollRef.current;
+    const listTop = listRef.current?.offsetTop ?? 0;
+    let changed = false;
+    let scrollAdjust = 0;
+
+    entries.forEach((entry) => {
+      const target = entry.target as HTMLElement;
+      const key = target.dataset.virtualKey;
+      if (!key) return;
+      const height = entry.borderBoxSize?.[0]?.blockSize ?? target.getBoundingClientRect().height;
+      const previous = heightsRef.current.get(key) ?? estimatedItemHeight;
+      if (Math.abs(height - previous) < 1) return;
+
+      heightsRef.current.set(key, height);
+      changed = true;
+
+      // A row above the viewport changed size (e.g. an image finished loading):
+      // shift the scroll position so the visible content does not jump
+      const index = keyIndexRef.current.get(key);
+      if (el && index !== undefined && listTop + offsetsRef.current[index] + previous <= el.scrollTop) {
+        scrollAdjust += height - previous;
+      }
+    });
+
+    if (el && scrollAdjust !== 0 && !atBottomRef.current) el.scrollTop += scrollAdjust;
+    if (changed) setMeasureVersion(v => v + 1);
+  }), [scrollRef, estimatedItemHeight]);
+
+  useEffect(() => () => rowObserver.disconnect(), [rowObserver]);
+
+  const offsets = useMemo(() => {
+    const result = new Array<number>(items.length + 1);
+    result[0] = 0;
+    const keyIndex = new Map<string, number>();
+    items.forEach((item, i) => {
+      const key = getKey(item);
+      keyIndex.set(key, i);
+      result[i + 1] = result[i] + (heightsRef.current.get(key) ?? estimatedItemHeight);
+    });
+    keyIndexRef.current = keyIndex;
+    return result;
+  }, [items, getKey, estimatedItemHeight, measureVersion]);
+  offsetsRef.current = offsets;
+
+  // Rows that were at the bottom stay pinned there when late measurements grow the list
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (el && atBottomRef.current) el.scrollTop = el.scrollHeight;
+  }, [measureVersion, scrollRef]);
+
+  useEffect(() => {
+    if (!handleRef) return;
+    handleRef.current = {
+      scrollToKey: (key) => {
+        const el = scrollRef.current;
+        const index = keyIndexRef.current.get(key);
+        if (!el || index === undefined) return false;
+        const rowTop = (listRef.current?.offsetTop ?? 0) + offsetsRef.current[index];
+        const rowHeight = offsetsRef.current[index + 1] - offsetsRef.current[index];
+        // Instant, so rows rendered on the way are measured against the final position
+        el.scrollTop = rowTop - (el.clientHeight - rowHeight) / 2;
+        return true;
+      }
+    };
+    return () => { handleRef.current = null; };
+  }, [handleRef, scrollRef]);
+
+  const totalHeight = offsets[items.length];
+  const listTop = listRef.current?.offsetTop ?? 0;
+  const windowTop = Math.max(0, viewport.top - listTop - overscanPx);
+  const windowBottom = viewport.top - listTop + viewport.height + overscanPx;
+
+  const start = items.length === 0 ? 0 : findIndex(offsets, windowTop);
+  const end = items.length === 0 ? 0 : Math.min(items.length, findIndex(offsets, windowBottom) + 1);
+
+  useEffect(() => {
+    onRangeChange?.(start, end);
+  }, [start, end, onRangeChange]);
+
+  return (
+    <div ref={listRef} style={{ paddingTop: offsets[start], paddingBottom: totalHeight - offsets[end] }}>
+      {items.slice(start, end).map((item, i) => {
+        const key = getKey(item);
+        return (
+          <VirtualRow key={key} rowKey={key} observer={rowObserver}>
+            {renderItem(item, start + i)}
+          </VirtualRow>
+        );
+      })}
+    </div>
+  );
+}
@@ -7,6 +7,60 @@ export const APP_VERSION = "1.0.1";
 export const AUTH_API_URL = "https://x8ki-letl-twmt.n7.xano.io/api:ehV-wnmI";
 export const DATA_API_URL = "https://x8ki-letl-twmt.n7.xano.io/api:0D9n7dZ_";
 
+// Which server stores accounts, chats and messages: the Xano API groups above, or
+// Supabase Auth + PostgREST on the Supabase project below (tables from база.txt)
+export type BackendKind = 'xano' | 'supabase';
+export const DEFAULT_BACKEND: BackendKind = 'xano';
+
+// Helper to get backend configuration (LocalStorage > Default). Read once at startup.
+export const getBackendConfig = () => {
+  const stored = localStorage.getItem('backend');
+  const kind: BackendKind = stored === 'xano' || stored === 'supabase' ? stored : DEFAULT_BACKEND;
+  return { kind };
+};
+
+// Realtime Gateway (WebSocket, with SSE / long-poll fallbacks on the same host)
+export const DEFAULT_REALTIME_URL = "wss://x8ki-letl-twmt.n7.xano.io/realtime";
+
+// Helper to get realtime configuration (LocalStorage > Default).
+// Point `realtime_url` at a local stand-in server (`npm run realtime:standin`, ws://localhost:8787) for testing.
+export const getRealtimeConfig = () => {
+  const storedUrl = localStorage.getItem('realtime_url');
+  const url = storedUrl && /^(wss?|https?):\/\//.test(storedUrl) ? storedUrl : DEFAULT_REALTIME_URL;
+  return { url };
+};
+
+// Link preview (unfurl) service: GET `<url>?url=<link>` answers { title, description, image, site_name }.
+// Point `unfurl_url` at a local stand-in service (e.g. http://localhost:8788/unfurl) for testing.
+export const DEFAULT_UNFURL_URL = `${DATA_API_URL}/unfurl`;
+
+export const getUnfurlConfig = () => {
+  const storedUrl = localStorage.getItem('unfurl_url');
+  const url = storedUrl && /^https?:\/\//.test(storedUrl) ? storedUrl : DEFAULT_UNFURL_URL;
+  return { url };
+};
+
+// How long after sending our own messages can still be edited.
+// LocalStorage `edit_window_minutes` overrides the default for the UI only: the server enforces the
+// default itself (Xano PATCH `/message/{id}`, Supabase `edit_message` in база.txt).
+export const DEFAULT_EDIT_WINDOW_MINUTES = 48 * 60;
+
+export const getEditWindowMs = () => {
+  const stored = Number(localStorage.getItem('edit_window_minutes'));
+  const minutes = stored > 0 ? stored : DEFAULT_EDIT_WINDOW_MINUTES;
+  return minutes * 60 * 1000;
+};
+
+// Whether new direct chats need an accepted contact first (see Contacts in база.txt).
+// LocalStorage `contacts_only_chats` = 'false' turns the check off; the server should enforce the same rule.
+export const DEFAULT_CONTACTS_ONLY_CHATS = true;
+
+export const getContactsConfig = () => {
+  const stored = localStorage.getItem('contacts_only_chats');
+  const contactsOnlyChats = stored === 'true' || stored === 'false' ? stored === 'true' : DEFAULT_CONTACTS_ONLY_CHATS;
+  return { contactsOnlyChats };
+};
+
 // Supabase Storage Configuration
 // Updated with user credentials
 export const DEFAULT_SUPABASE_PROJECT_URL = "https://yypehvatwtmwtrzuqwpc.supabase.co";
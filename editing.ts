@@ -0,0 +1,32 @@
+import { Message, MessageRevision, MessageType } from './types';
+import { getEditWindowMs } from './constants';
+
+// Only our own, already sent text messages, until the edit window closes
+export const canEditMessage = (msg: Message, currentUserId?: string) =>
+  !!currentUserId &&
+  msg.senderId === currentUserId &&
+  msg.type === MessageType.TEXT &&
+  !msg.isDeleted &&
+  msg.status !== 'pending' && msg.status !== 'failed' &&
+  Date.now() - new Date(msg.createdAt).getTime() < getEditWindowMs();
+
+export interface MessageVersion {
+  content: string;
+  writtenAt: Date;
+  isCurrent: boolean;
+}
+
+// Every text the message has had, oldest first. A revision was written when the previous
+// one was replaced (or when the message was sent, for the original).
+export const getMessageVersions = (msg: Message, revisions: MessageRevision[]): MessageVersion[] => [
+  ...revisions.map((r, i) => ({
+    content: r.content,
+    writtenAt: i === 0 ? new Date(msg.createdAt) : new Date(revisions[i - 1].editedAt),
+    isCurrent: false
+  })),
+  {
+    content: msg.content || '',
+    writtenAt: new Date(revisions.length > 0 ? revisions[revisions.length - 1].editedAt : msg.editedAt || msg.createdAt),
+    isCurrent: true
+  }
+];
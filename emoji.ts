@@ -0,0 +1,101 @@
+import { EMOJI_SOURCE, EmojiCategoryId } from './emojiData';
+import { TextEdit } from './format';
+
+// Emoji lookup for the picker (components/EmojiPicker.tsx) and ":shortcode:" typing in the composer
+
+export interface Emoji {
+  char: string;
+  shortcode: string;
+  keywords: string[];
+  hasSkinTones: boolean;
+}
+
+export interface EmojiCategory {
+  id: EmojiCategoryId;
+  label: string;
+  emojis: Emoji[];
+}
+
+const MAX_SUGGESTIONS = 6;
+
+export const EMOJI_CATEGORIES: EmojiCategory[] = EMOJI_SOURCE.map(({ id, label, data }) => ({
+  id,
+  label,
+  emojis: data.trim().split('\n').map(line => {
+    const [char, code, ...keywords] = line.trim().split(/\s+/);
+    const hasSkinTones = code.endsWith('*');
+    return { char, shortcode: hasSkinTones ? code.slice(0, -1) : code, keywords, hasSkinTones };
+  })
+}));
+
+const ALL_EMOJI = EMOJI_CATEGORIES.flatMap(c => c.emojis);
+const BY_SHORTCODE = new Map(ALL_EMOJI.map(e => [e.shortcode, e]));
+
+// --- Skin tones ---
+
+// Index 0 is the default yellow; the rest are the Fitzpatrick modifiers, light to dark
+export const SKIN_TONES = ['', '\u{1F3FB}', '\u{1F3FC}', '\u{1F3FD}', '\u{1F3FE}', '\u{1F3FF}'];
+export const SKIN_TONE_LABELS = ['Default', 'Light', 'Medium-light', 'Medium', 'Medium-dark', 'Dark'];
+
+const SKIN_TONE_PATTERN = /[\u{1F3FB}-\u{1F3FF}]/gu;
+
+// Variation selectors (U+FE0F) are ignored, so a toned "✌🏽" still finds plain "✌"
+const toKey = (char: string) => char.replace(SKIN_TONE_PATTERN, '').replace(/\uFE0F/g, '');
+const BY_CHAR = new Map(ALL_EMOJI.map(e => [toKey(e.char), e]));
+
+// The modifier goes right after the first code point, replacing its variation selector.
+// Joined sequences ("🧑‍💻") keep the rest as is.
+export const applySkinTone = (emoji: Emoji, tone: number): string => {
+  const modifier = SKIN_TONES[tone];
+  if (!modifier || !emoji.hasSkinTones) return emoji.char;
+  const [first, ...rest] = Array.from(emoji.char);
+  return first + modifier + rest.join('').replace(/^\uFE0F/, '');
+};
+
+// Finds the emoji behind a (possibly toned) character, e.g. to keep recents tone-free
+export const findEmoji = (char: string): Emoji | undefined => BY_CHAR.get(toKey(char));
+
+// --- Search ---
+
+// Exact shortcode first, then shortcode prefix, keyword prefix and finally shortcode substring
+export const searchEmoji = (query: string, limit = Infinity): Emoji[] => {
+  const q = query.trim().toLowerCase().replace(/^:|:$/g, '').replace(/\s+/g, '_');
+  if (!q) return [];
+  const rank = (e: Emoji) =>
+    e.shortcode === q ? 0
+    : e.shortcode.startsWith(q) ? 1
+    : e.keywords.some(k => k.startsWith(q)) ? 2
+    : e.shortcode.includes(q) ? 3
+    : -1;
+  return ALL_EMOJI
+    .map(emoji => ({ emoji, score: rank(emoji) }))
+    .filter(r => r.score >= 0)
+    .sort((a, b) => a.score - b.score)
+    .slice(0, limit)
+    .map(r => r.emoji);
+};
+
+// --- Composer ---
+
+// A ":smi" right before the caret; two letters are needed so "10:30" or ":)" don't pop anything up
+export const getShortcodeQuery = (value: string, caret: number): { start: number; query: string } | null => {
+  const match = /(^|[\s(]):([a-z0-9_+-]{2,})$/i.exec(value.slice(0, caret));
+  if (!match) return null;
+  return { start: match.index + match[1].length, query: match[2] };
+};
+
+export const findShortcodeMatches = (query: string): Emoji[] => searchEmoji(query, MAX_SUGGESTIONS);
+
+// Puts text in place of the selection (or at the caret), caret after it
+export const insertText = (value: string, start: number, end: number, text: string): TextEdit => {
+  const position = start + text.length;
+  return { value: value.slice(0, start) + text + value.slice(end), selectionStart: position, selectionEnd: position };
+};
+
+// A complete ":shortcode:" typed out in full turns into its emoji
+export const expandShortcode = (value: string, caret: number, tone: number): { edit: TextEdit; emoji: Emoji } | null => {
+  const match = /(^|[\s(]):([a-z0-9_+-]+):$/i.exec(value.slice(0, caret));
+  const emoji = match && BY_SHORTCODE.get(match[2].toLowerCase());
+  if (!match || !emoji) return null;
+  return { edit: insertText(value, match.index + match[1].length, caret, applySkinTone(emoji, tone)), emoji };
+};
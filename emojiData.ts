@@ -0,0 +1,1001 @@
+// Bundled emoji set, so the picker works offline. One emoji per line: the emoji, its :shortcode:
+// and extra search words. A "*" after the shortcode marks emoji that take skin tones.
+
+export type EmojiCategoryId = 'people' | 'nature' | 'food' | 'activity' | 'travel' | 'objects' | 'symbols' | 'flags';
+
+export const EMOJI_SOURCE: { id: EmojiCategoryId; label: string; data: string }[] = [
+  {
+    id: 'people',
+    label: 'Smileys & People',
+    data: `
+😀 grinning smile happy
+😃 smiley happy joy
+😄 smile happy joy laugh
+😁 grin happy teeth
+😆 laughing satisfied lol
+😅 sweat_smile relief nervous
+🤣 rofl rolling laugh lol
+😂 joy tears laugh lol
+🙂 slightly_smiling_face smile
+🙃 upside_down_face silly sarcasm
+😉 wink flirt
+😊 blush smile happy
+😇 innocent angel halo
+🥰 smiling_face_with_three_hearts love crush
+😍 heart_eyes love crush
+🤩 star_struck wow amazing
+😘 kissing_heart kiss love
+😗 kissing kiss
+😚 kissing_closed_eyes kiss
+😙 kissing_smiling_eyes kiss
+😋 yum tasty delicious
+😛 stuck_out_tongue tongue playful
+😜 stuck_out_tongue_winking_eye crazy playful
+🤪 zany_face crazy goofy
+😝 stuck_out_tongue_closed_eyes playful
+🤑 money_mouth_face rich money
+🤗 hugs hug thanks
+🤭 hand_over_mouth oops giggle
+🤫 shushing_face quiet secret
+🤔 thinking hmm think
+🤐 zipper_mouth_face secret quiet
+🤨 raised_eyebrow suspicious doubt
+😐 neutral_face meh
+😑 expressionless blank
+😶 no_mouth silent
+😏 smirk smug
+😒 unamused meh annoyed
+🙄 roll_eyes eyeroll whatever
+😬 grimacing awkward
+🤥 lying_face liar pinocchio
+😌 relieved calm
+😔 pensive sad
+😪 sleepy tired
+🤤 drooling_face drool
+😴 sleeping sleep zzz
+😷 mask sick ill
+🤒 face_with_thermometer sick fever
+🤕 face_with_head_bandage hurt
+🤢 nauseated_face sick gross
+🤮 vomiting_face sick puke
+🤧 sneezing_face sick cold
+🥵 hot_face hot heat sweating
+🥶 cold_face cold freezing
+🥴 woozy_face dizzy drunk
+😵 dizzy_face dizzy
+🤯 exploding_head mind_blown shocked
+🤠 cowboy_hat_face cowboy
+🥳 partying_face party celebrate birthday
+😎 sunglasses cool
+🤓 nerd_face nerd geek
+🧐 monocle_face fancy inspect
+😕 confused puzzled
+😟 worried nervous
+🙁 slightly_frowning_face sad
+☹️ frowning_face sad
+😮 open_mouth surprised wow
+😯 hushed surprised
+😲 astonished shocked wow
+😳 flushed embarrassed
+🥺 pleading_face puppy please
+😦 frowning surprised
+😧 anguished pained
+😨 fearful scared
+😰 cold_sweat nervous anxious
+😥 disappointed_relieved phew
+😢 cry sad tear
+😭 sob crying sad
+😱 scream scared horror
+😖 confounded frustrated
+😣 persevere struggling
+😞 disappointed sad
+😓 sweat tired
+😩 weary tired
+😫 tired_face exhausted
+🥱 yawning_face bored tired
+😤 triumph huff proud
+😡 rage angry mad
+😠 angry mad
+🤬 cursing_face swearing angry
+😈 smiling_imp devil evil
+👿 imp devil angry
+💀 skull dead
+☠️ skull_and_crossbones danger dead
+💩 poop shit
+🤡 clown_face clown
+👹 japanese_ogre monster
+👺 japanese_goblin monster
+👻 ghost halloween boo
+👽 alien ufo
+👾 space_invader game alien
+🤖 robot bot
+😺 smiley_cat cat happy
+😸 smile_cat cat
+😹 joy_cat cat laugh
+😻 heart_eyes_cat cat love
+😼 smirk_cat cat
+😽 kissing_cat cat kiss
+🙀 scream_cat cat shocked
+😿 crying_cat_face cat sad
+😾 pouting_cat cat angry
+🙈 see_no_evil monkey shy
+🙉 hear_no_evil monkey
+🙊 speak_no_evil monkey oops
+👋 wave* hello hi bye
+🤚 raised_back_of_hand* hand
+🖐️ raised_hand_with_fingers_splayed* hand
+✋ hand* raised_hand stop high_five
+🖖 vulcan_salute* spock
+👌 ok_hand* ok perfect
+🤏 pinching_hand* small tiny
+✌️ v* victory peace
+🤞 crossed_fingers* luck hope
+🤟 love_you_gesture* love
+🤘 metal* rock horns
+🤙 call_me_hand* call shaka
+👈 point_left* left
+👉 point_right* right
+👆 point_up_2* up
+👇 point_down* down
+☝️ point_up* up
+👍 +1* thumbsup like yes approve
+👎 -1* thumbsdown dislike no
+✊ fist_raised* fist power
+👊 fist_oncoming* punch bump
+🤛 fist_left* bump
+🤜 fist_right* bump
+👏 clap* applause bravo
+🙌 raised_hands* hooray celebrate
+👐 open_hands* hug
+🤲 palms_up_together* prayer
+🤝 handshake deal agreement
+🙏 pray* please thanks hope
+✍️ writing_hand* write
+💅 nail_care* nails beauty
+🤳 selfie* camera
+💪 muscle* strong flex
+🦾 mechanical_arm strong prosthetic
+👀 eyes look see
+👁️ eye look
+👅 tongue taste
+👄 lips mouth kiss
+🧠 brain smart mind
+👶 baby* child
+🧒 child* kid
+👦 boy* kid
+👧 girl* kid
+🧑 adult* person
+👨 man* male
+👩 woman* female
+🧓 older_adult* old
+👴 older_man* grandpa
+👵 older_woman* grandma
+🙍 frowning_person* sad
+🙎 pouting_face* annoyed
+🙅 no_good* no stop
+🙆 ok_person* yes
+💁 tipping_hand_person* sassy info
+🙋 raising_hand* question hi
+🙇 bow* sorry thanks
+🤦 facepalm* ugh disbelief
+🤷 shrug* whatever dunno
+👮 police_officer* cop
+🕵️ detective* spy
+👷 construction_worker* builder
+🧑‍💻 technologist* developer coder laptop
+🧑‍🍳 cook* chef
+🧑‍🎓 student* graduate
+🧑‍🏫 teacher* professor
+🧑‍⚕️ health_worker* doctor nurse
+🧑‍🚀 astronaut* space
+🦸 superhero* hero
+🧙 mage* wizard magic
+🧛 vampire* dracula
+🧟 zombie undead
+🧜 merperson* mermaid
+🧚 fairy* magic
+💃 dancer* dance woman
+🕺 man_dancing* dance disco
+🚶 walking* walk
+🏃 runner* run running
+🧘 lotus_position* yoga meditate
+🛀 bath* relax
+🛌 sleeping_bed* sleep bed
+👫 couple dating
+💑 couple_with_heart love
+👪 family home
+🗣️ speaking_head talk speak
+👤 bust_in_silhouette user person
+👥 busts_in_silhouette users people group
+👣 footprints steps
+`
+  },
+  {
+    id: 'nature',
+    label: 'Animals & Nature',
+    data: `
+🐶 dog puppy pet
+🐱 cat kitten pet
+🐭 mouse
+🐹 hamster pet
+🐰 rabbit bunny
+🦊 fox_face fox
+🐻 bear
+🐼 panda_face panda
+🐨 koala
+🐯 tiger
+🦁 lion
+🐮 cow
+🐷 pig
+🐸 frog
+🐵 monkey_face monkey
+🐔 chicken
+🐧 penguin
+🐦 bird
+🐤 baby_chick chick
+🦆 duck
+🦅 eagle
+🦉 owl
+🦇 bat
+🐺 wolf
+🐗 boar
+🐴 horse
+🦄 unicorn magic
+🐝 bee honeybee
+🐛 bug caterpillar
+🦋 butterfly
+🐌 snail slow
+🐞 lady_beetle ladybug
+🐜 ant
+🕷️ spider
+🦂 scorpion
+🐢 turtle slow
+🐍 snake
+🦎 lizard
+🦖 t-rex dinosaur
+🦕 sauropod dinosaur
+🐙 octopus
+🦑 squid
+🦐 shrimp
+🦀 crab
+🐡 blowfish
+🐠 tropical_fish fish
+🐟 fish
+🐬 dolphin
+🐳 whale
+🦈 shark
+🐊 crocodile
+🐅 tiger2 tiger
+🐆 leopard
+🦓 zebra
+🦍 gorilla
+🐘 elephant
+🦛 hippopotamus hippo
+🦏 rhinoceros rhino
+🐪 camel
+🦒 giraffe
+🦘 kangaroo
+🐃 water_buffalo
+🐄 cow2 cow
+🐎 racehorse horse
+🐖 pig2 pig
+🐑 sheep
+🐐 goat
+🦌 deer
+🐕 dog2 dog
+🐈 cat2 cat
+🐓 rooster
+🦃 turkey
+🦚 peacock
+🦜 parrot
+🦢 swan
+🐇 rabbit2 rabbit
+🦝 raccoon
+🦔 hedgehog
+🐾 feet paw_prints paws
+🐉 dragon
+🌵 cactus desert
+🎄 christmas_tree xmas
+🌲 evergreen_tree tree
+🌳 deciduous_tree tree
+🌴 palm_tree tropical beach
+🌱 seedling plant grow
+🌿 herb plant
+☘️ shamrock clover
+🍀 four_leaf_clover luck
+🍁 maple_leaf canada autumn
+🍂 fallen_leaf autumn
+🍃 leaves wind
+🍄 mushroom
+🌾 ear_of_rice
+💐 bouquet flowers
+🌷 tulip flower
+🌹 rose flower love
+🥀 wilted_flower sad
+🌺 hibiscus flower
+🌸 cherry_blossom flower spring
+🌼 blossom flower
+🌻 sunflower flower
+🌞 sun_with_face sunny
+🌝 full_moon_with_face moon
+🌚 new_moon_with_face moon
+🌙 crescent_moon moon night
+🌎 earth_americas globe world
+🌍 earth_africa globe world
+🌏 earth_asia globe world
+🪐 ringed_planet saturn space
+💫 dizzy star
+⭐ star
+🌟 star2 glowing star
+✨ sparkles shiny magic
+⚡ zap lightning thunder
+☄️ comet space
+💥 boom collision explode
+🔥 fire hot lit flame
+🌪️ tornado
+🌈 rainbow pride
+☀️ sunny sun weather
+🌤️ sun_behind_small_cloud weather
+⛅ partly_sunny weather
+☁️ cloud weather
+🌧️ cloud_with_rain rain weather
+⛈️ cloud_with_lightning_and_rain storm
+🌩️ cloud_with_lightning storm
+❄️ snowflake snow cold winter
+☃️ snowman_with_snow winter
+⛄ snowman winter
+🌬️ wind_face wind
+💨 dash wind fast
+💧 droplet water
+💦 sweat_drops water
+☔ umbrella rain
+🌊 ocean wave sea
+🌫️ fog weather
+`
+  },
+  {
+    id: 'food',
+    label: 'Food & Drink',
+    data: `
+🍏 green_apple fruit
+🍎 apple fruit
+🍐 pear fruit
+🍊 tangerine orange fruit
+🍋 lemon fruit
+🍌 banana fruit
+🍉 watermelon fruit
+🍇 grapes fruit
+🍓 strawberry fruit
+🍈 melon fruit
+🍒 cherries fruit
+🍑 peach fruit
+🥭 mango fruit
+🍍 pineapple fruit
+🥥 coconut
+🥝 kiwi_fruit fruit
+🍅 tomato
+🍆 eggplant aubergine
+🥑 avocado
+🥦 broccoli vegetable
+🥬 leafy_green salad
+🥒 cucumber vegetable
+🌶️ hot_pepper spicy chili
+🌽 corn
+🥕 carrot vegetable
+🧄 garlic
+🧅 onion
+🥔 potato
+🍠 sweet_potato
+🥐 croissant bread
+🥯 bagel bread
+🍞 bread
+🥖 baguette_bread bread
+🥨 pretzel
+🧀 cheese
+🥚 egg
+🍳 fried_egg breakfast cooking
+🥞 pancakes breakfast
+🧇 waffle breakfast
+🥓 bacon breakfast
+🥩 cut_of_meat steak
+🍗 poultry_leg chicken
+🍖 meat_on_bone meat
+🌭 hotdog
+🍔 hamburger burger
+🍟 fries chips
+🍕 pizza
+🥪 sandwich
+🌮 taco mexican
+🌯 burrito mexican
+🥙 stuffed_flatbread kebab
+🥗 green_salad salad healthy
+🍝 spaghetti pasta
+🍜 ramen noodles soup
+🍲 stew soup
+🍛 curry rice
+🍣 sushi japanese
+🍱 bento japanese
+🥟 dumpling
+🍤 fried_shrimp tempura
+🍙 rice_ball japanese
+🍚 rice
+🍿 popcorn movie
+🧂 salt
+🍦 icecream dessert
+🍧 shaved_ice dessert
+🍨 ice_cream dessert
+🍩 doughnut donut dessert
+🍪 cookie dessert
+🎂 birthday cake party
+🍰 cake dessert
+🧁 cupcake dessert
+🥧 pie dessert
+🍫 chocolate_bar chocolate
+🍬 candy sweet
+🍭 lollipop sweet
+🍯 honey_pot honey
+🍼 baby_bottle milk
+🥛 milk_glass milk
+☕ coffee tea hot drink
+🍵 tea green_tea
+🧃 beverage_box juice
+🥤 cup_with_straw soda drink
+🧋 bubble_tea boba
+🍶 sake japanese
+🍺 beer drink
+🍻 beers cheers drink
+🥂 clinking_glasses champagne cheers toast
+🍷 wine_glass wine drink
+🥃 tumbler_glass whisky drink
+🍸 cocktail martini drink
+🍹 tropical_drink cocktail
+🧉 mate drink
+🧊 ice_cube ice
+🥢 chopsticks
+🍽️ plate_with_cutlery dinner
+🍴 fork_and_knife food eat
+🥄 spoon
+`
+  },
+  {
+    id: 'activity',
+    label: 'Activities',
+    data: `
+⚽ soccer football sport
+🏀 basketball sport
+🏈 football american sport
+⚾ baseball sport
+🥎 softball sport
+🎾 tennis sport
+🏐 volleyball sport
+🏉 rugby_football sport
+🥏 flying_disc frisbee
+🎱 8ball billiards pool
+🏓 ping_pong table_tennis
+🏸 badminton sport
+🏒 ice_hockey hockey
+🥍 lacrosse sport
+🏏 cricket_game cricket
+🥅 goal_net goal
+⛳ golf sport
+🏹 bow_and_arrow archery
+🎣 fishing_pole_and_fish fishing
+🥊 boxing_glove boxing
+🥋 martial_arts_uniform karate judo
+⛸️ ice_skate skating
+🎿 ski skiing
+🛷 sled winter
+🏂 snowboarder* snowboard
+🏋️ weight_lifting* gym workout
+🤸 cartwheeling* gymnastics
+⛹️ bouncing_ball_person* basketball
+🤺 person_fencing fencing
+🏌️ golfing* golf
+🏄 surfer* surf
+🏊 swimmer* swim
+🚴 bicyclist* cycling bike
+🧗 climbing* climb
+🏆 trophy win winner champion
+🥇 1st_place_medal gold first
+🥈 2nd_place_medal silver second
+🥉 3rd_place_medal bronze third
+🏅 medal_sports medal
+🎖️ medal_military medal
+🎗️ reminder_ribbon ribbon
+🎫 ticket
+🎟️ tickets admission
+🎪 circus_tent circus
+🎭 performing_arts theater drama
+🎨 art palette painting
+🎬 clapper movie film
+🎤 microphone sing karaoke
+🎧 headphones music
+🎼 musical_score music
+🎹 musical_keyboard piano
+🥁 drum music
+🎷 saxophone music jazz
+🎺 trumpet music
+🎸 guitar music rock
+🎻 violin music
+🎲 game_die dice
+♟️ chess_pawn chess
+🎯 dart target bullseye
+🎳 bowling
+🎮 video_game game controller gaming
+🕹️ joystick game
+🧩 jigsaw puzzle
+🧸 teddy_bear toy
+🎉 tada party celebrate congrats hooray
+🎊 confetti_ball party celebrate
+🎈 balloon party birthday
+🎁 gift present birthday
+🎀 ribbon gift
+🎃 jack_o_lantern halloween pumpkin
+🎆 fireworks celebrate new_year
+🎇 sparkler fireworks
+🧨 firecracker
+`
+  },
+  {
+    id: 'travel',
+    label: 'Travel & Places',
+    data: `
+🚗 car red_car automobile
+🚕 taxi cab
+🚙 blue_car suv
+🚌 bus
+🚎 trolleybus
+🏎️ racing_car race fast
+🚓 police_car police
+🚑 ambulance
+🚒 fire_engine
+🚐 minibus van
+🚚 truck delivery
+🚛 articulated_lorry truck
+🚜 tractor farm
+🛴 kick_scooter scooter
+🚲 bike bicycle
+🛵 motor_scooter vespa
+🏍️ motorcycle bike
+🚨 rotating_light alarm siren
+🚔 oncoming_police_car police
+🚍 oncoming_bus bus
+🚘 oncoming_automobile car
+🚖 oncoming_taxi taxi
+🚡 aerial_tramway cable
+🚠 mountain_cableway cable
+🚟 suspension_railway train
+🚃 railway_car train
+🚋 train tram
+🚝 monorail train
+🚄 bullettrain_side train fast
+🚅 bullettrain_front train fast
+🚈 light_rail train
+🚂 steam_locomotive train
+🚆 train2 train
+🚇 metro subway underground
+🚉 station train
+✈️ airplane plane flight travel
+🛫 flight_departure plane takeoff
+🛬 flight_arrival plane landing
+🚁 helicopter
+🚀 rocket launch space ship
+🛸 flying_saucer ufo
+⛵ boat sailboat
+🚤 speedboat boat
+🛳️ passenger_ship cruise
+⛴️ ferry boat
+🚢 ship boat
+⚓ anchor ship
+⛽ fuelpump gas petrol
+🚧 construction roadwork
+🚦 vertical_traffic_light traffic
+🗺️ world_map map
+🗿 moyai moai statue
+🗽 statue_of_liberty new_york usa
+🗼 tokyo_tower tokyo
+🏰 european_castle castle
+🏯 japanese_castle castle
+🏟️ stadium sport
+🎡 ferris_wheel fair
+🎢 roller_coaster fun
+🎠 carousel_horse fair
+⛲ fountain
+🏖️ beach_umbrella beach vacation
+🏝️ desert_island island vacation
+🏜️ desert sand
+🌋 volcano
+⛰️ mountain
+🏔️ mountain_snow mountain
+🗻 mount_fuji japan
+🏕️ camping tent
+⛺ tent camping
+🏠 house home
+🏡 house_with_garden home
+🏘️ houses neighborhood
+🏢 office building work
+🏬 department_store shop
+🏣 post_office mail
+🏥 hospital doctor
+🏦 bank money
+🏨 hotel travel
+🏪 convenience_store shop
+🏫 school education
+⛪ church religion
+🕌 mosque religion
+🕍 synagogue religion
+🌁 foggy city
+🌃 night_with_stars city night
+🏙️ cityscape city
+🌄 sunrise_over_mountains sunrise
+🌅 sunrise morning
+🌆 city_sunset evening
+🌇 city_sunrise dusk
+🌉 bridge_at_night bridge
+🌌 milky_way space galaxy
+🧳 luggage travel suitcase
+🌐 globe_with_meridians internet web
+🧭 compass navigation
+⏰ alarm_clock time wake
+⏳ hourglass_flowing_sand time wait
+⌛ hourglass time
+🕐 clock1 time
+`
+  },
+  {
+    id: 'objects',
+    label: 'Objects',
+    data: `
+⌚ watch time
+📱 iphone phone mobile smartphone
+💻 computer laptop
+⌨️ keyboard typing
+🖥️ desktop_computer computer
+🖨️ printer print
+🖱️ computer_mouse mouse
+💽 minidisc disk
+💾 floppy_disk save
+💿 cd disk
+📀 dvd disk
+📷 camera photo
+📸 camera_flash photo
+📹 video_camera video
+🎥 movie_camera film
+📞 telephone_receiver phone call
+☎️ phone telephone
+📺 tv television
+📻 radio
+🎙️ studio_microphone podcast
+⏱️ stopwatch timer
+⏲️ timer_clock timer
+🔋 battery power
+🔌 electric_plug power
+💡 bulb idea light
+🔦 flashlight torch
+🕯️ candle light
+🧯 fire_extinguisher
+💸 money_with_wings spend money
+💵 dollar money cash
+💶 euro money
+💷 pound money
+💰 moneybag money rich
+💳 credit_card card payment
+💎 gem diamond jewel
+⚖️ balance_scale justice law
+🧰 toolbox tools
+🔧 wrench tool fix
+🔨 hammer tool
+🛠️ hammer_and_wrench tools build
+⛏️ pick mining
+🔩 nut_and_bolt
+⚙️ gear settings
+🧱 bricks wall
+⛓️ chains
+🧲 magnet
+🔫 gun water_pistol
+💣 bomb boom
+🔪 hocho knife
+🗡️ dagger knife
+⚔️ crossed_swords fight
+🛡️ shield defense
+🚬 smoking cigarette
+⚰️ coffin dead
+🔮 crystal_ball fortune magic
+📿 prayer_beads
+💈 barber
+⚗️ alembic chemistry
+🔭 telescope space
+🔬 microscope science
+🩹 adhesive_bandage bandage hurt
+💊 pill medicine
+💉 syringe vaccine injection
+🧬 dna genetics
+🦠 microbe virus germ
+🌡️ thermometer temperature
+🧹 broom clean
+🧺 basket laundry
+🧻 roll_of_paper toilet_paper
+🚽 toilet bathroom
+🚿 shower bathroom
+🛁 bathtub bath
+🧼 soap clean
+🔑 key lock password
+🗝️ old_key key
+🚪 door
+🛋️ couch_and_lamp sofa
+🛏️ bed sleep
+🖼️ framed_picture art
+🛍️ shopping bags
+🛒 shopping_cart cart buy
+✉️ envelope email letter mail
+📩 envelope_with_arrow email
+📨 incoming_envelope email
+📧 e-mail email
+💌 love_letter love
+📥 inbox_tray inbox
+📤 outbox_tray outbox
+📦 package box parcel delivery
+🏷️ label tag
+📪 mailbox_closed mail
+📬 mailbox_with_mail mail
+📜 scroll document
+📃 page_with_curl document
+📄 page_facing_up document
+📑 bookmark_tabs
+📊 bar_chart stats graph
+📈 chart_with_upwards_trend growth up stats
+📉 chart_with_downwards_trend down stats
+🗒️ spiral_notepad note
+🗓️ spiral_calendar calendar date
+📆 calendar date schedule
+📅 date calendar
+🗑️ wastebasket trash delete
+📇 card_index contacts
+🗃️ card_file_box archive
+📋 clipboard copy
+📁 file_folder folder
+📂 open_file_folder folder
+🗂️ card_index_dividers folders
+📰 newspaper news
+📓 notebook notes
+📔 notebook_with_decorative_cover
+📒 ledger
+📕 closed_book book
+📗 green_book book
+📘 blue_book book
+📙 orange_book book
+📚 books library study
+📖 book open_book read
+🔖 bookmark
+🔗 link chain url
+📎 paperclip attachment
+🖇️ paperclips
+📐 triangular_ruler
+📏 straight_ruler ruler
+📌 pushpin pin
+📍 round_pushpin pin location
+✂️ scissors cut
+🖊️ pen
+🖋️ fountain_pen pen
+✒️ black_nib pen
+🖌️ paintbrush art
+🖍️ crayon draw
+📝 memo pencil note write
+✏️ pencil2 pencil write
+🔍 mag search zoom
+🔎 mag_right search zoom
+🔏 lock_with_ink_pen
+🔐 closed_lock_with_key secure
+🔒 lock locked secure
+🔓 unlock unlocked
+🔔 bell notification
+🔕 no_bell mute silent
+📣 mega announcement
+📢 loudspeaker announcement
+`
+  },
+  {
+    id: 'symbols',
+    label: 'Symbols',
+    data: `
+❤️ heart love red_heart
+🧡 orange_heart love
+💛 yellow_heart love
+💚 green_heart love
+💙 blue_heart love
+💜 purple_heart love
+🖤 black_heart love
+🤍 white_heart love
+🤎 brown_heart love
+💔 broken_heart sad heartbreak
+❣️ heavy_heart_exclamation love
+💕 two_hearts love
+💞 revolving_hearts love
+💓 heartbeat love
+💗 heartpulse love
+💖 sparkling_heart love
+💘 cupid love arrow
+💝 gift_heart love
+💟 heart_decoration love
+☮️ peace_symbol peace
+✝️ latin_cross religion
+☪️ star_and_crescent religion
+🕉️ om religion
+☸️ wheel_of_dharma religion
+✡️ star_of_david religion
+☯️ yin_yang balance
+♈ aries zodiac
+♉ taurus zodiac
+♊ gemini zodiac
+♋ cancer zodiac
+♌ leo zodiac
+♍ virgo zodiac
+♎ libra zodiac
+♏ scorpius zodiac
+♐ sagittarius zodiac
+♑ capricorn zodiac
+♒ aquarius zodiac
+♓ pisces zodiac
+🆔 id identity
+⚛️ atom_symbol science
+☢️ radioactive danger
+☣️ biohazard danger
+📴 mobile_phone_off
+📳 vibration_mode
+🆚 vs versus
+💯 100 hundred perfect score
+💢 anger angry
+♨️ hotsprings hot
+🚷 no_pedestrians
+🚯 do_not_litter
+🚳 no_bicycles
+🚱 non-potable_water
+🔞 underage 18
+📵 no_mobile_phones
+🚭 no_smoking
+❗ exclamation bang important
+❕ grey_exclamation
+❓ question help
+❔ grey_question
+‼️ bangbang exclamation
+⁉️ interrobang
+🔅 low_brightness
+🔆 high_brightness
+⚠️ warning caution alert
+🚸 children_crossing
+🔱 trident
+⚜️ fleur_de_lis
+🔰 beginner
+♻️ recycle environment
+✅ white_check_mark check done yes
+☑️ ballot_box_with_check check
+✔️ heavy_check_mark check done
+❌ x cross no wrong cancel
+❎ negative_squared_cross_mark
+➕ heavy_plus_sign plus add
+➖ heavy_minus_sign minus
+➗ heavy_division_sign divide
+✖️ heavy_multiplication_x multiply
+♾️ infinity forever
+💲 heavy_dollar_sign dollar money
+💱 currency_exchange money
+©️ copyright
+®️ registered
+™️ tm trademark
+🔚 end
+🔙 back
+🔛 on
+🔝 top
+🔜 soon
+🔃 arrows_clockwise refresh
+🔄 arrows_counterclockwise sync
+➡️ arrow_right right
+⬅️ arrow_left left
+⬆️ arrow_up up
+⬇️ arrow_down down
+↗️ arrow_upper_right
+↘️ arrow_lower_right
+↙️ arrow_lower_left
+↖️ arrow_upper_left
+↕️ arrow_up_down
+↔️ left_right_arrow
+🔀 twisted_rightwards_arrows shuffle
+🔁 repeat loop
+🔂 repeat_one
+▶️ arrow_forward play
+⏸️ pause_button pause
+⏹️ stop_button stop
+⏺️ record_button record
+⏩ fast_forward
+⏪ rewind
+🎵 musical_note music
+🎶 notes music
+💤 zzz sleep
+💬 speech_balloon chat message comment
+💭 thought_balloon thinking
+🗯️ right_anger_bubble angry
+🔴 red_circle
+🟠 orange_circle
+🟡 yellow_circle
+🟢 green_circle
+🔵 large_blue_circle blue_circle
+🟣 purple_circle
+⚫ black_circle
+⚪ white_circle
+🟥 red_square
+🟩 green_square
+🟦 blue_square
+⬛ black_large_square
+⬜ white_large_square
+🔶 large_orange_diamond
+🔷 large_blue_diamond
+🔺 small_red_triangle
+🔻 small_red_triangle_down
+🔘 radio_button
+🏁 checkered_flag finish race
+🚩 triangular_flag_on_post flag
+🏳️ white_flag surrender
+🏴 black_flag
+🏳️‍🌈 rainbow_flag pride lgbt
+`
+  },
+  {
+    id: 'flags',
+    label: 'Flags',
+    data: `
+🇺🇳 united_nations un
+🇪🇺 eu european_union
+🇦🇷 ar argentina
+🇦🇹 at austria
+🇦🇺 au australia
+🇧🇪 be belgium
+🇧🇷 br brazil
+🇧🇾 by belarus
+🇨🇦 ca canada
+🇨🇭 ch switzerland
+🇨🇱 cl chile
+🇨🇳 cn china
+🇨🇴 co colombia
+🇨🇿 cz czechia czech_republic
+🇩🇪 de germany
+🇩🇰 dk denmark
+🇪🇪 ee estonia
+🇪🇬 eg egypt
+🇪🇸 es spain
+🇫🇮 fi finland
+🇫🇷 fr france
+🇬🇧 gb uk united_kingdom britain
+🇬🇪 ge georgia
+🇬🇷 gr greece
+🇭🇷 hr croatia
+🇭🇺 hu hungary
+🇮🇩 id_flag indonesia
+🇮🇪 ie ireland
+🇮🇱 il israel
+🇮🇳 in india
+🇮🇹 it italy
+🇯🇵 jp japan
+🇰🇷 kr korea south_korea
+🇰🇿 kz kazakhstan
+🇱🇹 lt lithuania
+🇱🇻 lv latvia
+🇲🇽 mx mexico
+🇳🇱 nl netherlands holland
+🇳🇴 no norway
+🇳🇿 nz new_zealand
+🇵🇱 pl poland
+🇵🇹 pt portugal
+🇷🇴 ro romania
+🇷🇸 rs serbia
+🇷🇺 ru russia
+🇸🇦 sa saudi_arabia
+🇸🇪 se sweden
+🇹🇭 th thailand
+🇹🇷 tr turkey
+🇺🇦 ua ukraine
+🇺🇸 us usa united_states america
+🇻🇳 vn vietnam
+🇿🇦 za south_africa
+`
+  }
+];
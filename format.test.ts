@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_FORMATTED_LENGTH, parseFormatting, stripFormatting } from './format';
+
+describe('parseFormatting', () => {
+  it('parses nested styles, code and links', () => {
+    expect(parseFormatting('**bold _it_** `a*b*` see www.x.io.')).toEqual([
+      { type: 'bold', children: [{ type: 'text', text: 'bold ' }, { type: 'italic', children: [{ type: 'text', text: 'it' }] }] },
+      { type: 'text', text: ' ' },
+      { type: 'code', text: 'a*b*' },
+      { type: 'text', text: ' see ' },
+      { type: 'link', href: 'https://www.x.io/', text: 'www.x.io' },
+      { type: 'text', text: '.' }
+    ]);
+  });
+
+  it('leaves snake_case names and unsafe links alone', () => {
+    expect(parseFormatting('call my_var_name at javascript:alert(1)')).toEqual([
+      { type: 'text', text: 'call my_var_name at javascript:alert(1)' }
+    ]);
+  });
+
+  it('closes at the first marker that can close', () => {
+    expect(parseFormatting('**a **b** c**')).toEqual([
+      { type: 'bold', children: [{ type: 'text', text: 'a **b' }] },
+      { type: 'text', text: ' c**' }
+    ]);
+  });
+
+  it('only links mentions the message lists', () => {
+    expect(parseFormatting('hi @ann and @bob', [{ userId: 'u1', text: '@ann' }])).toEqual([
+      { type: 'text', text: 'hi ' },
+      { type: 'mention', userId: 'u1', text: '@ann' },
+      { type: 'text', text: ' and @bob' }
+    ]);
+  });
+
+  // Used to take cubic time: 8,000 characters of this froze the tab for seconds
+  it('parses long runs of unclosed markers in linear time', () => {
+    for (const unit of ['**a ', '~~a ', '*a ', '_a ', '||a', '`a ', 'a.a', 'x@']) {
+      const text = unit.repeat(Math.floor(MAX_FORMATTED_LENGTH / unit.length));
+      const started = performance.now();
+      const plain = stripFormatting(text);
+      expect(performance.now() - started).toBeLessThan(500);
+      expect(plain.length).toBeGreaterThan(0);
+    }
+  });
+
+  it('shows messages over the limit as plain text', () => {
+    const text = `**${'a'.repeat(MAX_FORMATTED_LENGTH)}**`;
+    expect(parseFormatting(text)).toEqual([{ type: 'text', text }]);
+  });
+});
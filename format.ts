@@ -0,0 +1,297 @@
+// Lightweight message formatting. Text is parsed into nodes and rendered as React elements
+// (see components/FormattedText.tsx), never as HTML, so message content can't inject markup.
+//
+//   **bold**  *italic* / _italic_  ~~strike~~  ||spoiler||  `code`  ```code block```
+//   URLs (http, https, www.) and email addresses are linked automatically.
+//   Mentions are only recognised where the message says they are (see mentions.ts).
+
+export type FormatNode =
+  | { type: 'text'; text: string }
+  | { type: 'bold' | 'italic' | 'strike' | 'spoiler'; children: FormatNode[] }
+  | { type: 'code'; text: string }
+  | { type: 'codeBlock'; text: string; language?: string }
+  | { type: 'link'; href: string; text: string }
+  | { type: 'mention'; userId: string; text: string };
+
+export interface MentionSpan {
+  userId: string;
+  text: string; // "@name" exactly as it appears in the message
+}
+
+// A rule is set up once per text and then asked, position by position, whether it matches right
+// there. match[0] is the whole match, match[1] the part to render or parse further. `fresh` is set at
+// the start and right after an earlier match: what came before doesn't count, as if the text began
+// there (no word boundary or look-behind sees it).
+type InlineMatcher = (at: number, fresh: boolean) => string[] | null;
+
+type InlineRule = {
+  scan: (text: string) => InlineMatcher;
+  toNode: (match: string[], parse: (text: string) => FormatNode[]) => FormatNode | null;
+};
+
+// Longer messages are shown as plain text; nobody formats a novel, and it bounds the work per bubble
+export const MAX_FORMATTED_LENGTH = 10000;
+
+const CODE_BLOCK = /```([\w+#-]*)[^\S\n]*\n?([\s\S]*?)\n?```/g;
+
+// Trailing punctuation is left out of auto-links ("see https://x.com." links without the dot)
+const URL_SOURCE = `(?:https?:\\/\\/|www\\.)[^\\s<>"]*[^\\s<>".,:;'!?)\\]]`;
+const EMAIL_SOURCE = '[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\\.[A-Za-z]{2,}\\b';
+const EMAIL_LOCAL_CHAR = /[A-Za-z0-9._%+-]/;
+
+// Only web and mail links; anything else (javascript:, data:, ...) stays plain text
+export const toSafeHref = (raw: string): string | null => {
+  const candidate = /^www\./i.test(raw) ? `https://${raw}` : raw;
+  try {
+    const url = new URL(candidate);
+    return url.protocol === 'http:' || url.protocol === 'https:' || url.protocol === 'mailto:' ? url.href : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+const isSpace = (ch?: string) => ch === undefined || /\s/.test(ch);
+const isWord = (ch?: string) => ch !== undefined && /\w/.test(ch);
+
+// A sticky pattern, tried only at the position it is asked about. `lead` is a boundary or
+// look-behind in front of it, left out for a fresh start.
+const anchored = (source: string, flags = '', lead = '') => {
+  const plain = new RegExp(lead + source, `${flags}y`);
+  const fresh = new RegExp(source, `${flags}y`);
+  return (text: string): InlineMatcher => (at, isFresh) => {
+    const pattern = isFresh ? fresh : plain;
+    pattern.lastIndex = at;
+    const match = pattern.exec(text);
+    return match ? Array.from(match, group => group ?? '') : null;
+  };
+};
+
+// For each position, where the next `marker` at or after it starts (-1 if none), optionally only
+// counting markers right after a non-space. Built once per text, so finding a closing marker never
+// rescans the rest of the message; this is what keeps parsing linear.
+const nextMarkers = (text: string, marker: string, afterNonSpace = false): Int32Array => {
+  const next = new Int32Array(text.length + 2).fill(-1);
+  for (let i = text.length - 1; i >= 0; i--) {
+    const isMarker = text.startsWith(marker, i) && (!afterNonSpace || (i > 0 && !isSpace(text[i - 1])));
+    next[i] = isMarker ? i : next[i + 1];
+  }
+  return next;
+};
+
+// **bold** and ~~strike~~: the text inside starts and ends with a non-space. The first marker that
+// can close it does, one right after a single character ("**a**") only if there is no other.
+const tightPair = (marker: string) => (text: string): InlineMatcher => {
+  const closers = nextMarkers(text, marker, true);
+  return at => {
+    const from = at + marker.length;
+    if (!text.startsWith(marker, at) || isSpace(text[from])) return null;
+    const close = closers[from + 2] >= 0 ? closers[from + 2] : text.startsWith(marker, from + 1) ? from + 1 : -1;
+    return close < 0 ? null : [text.slice(at, close + marker.length), text.slice(from, close)];
+  };
+};
+
+// ||spoiler||: anything up to the next marker
+const loosePair = (marker: string) => (text: string): InlineMatcher => {
+  const closers = nextMarkers(text, marker);
+  return at => {
+    const from = at + marker.length;
+    if (!text.startsWith(marker, at)) return null;
+    const close = closers[from + 1];
+    return close < 0 ? null : [text.slice(at, close + marker.length), text.slice(from, close)];
+  };
+};
+
+// *italic* and _italic_: single-character markers that can't appear inside, except as the first or
+// last character ("*a **" is an italic "a *"). Word boundaries keep snake_case_names intact.
+const singlePair = (marker: string, atWordBoundary: boolean) => (text: string): InlineMatcher => {
+  const markers = nextMarkers(text, marker);
+  const endsWord = (end: number) => !atWordBoundary || !isWord(text[end]);
+  return (at, fresh) => {
+    if (text[at] !== marker || isSpace(text[at + 1])) return null;
+    if (atWordBoundary && !fresh && isWord(text[at - 1])) return null;
+    // Closing at the first marker after the opening one, or at the one right behind it; only then
+    // the one-character form ("*a*")
+    const next = markers[at + 2];
+    const candidates = [
+      ...(next >= 0 && next - 1 > at + 1 && !isSpace(text[next - 1]) ? [next] : []),
+      ...(next >= 0 && text[next + 1] === marker ? [next + 1] : []),
+      ...(text[at + 2] === marker ? [at + 2] : [])
+    ];
+    const close = candidates.find(c => endsWord(c + 1));
+    return close === undefined ? null : [text.slice(at, close + 1), text.slice(at + 1, close)];
+  };
+};
+
+// Only tried where a run of address characters first touches a word boundary, and only if the run
+// ends in "@"; any later start in the same run would fail the same way.
+const email = (text: string): InlineMatcher => {
+  const match = anchored(EMAIL_SOURCE)(text);
+  let start = -1;
+  return (at, fresh) => {
+    if (!EMAIL_LOCAL_CHAR.test(text[at])) return null;
+    if (fresh || !EMAIL_LOCAL_CHAR.test(text[at - 1])) {
+      let end = at;
+      while (end < text.length && EMAIL_LOCAL_CHAR.test(text[end])) end++;
+      start = -1;
+      for (let q = at; text[end] === '@' && q < end; q++) {
+        if (isWord(q === at && fresh ? undefined : text[q - 1]) !== isWord(text[q])) { start = q; break; }
+      }
+    }
+    return at === start ? match(at, true) : null;
+  };
+};
+
+// Earlier rules win when two matches start at the same position (so ** beats *)
+const INLINE_RULES: InlineRule[] = [
+  { scan: anchored('`([^`\\n]+)`'), toNode: m => ({ type: 'code', text: m[1] }) },
+  { scan: anchored(URL_SOURCE, 'i', '\\b'), toNode: m => { const href = toSafeHref(m[0]); return href ? { type: 'link', href, text: m[0] } : null; } },
+  { scan: email, toNode: m => ({ type: 'link', href: `mailto:${m[0]}`, text: m[0] }) },
+  { scan: tightPair('**'), toNode: (m, parse) => ({ type: 'bold', children: parse(m[1]) }) },
+  { scan: tightPair('~~'), toNode: (m, parse) => ({ type: 'strike', children: parse(m[1]) }) },
+  { scan: loosePair('||'), toNode: (m, parse) => ({ type: 'spoiler', children: parse(m[1]) }) },
+  { scan: singlePair('*', false), toNode: (m, parse) => ({ type: 'italic', children: parse(m[1]) }) },
+  { scan: singlePair('_', true), toNode: (m, parse) => ({ type: 'italic', children: parse(m[1]) }) },
+];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Goes right after links and emails, so "@name" inside code or an address stays as it is
+const withMentionRule = (mentions: MentionSpan[]): InlineRule[] => {
+  if (mentions.length === 0) return INLINE_RULES;
+  const texts = Array.from(new Set(mentions.map(m => m.text))).sort((a, b) => b.length - a.length);
+  const rule: InlineRule = {
+    scan: anchored(`(?:${texts.map(escapeRegExp).join('|')})(?!\\w)`, '', '(?<![\\w.])'),
+    toNode: m => {
+      const mention = mentions.find(x => x.text === m[0]);
+      return mention ? { type: 'mention', userId: mention.userId, text: m[0] } : null;
+    }
+  };
+  return [...INLINE_RULES.slice(0, 3), rule, ...INLINE_RULES.slice(3)];
+};
+
+const pushText = (nodes: FormatNode[], text: string) => {
+  if (!text) return;
+  const last = nodes[nodes.length - 1];
+  if (last?.type === 'text') last.text += text;
+  else nodes.push({ type: 'text', text });
+};
+
+// One pass over the text, trying the rules in order at each position. Inner text of a match is
+// parsed again, but it can't contain a match of the same kind, so the nesting stays shallow.
+const parseInline = (text: string, rules: InlineRule[]): FormatNode[] => {
+  const nodes: FormatNode[] = [];
+  const parse = (inner: string) => parseInline(inner, rules);
+  const matchers = rules.map(rule => ({ rule, matchAt: rule.scan(text) }));
+  let plainFrom = 0;
+  let at = 0;
+
+  while (at < text.length) {
+    let found: { match: string[]; rule: InlineRule } | null = null;
+    for (const { rule, matchAt } of matchers) {
+      const match = matchAt(at, at === plainFrom);
+      if (match) { found = { match, rule }; break; }
+    }
+    if (!found) { at++; continue; }
+
+    pushText(nodes, text.slice(plainFrom, at));
+    const node = found.rule.toNode(found.match, parse);
+    if (node) nodes.push(node);
+    else pushText(nodes, found.match[0]);
+    at += Math.max(found.match[0].length, 1);
+    plainFrom = at;
+  }
+
+  pushText(nodes, text.slice(plainFrom));
+  return nodes;
+};
+
+export const parseFormatting = (text: string, mentions: MentionSpan[] = []): FormatNode[] => {
+  if (text.length > MAX_FORMATTED_LENGTH) return [{ type: 'text', text }];
+  const rules = withMentionRule(mentions);
+  const nodes: FormatNode[] = [];
+  let lastIndex = 0;
+  CODE_BLOCK.lastIndex = 0;
+
+  // Blocks render on their own line, so the line breaks right around them would double up
+  let match: RegExpExecArray | null;
+  while ((match = CODE_BLOCK.exec(text))) {
+    nodes.push(...parseInline(text.slice(lastIndex, match.index).replace(/\n$/, ''), rules));
+    nodes.push({ type: 'codeBlock', language: match[1] || undefined, text: match[2] });
+    lastIndex = match.index + match[0].length;
+    if (text[lastIndex] === '\n') lastIndex++;
+  }
+  nodes.push(...parseInline(text.slice(lastIndex), rules));
+  return nodes;
+};
+
+const toPlainText = (nodes: FormatNode[]): string => nodes.map(node => {
+  switch (node.type) {
+    case 'text':
+    case 'code':
+    case 'codeBlock':
+    case 'link':
+    case 'mention':
+      return node.text;
+    case 'spoiler':
+      return '•••'; // Previews must not give the spoiler away
+    default:
+      return toPlainText(node.children);
+  }
+}).join('');
+
+// One line without markers, for the chat list, reply quotes and notifications
+export const stripFormatting = (text: string): string =>
+  toPlainText(parseFormatting(text)).replace(/\s+/g, ' ').trim();
+
+// --- Composer ---
+
+export type FormatStyle = 'bold' | 'italic' | 'strike' | 'code' | 'codeBlock' | 'spoiler';
+
+const MARKERS: Record<FormatStyle, [string, string]> = {
+  bold: ['**', '**'],
+  italic: ['_', '_'],
+  strike: ['~~', '~~'],
+  code: ['`', '`'],
+  codeBlock: ['```\n', '\n```'],
+  spoiler: ['||', '||'],
+};
+
+export interface TextEdit {
+  value: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+// Wraps the selection in the style's markers, or unwraps it if it is already wrapped.
+// With nothing selected the caret ends up between the markers.
+export const applyFormat = (value: string, start: number, end: number, style: FormatStyle): TextEdit => {
+  const [open, close] = MARKERS[style];
+  const before = value.slice(0, start);
+  const selected = value.slice(start, end);
+  const after = value.slice(end);
+
+  if (before.endsWith(open) && after.startsWith(close)) {
+    return {
+      value: before.slice(0, -open.length) + selected + after.slice(close.length),
+      selectionStart: start - open.length,
+      selectionEnd: end - open.length
+    };
+  }
+  return {
+    value: before + open + selected + close + after,
+    selectionStart: start + open.length,
+    selectionEnd: end + open.length
+  };
+};
+
+// Composer keyboard shortcuts (with Ctrl / Cmd)
+export const getShortcutStyle = (e: { key: string; shiftKey: boolean }): FormatStyle | null => {
+  const key = e.key.toLowerCase();
+  if (key === 'b') return 'bold';
+  if (key === 'i') return 'italic';
+  if (key === 'e') return 'code';
+  if (e.shiftKey && key === 'x') return 'strike';
+  if (e.shiftKey && key === 'm') return 'codeBlock';
+  if (e.shiftKey && key === 'h') return 'spoiler';
+  return null;
+};
@@ -0,0 +1,63 @@
+// Minimal promise wrapper around IndexedDB for the client-side stores.
+
+const DB_NAME = 'flick';
+const DB_VERSION = 3;
+
+// outbox: queued sends (keyed by message id), messages: cached history (keyed by chat id),
+// meta: single records such as the signed-in user and the chat list (keyed by `key`),
+// linkPreviews: unfurl results (keyed by `url`)
+export type StoreName = 'outbox' | 'messages' | 'meta' | 'linkPreviews';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB is not available"));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains('outbox')) {
+        db.createObjectStore('outbox', { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains('messages')) {
+        db.createObjectStore('messages', { keyPath: 'chatId' });
+      }
+      if (!db.objectStoreNames.contains('meta')) {
+        db.createObjectStore('meta', { keyPath: 'key' });
+      }
+      if (!db.objectStoreNames.contains('linkPreviews')) {
+        db.createObjectStore('linkPreviews', { keyPath: 'url' });
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+  // Allow a later retry if opening failed (e.g. private mode quota errors)
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const promisify = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const withStore = async <T>(name: StoreName, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return promisify(run(db.transaction(name, mode).objectStore(name)));
+};
+
+export const idb = {
+  get: <T>(name: StoreName, key: IDBValidKey) => withStore<T | undefined>(name, 'readonly', store => store.get(key)),
+  getAll: <T>(name: StoreName) => withStore<T[]>(name, 'readonly', store => store.getAll()),
+  put: <T>(name: StoreName, value: T) => withStore(name, 'readwrite', store => store.put(value)),
+  delete: (name: StoreName, key: IDBValidKey) => withStore(name, 'readwrite', store => store.delete(key)),
+  clear: (name: StoreName) => withStore(name, 'readwrite', store => store.clear()),
+};
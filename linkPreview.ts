@@ -0,0 +1,81 @@
+import { LinkPreview } from './types';
+import { idb } from './idb';
+import { getUnfurlConfig } from './constants';
+import { FormatNode, parseFormatting, toSafeHref } from './format';
+
+// Link previews come from the unfurl service (see getUnfurlConfig). Results are cached in memory
+// for the session and in IndexedDB across reloads, so each link is unfurled about once a day.
+
+const PREVIEW_TTL_MS = 24 * 60 * 60 * 1000;
+// Links without usable metadata are asked about again sooner
+const EMPTY_TTL_MS = 60 * 60 * 1000;
+
+interface PreviewRecord {
+  url: string;
+  preview: LinkPreview | null;
+  fetchedAt: number;
+}
+
+const inFlight = new Map<string, Promise<LinkPreview | null>>();
+
+// The first web link outside code and spoilers, which is the one that gets a preview card
+export const findPreviewUrl = (text: string): string | null => {
+  const search = (nodes: FormatNode[]): string | null => {
+    for (const node of nodes) {
+      if (node.type === 'link' && /^https?:/.test(node.href)) return node.href;
+      if (node.type === 'bold' || node.type === 'italic' || node.type === 'strike') {
+        const found = search(node.children);
+        if (found) return found;
+      }
+    }
+    return null;
+  };
+  return search(parseFormatting(text));
+};
+
+const toLinkPreview = (url: string, data: any): LinkPreview | null => {
+  const title = typeof data?.title === 'string' ? data.title.trim() : '';
+  const description = typeof data?.description === 'string' ? data.description.trim() : '';
+  if (!title && !description) return null;
+  const image = typeof data.image === 'string' ? toSafeHref(data.image) : null;
+  return {
+    url,
+    title: title || undefined,
+    description: description || undefined,
+    imageUrl: image && /^https?:/.test(image) ? image : undefined,
+    siteName: typeof data.site_name === 'string' ? data.site_name : undefined
+  };
+};
+
+const unfurl = async (url: string): Promise<LinkPreview | null> => {
+  const res = await fetch(`${getUnfurlConfig().url}?url=${encodeURIComponent(url)}`);
+  if (!res.ok) throw new Error(`Unfurl failed: ${res.status}`);
+  return toLinkPreview(url, await res.json());
+};
+
+// Null when the link has nothing worth showing. Network errors aren't cached, so the link
+// is tried again the next time it is shown.
+export const getLinkPreview = (url: string): Promise<LinkPreview | null> => {
+  const pending = inFlight.get(url);
+  if (pending) return pending;
+
+  const request = (async () => {
+    const stored = await idb.get<PreviewRecord>('linkPreviews', url).catch(() => undefined);
+    if (stored && Date.now() - stored.fetchedAt < (stored.preview ? PREVIEW_TTL_MS : EMPTY_TTL_MS)) {
+      return stored.preview;
+    }
+
+    try {
+      const preview = await unfurl(url);
+      idb.put<PreviewRecord>('linkPreviews', { url, preview, fetchedAt: Date.now() }).catch(() => {});
+      return preview;
+    } catch (e) {
+      console.warn("Link preview unavailable", url, e);
+      inFlight.delete(url);
+      return stored?.preview ?? null;
+    }
+  })();
+
+  inFlight.set(url, request);
+  return request;
+};
@@ -0,0 +1,73 @@
+import { Mention, Message, User } from './types';
+import { MentionSpan, TextEdit } from './format';
+
+// "@username" for someone in the chat. Mentions are stored with the message as offsets into its
+// content plus the user id, so they survive renames and never depend on re-parsing the text.
+
+const MAX_SUGGESTIONS = 6;
+
+const isWordChar = (ch: string | undefined) => !!ch && /[\w.]/.test(ch);
+
+// Code is shown literally, so an "@name" in it mentions nobody
+const CODE_SPANS = /```[\s\S]*?```|`[^`\n]+`/g;
+
+const findCodeRanges = (text: string): [number, number][] =>
+  Array.from(text.matchAll(CODE_SPANS), m => [m.index || 0, (m.index || 0) + m[0].length]);
+
+// Longer names are tried first, so "@Ann Lee" isn't taken for "@Ann" when both are in the chat
+export const extractMentions = (text: string, participants: User[]): Mention[] => {
+  const candidates = participants
+    .filter(p => p.username)
+    .sort((a, b) => b.username.length - a.username.length);
+  const lower = text.toLowerCase();
+  const code = findCodeRanges(text);
+  const mentions: Mention[] = [];
+
+  for (let i = text.indexOf('@'); i !== -1; i = text.indexOf('@', i + 1)) {
+    // An @ inside a word is an email address, not a mention
+    if (isWordChar(text[i - 1]) || code.some(([start, end]) => i >= start && i < end)) continue;
+    const user = candidates.find(p => {
+      const name = p.username.toLowerCase();
+      return lower.startsWith(name, i + 1) && !/\w/.test(text[i + 1 + name.length] || '');
+    });
+    if (!user) continue;
+    mentions.push({ userId: user.id, offset: i, length: user.username.length + 1 });
+    i += user.username.length;
+  }
+  return mentions;
+};
+
+// The mentioned text as it appears in the content, for rendering (see format.ts)
+export const toMentionSpans = (content: string | undefined, mentions: Mention[] | undefined): MentionSpan[] =>
+  (mentions || [])
+    .map(m => ({ userId: m.userId, text: (content || '').substr(m.offset, m.length) }))
+    .filter(span => span.text.startsWith('@'));
+
+export const mentionsUser = (message: Message, userId: string | undefined): boolean =>
+  !!userId && !!message.mentions?.some(m => m.userId === userId);
+
+// --- Composer ---
+
+// The "@query" being typed right before the caret, if any
+export const getMentionQuery = (value: string, caret: number): { start: number; query: string } | null => {
+  const match = /@([^\s@]*)$/.exec(value.slice(0, caret));
+  if (!match || isWordChar(value[match.index - 1])) return null;
+  return { start: match.index, query: match[1] };
+};
+
+// Names starting with the query come before names that merely contain it
+export const findMentionCandidates = (participants: User[], query: string, excludeUserId?: string): User[] => {
+  const q = query.toLowerCase();
+  return participants
+    .filter(p => p.id !== excludeUserId && p.username.toLowerCase().includes(q))
+    .sort((a, b) => Number(!a.username.toLowerCase().startsWith(q)) - Number(!b.username.toLowerCase().startsWith(q)))
+    .slice(0, MAX_SUGGESTIONS);
+};
+
+// Replaces the "@query" with the full name and a trailing space, caret after it
+export const insertMention = (value: string, start: number, caret: number, username: string): TextEdit => {
+  const inserted = `@${username} `;
+  const after = value.slice(caret).replace(/^ /, '');
+  const position = start + inserted.length;
+  return { value: value.slice(0, start) + inserted + after, selectionStart: position, selectionEnd: position };
+};
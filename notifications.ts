@@ -0,0 +1,35 @@
+// Browser notifications for incoming messages. Nothing is shown until the user has granted
+// permission, which is asked for when they switch notifications on or first open a chat.
+
+interface MessageNotification {
+  body: string;
+  tag: string; // Replaces the previous notification with the same tag (one per chat)
+  icon?: string;
+  onClick?: () => void;
+}
+
+const isSupported = () => typeof Notification !== 'undefined';
+
+export const requestNotificationPermission = () => {
+  if (!isSupported() || Notification.permission !== 'default') return;
+  // Older Safari only supports the callback form and returns nothing
+  Promise.resolve(Notification.requestPermission()).catch(() => {});
+};
+
+export const showNotification = (title: string, options: MessageNotification) => {
+  if (!isSupported() || Notification.permission !== 'granted') return;
+  const { onClick, ...init } = options;
+  try {
+    const notification = new Notification(title, init);
+    notification.onclick = () => {
+      window.focus();
+      onClick?.();
+      notification.close();
+    };
+  } catch (e) {
+    // Mobile browsers only allow notifications through the service worker
+    navigator.serviceWorker?.ready
+      .then(registration => registration.showNotification(title, init))
+      .catch(err => console.warn("Could not show notification", err));
+  }
+};
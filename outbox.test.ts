@@ -0,0 +1,143 @@
+// @vitest-environment jsdom
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Attachment, Message, MessageType } from './types';
+import { idb } from './idb';
+import { createOutbox, FAILED_AFTER_ATTEMPTS, OutboxItem } from './outbox';
+
+const { send, upload, remove } = vi.hoisted(() => ({ send: vi.fn(), upload: vi.fn(), remove: vi.fn() }));
+vi.mock('./api', () => ({
+  api: { messages: { send }, storage: { upload, remove } }
+}));
+
+// IndexedDB (fake-indexeddb) answers on setImmediate, which stays real; only timeouts and the clock are faked
+const tick = () => new Promise(resolve => setImmediate(resolve));
+const settle = async () => {
+  for (let i = 0; i < 50; i++) await tick();
+};
+
+const sentIds = () => send.mock.calls.map(([, content]) => content);
+
+const toItem = (id: string, chatId: string, extra: Partial<OutboxItem> = {}) => ({
+  id,
+  userId: 'u1',
+  chatId,
+  content: id,
+  type: MessageType.TEXT,
+  attachments: [],
+  files: [],
+  createdAt: new Date(),
+  ...extra
+});
+
+const saved = (chatId: string, content: string): Message => ({
+  id: `saved-${content}`, chatId, senderId: 'u1', content, type: MessageType.TEXT, createdAt: new Date(), readBy: []
+});
+
+describe('outbox', () => {
+  let outbox: ReturnType<typeof createOutbox>;
+  let onSent: ReturnType<typeof vi.fn>;
+  let onUpdate: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+    await idb.clear('outbox');
+    send.mockReset();
+    upload.mockReset();
+    remove.mockReset().mockResolvedValue(undefined);
+    onSent = vi.fn();
+    onUpdate = vi.fn();
+    outbox = createOutbox({ onSent, onUpdate });
+  });
+
+  afterEach(() => {
+    outbox.stop();
+    vi.useRealTimers();
+  });
+
+  it('keeps a failed head in front of its chat while other chats go on', async () => {
+    send.mockImplementation(async (chatId: string, content: string) => {
+      if (content === 'a1' && send.mock.calls.length === 1) throw new Error('offline');
+      return saved(chatId, content);
+    });
+
+    outbox.enqueue(toItem('a1', 'a'));
+    outbox.enqueue(toItem('a2', 'a'));
+    outbox.enqueue(toItem('b1', 'b'));
+    await settle();
+    expect(sentIds()).toEqual(['a1', 'b1']);
+    expect(outbox.getItems('a').map(i => i.id)).toEqual(['a1', 'a2']);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    await settle();
+    expect(sentIds()).toEqual(['a1', 'b1', 'a1', 'a2']);
+    expect(onSent.mock.calls.map(([item]) => item.id)).toEqual(['b1', 'a1', 'a2']);
+    expect(outbox.getItems()).toEqual([]);
+  });
+
+  it('backs off exponentially and reports failure after FAILED_AFTER_ATTEMPTS', async () => {
+    send.mockRejectedValue(new Error('500'));
+
+    outbox.enqueue(toItem('m1', 'a'));
+    await settle();
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(outbox.getItems()[0]).toMatchObject({ attempts: 1, status: 'pending' });
+
+    await vi.advanceTimersByTimeAsync(1999);
+    await settle();
+    expect(send).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await settle();
+    expect(send).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(4000);
+    await settle();
+    expect(send).toHaveBeenCalledTimes(FAILED_AFTER_ATTEMPTS);
+    expect(outbox.getItems()[0]).toMatchObject({ attempts: FAILED_AFTER_ATTEMPTS, status: 'failed' });
+    expect(onUpdate).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'failed' }));
+
+    // Still retried in the background, now 8s later
+    await vi.advanceTimersByTimeAsync(8000);
+    await settle();
+    expect(send).toHaveBeenCalledTimes(FAILED_AFTER_ATTEMPTS + 1);
+  });
+
+  it('uploads each file once across retries and only removes its own uploads on discard', async () => {
+    const forwarded: Attachment = { id: 'fwd', type: 'image', url: 'https://cdn/fwd.png', name: 'fwd.png', size: 3, mimeType: 'image/png' };
+    upload.mockResolvedValue('https://cdn/photo.png');
+    send.mockRejectedValue(new Error('500'));
+
+    outbox.enqueue(toItem('m1', 'a', {
+      type: MessageType.IMAGE,
+      attachments: [forwarded],
+      files: [{ id: 'f1', blob: new Blob(['png']), name: 'photo.png', mimeType: 'image/png', kind: 'image' }]
+    }));
+    await settle();
+    await vi.advanceTimersByTimeAsync(2000);
+    await settle();
+
+    expect(upload).toHaveBeenCalledTimes(1);
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(send.mock.calls[1][3].map((a: Attachment) => a.url)).toEqual(['https://cdn/fwd.png', 'https://cdn/photo.png']);
+    expect(outbox.getItems()[0]).toMatchObject({ files: [], uploadedIds: ['f1'] });
+
+    await outbox.discard('m1');
+    expect(remove).toHaveBeenCalledWith(['https://cdn/photo.png']);
+    expect(await idb.getAll('outbox')).toEqual([]);
+  });
+
+  it('restores only our own queue, oldest first', async () => {
+    send.mockImplementation(async (chatId: string, content: string) => saved(chatId, content));
+    const stored = (id: string, userId: string, createdAt: string): OutboxItem => ({
+      ...toItem(id, 'a', { userId, createdAt: new Date(createdAt) }), attempts: 0, nextAttemptAt: 0, status: 'pending'
+    });
+    await idb.put('outbox', stored('late', 'u1', '2024-01-01T10:05:00Z'));
+    await idb.put('outbox', stored('early', 'u1', '2024-01-01T10:00:00Z'));
+    await idb.put('outbox', stored('theirs', 'u2', '2024-01-01T09:00:00Z'));
+
+    const restored = await outbox.load('u1');
+    expect(restored.map(i => i.id)).toEqual(['early', 'late']);
+    await settle();
+    expect(sentIds()).toEqual(['early', 'late']);
+  });
+});
@@ -0,0 +1,238 @@
+import { Attachment, ForwardedFrom, Mention, Message, MessageType, ReplyPreview } from './types';
+import { api } from './api';
+import { idb } from './idb';
+
+// Durable queue of outgoing messages. Items live in IndexedDB until the server accepts them,
+// so a reload or a dropped connection never loses what the user wrote.
+
+// After this many failed attempts the bubble shows "failed" (automatic retries still continue)
+export const FAILED_AFTER_ATTEMPTS = 3;
+const BACKOFF_BASE_MS = 2000;
+const BACKOFF_MAX_MS = 60000;
+
+export interface OutboxFile {
+  id: string;
+  blob: Blob;
+  name: string;
+  mimeType: string;
+  kind: Attachment['type'];
+}
+
+export interface OutboxItem {
+  id: string; // Same as the optimistic message id
+  userId: string;
+  chatId: string;
+  content: string;
+  type: MessageType;
+  attachments: Attachment[]; // Already uploaded
+  files: OutboxFile[]; // Still waiting for upload, in order
+  // Ids of the attachments this item uploaded from `files`. Anything else in `attachments`
+  // (e.g. a forward's) belongs to another message and must never be removed from storage.
+  uploadedIds?: string[];
+  replyToId?: string;
+  replyTo?: ReplyPreview; // For the quote in the optimistic bubble
+  forwardedFrom?: ForwardedFrom;
+  noLinkPreview?: boolean;
+  mentions?: Mention[];
+  createdAt: Date;
+  attempts: number;
+  nextAttemptAt: number;
+  status: 'pending' | 'failed';
+}
+
+interface OutboxHandlers {
+  onSent: (item: OutboxItem, message: Message) => void;
+  onUpdate: (item: OutboxItem) => void;
+}
+
+const previewUrls = new Map<string, string>();
+
+const getPreviewUrl = (file: OutboxFile) => {
+  let url = previewUrls.get(file.id);
+  if (!url) {
+    url = URL.createObjectURL(file.blob);
+    previewUrls.set(file.id, url);
+  }
+  return url;
+};
+
+// Uploaded attachments keep their file id, so this also covers files that are already uploaded
+const releasePreviews = (item: OutboxItem) => {
+  [...item.attachments, ...item.files].forEach(({ id }) => {
+    const url = previewUrls.get(id);
+    if (url) URL.revokeObjectURL(url);
+    previewUrls.delete(id);
+  });
+};
+
+// The optimistic bubble for a queued item: uploaded attachments plus local previews of the rest
+export const toPendingMessage = (item: OutboxItem): Message => ({
+  id: item.id,
+  chatId: item.chatId,
+  senderId: item.userId,
+  content: item.content,
+  type: item.type,
+  attachments: [
+    ...item.attachments,
+    ...item.files.map(file => ({
+      id: file.id,
+      type: file.kind,
+      url: getPreviewUrl(file),
+      name: file.name,
+      size: file.blob.size,
+      mimeType: file.mimeType
+    }))
+  ],
+  createdAt: item.createdAt,
+  readBy: [],
+  status: item.status,
+  replyToId: item.replyToId,
+  replyTo: item.replyTo,
+  forwardedFrom: item.forwardedFrom,
+  noLinkPreview: item.noLinkPreview,
+  mentions: item.mentions
+});
+
+const persist = (item: OutboxItem) =>
+  idb.put('outbox', item).catch(e => console.warn("Outbox: could not persist item", e));
+
+export const createOutbox = (handlers: OutboxHandlers) => {
+  let items: OutboxItem[] = [];
+  let processing = false;
+  let retryTimer: number | null = null;
+
+  // Only the oldest item of each chat may be sent, which keeps per-chat order intact
+  const chatHeads = () => {
+    const seen = new Set<string>();
+    return items.filter(item => {
+      if (seen.has(item.chatId)) return false;
+      seen.add(item.chatId);
+      return true;
+    });
+  };
+
+  const scheduleNext = () => {
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+    if (items.length === 0) return;
+    const nextAt = Math.min(...chatHeads().map(item => item.nextAttemptAt));
+    retryTimer = window.setTimeout(process, Math.max(0, nextAt - Date.now()));
+  };
+
+  const attempt = async (item: OutboxItem) => {
+    try {
+      while (item.files.length > 0) {
+        const file = item.files[0];
+        const upload = new File([file.blob], file.name, { type: file.mimeType });
+        const url = await api.storage.upload(upload);
+        item.attachments = [...item.attachments, {
+          id: file.id, type: file.kind, url, name: file.name, size: file.blob.size, mimeType: file.mimeType
+        }];
+        item.files = item.files.slice(1);
+        item.uploadedIds = [...(item.uploadedIds || []), file.id];
+        await persist(item);
+      }
+
+      const saved = await api.messages.send(item.chatId, item.content, item.type, item.attachments, {
+        replyToId: item.replyToId,
+        forwardedFromId: item.forwardedFrom?.userId,
+        noLinkPreview: item.noLinkPreview,
+        mentions: item.mentions
+      });
+      items = items.filter(i => i.id !== item.id);
+      await idb.delete('outbox', item.id).catch(() => {});
+      handlers.onSent(item, saved);
+      releasePreviews(item);
+    } catch (e) {
+      item.attempts++;
+      item.nextAttemptAt = Date.now() + Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (item.attempts - 1));
+      if (item.attempts >= FAILED_AFTER_ATTEMPTS) item.status = 'failed';
+      await persist(item);
+      handlers.onUpdate(item);
+    }
+  };
+
+  const process = async () => {
+    if (processing) return;
+    processing = true;
+    try {
+      // Offline: wait for the "online" event instead of burning attempts
+      while (navigator.onLine) {
+        const due = chatHeads().find(item => item.nextAttemptAt <= Date.now());
+        if (!due) break;
+        await attempt(due);
+      }
+    } finally {
+      processing = false;
+      scheduleNext();
+    }
+  };
+
+  // Connection came back: everything is due again
+  const flush = () => {
+    items.forEach(item => { item.nextAttemptAt = Date.now(); });
+    process();
+  };
+
+  window.addEventListener('online', flush);
+
+  return {
+    // Restores the queue of the given user after a reload
+    load: async (userId: string): Promise<OutboxItem[]> => {
+      try {
+        const stored = await idb.getAll<OutboxItem>('outbox');
+        items = stored
+          .filter(item => item.userId === userId)
+          .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+      } catch (e) {
+        console.warn("Outbox: could not load queue", e);
+        items = [];
+      }
+      flush();
+      return items;
+    },
+
+    enqueue: (item: Omit<OutboxItem, 'attempts' | 'nextAttemptAt' | 'status'>): OutboxItem => {
+      const queued: OutboxItem = { ...item, attempts: 0, nextAttemptAt: Date.now(), status: 'pending' };
+      items = [...items, queued];
+      persist(queued).then(process);
+      return queued;
+    },
+
+    // Manual retry from the UI: reset the backoff and try right away
+    retry: (id: string) => {
+      const item = items.find(i => i.id === id);
+      if (!item) return;
+      item.status = 'pending';
+      item.attempts = 0;
+      handlers.onUpdate(item);
+      flush();
+    },
+
+    discard: async (id: string) => {
+      const item = items.find(i => i.id === id);
+      if (!item) return;
+      items = items.filter(i => i.id !== id);
+      releasePreviews(item);
+      // Files we uploaded before the send failed would otherwise stay in the bucket
+      const uploaded = item.attachments.filter(a => item.uploadedIds?.includes(a.id));
+      if (uploaded.length > 0) {
+        api.storage.remove(uploaded.map(a => a.url)).catch(e => console.warn("Outbox: could not remove uploads", e));
+      }
+      await idb.delete('outbox', id).catch(() => {});
+      scheduleNext();
+    },
+
+    flush,
+
+    getItems: (chatId?: string) => chatId ? items.filter(i => i.chatId === chatId) : items,
+
+    // Stops sending (logout); queued items stay on disk for the next login of that user
+    stop: () => {
+      if (retryTimer) clearTimeout(retryTimer);
+      retryTimer = null;
+      items.forEach(releasePreviews);
+      items = [];
+    }
+  };
+};
@@ -0,0 +1,90 @@
+import { UserStatus } from './types';
+
+export const HEARTBEAT_INTERVAL_MS = 30000;
+// No input for this long -> AWAY
+export const IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'scroll', 'wheel'];
+const ACTIVITY_THROTTLE_MS = 1000;
+
+export type AutoStatus = UserStatus.ONLINE | UserStatus.AWAY;
+
+interface PresenceHandlers {
+  // Automatic ONLINE <-> AWAY transitions (idle timer, tab visibility)
+  onActivityChange: (status: AutoStatus) => void;
+  // Fired every HEARTBEAT_INTERVAL_MS while the user is active
+  onHeartbeat: () => void;
+  // Page is going away - last chance to report OFFLINE
+  onUnload: () => void;
+}
+
+// Watches user activity and tab visibility to derive automatic presence.
+export const createPresenceTracker = (handlers: PresenceHandlers) => {
+  let status: AutoStatus = UserStatus.ONLINE;
+  let running = false;
+  let idleTimer: number | null = null;
+  let heartbeatTimer: number | null = null;
+  let lastActivityAt = 0;
+
+  const update = (next: AutoStatus) => {
+    if (next === status) return;
+    status = next;
+    handlers.onActivityChange(next);
+  };
+
+  const armIdleTimer = () => {
+    if (idleTimer) clearTimeout(idleTimer);
+    idleTimer = window.setTimeout(() => update(UserStatus.AWAY), IDLE_TIMEOUT_MS);
+  };
+
+  const handleActivity = () => {
+    const now = Date.now();
+    if (now - lastActivityAt < ACTIVITY_THROTTLE_MS) return;
+    lastActivityAt = now;
+    if (document.visibilityState !== 'visible') return;
+    armIdleTimer();
+    update(UserStatus.ONLINE);
+  };
+
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'visible') {
+      lastActivityAt = 0;
+      handleActivity();
+    } else {
+      if (idleTimer) clearTimeout(idleTimer);
+      update(UserStatus.AWAY);
+    }
+  };
+
+  const handlePageHide = () => handlers.onUnload();
+
+  return {
+    start: () => {
+      if (running) return;
+      running = true;
+      status = document.visibilityState === 'visible' ? UserStatus.ONLINE : UserStatus.AWAY;
+      ACTIVITY_EVENTS.forEach(name => window.addEventListener(name, handleActivity, { passive: true }));
+      document.addEventListener('visibilitychange', handleVisibilityChange);
+      window.addEventListener('pagehide', handlePageHide);
+      armIdleTimer();
+      heartbeatTimer = window.setInterval(() => {
+        if (status === UserStatus.ONLINE) handlers.onHeartbeat();
+      }, HEARTBEAT_INTERVAL_MS);
+      handlers.onActivityChange(status);
+    },
+
+    stop: () => {
+      if (!running) return;
+      running = false;
+      ACTIVITY_EVENTS.forEach(name => window.removeEventListener(name, handleActivity));
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', handlePageHide);
+      if (idleTimer) clearTimeout(idleTimer);
+      if (heartbeatTimer) clearInterval(heartbeatTimer);
+      idleTimer = null;
+      heartbeatTimer = null;
+    },
+
+    getStatus: () => status
+  };
+};
@@ -0,0 +1,27 @@
+import { Message, MessageType, ReplyPreview } from './types';
+import { stripFormatting } from './format';
+
+// One line of plain text for a message shown out of context (chat list, reply quotes, the reply bar)
+export const getMessagePreview = (msg: Pick<Message | ReplyPreview, 'type' | 'content'> & { isDeleted?: boolean }): string => {
+  if (msg.isDeleted) return 'Message deleted';
+  const text = msg.content ? stripFormatting(msg.content) : '';
+  switch (msg.type) {
+    case MessageType.IMAGE:
+      return text || 'Photo';
+    case MessageType.VIDEO:
+      return text || 'Video';
+    case MessageType.VOICE:
+      return 'Voice message';
+    case MessageType.FILE:
+      return text || 'File';
+    default:
+      return text;
+  }
+};
+
+export const toReplyPreview = (msg: Message): ReplyPreview => ({
+  id: msg.id,
+  senderId: msg.senderId,
+  content: msg.content,
+  type: msg.type
+});
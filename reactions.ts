@@ -0,0 +1,23 @@
+import { Reaction } from './types';
+
+// Offered in the quick reaction bar (hover button and long-press menu)
+export const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+export const hasReacted = (reactions: Reaction[] | undefined, emoji: string, userId?: string) =>
+  !!userId && !!reactions?.some(r => r.emoji === emoji && r.userIds.includes(userId));
+
+// Adds or removes one user's reaction. Chips keep their position; one left without users disappears.
+// Applying the same change twice is a no-op, so our own realtime echo is harmless.
+export const applyReaction = (reactions: Reaction[] = [], emoji: string, userId: string, added: boolean): Reaction[] => {
+  const existing = reactions.find(r => r.emoji === emoji);
+  if (added) {
+    if (existing?.userIds.includes(userId)) return reactions;
+    return existing
+      ? reactions.map(r => r === existing ? { ...r, userIds: [...r.userIds, userId] } : r)
+      : [...reactions, { emoji, userIds: [userId] }];
+  }
+  if (!existing?.userIds.includes(userId)) return reactions;
+  return reactions
+    .map(r => r === existing ? { ...r, userIds: r.userIds.filter(id => id !== userId) } : r)
+    .filter(r => r.userIds.length > 0);
+};
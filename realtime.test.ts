@@ -0,0 +1,80 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRealtimeClient } from './realtime';
+
+// Records every socket the client opens; tests drive open/close by hand
+class FakeWebSocket {
+  static OPEN = 1;
+  static instances: FakeWebSocket[] = [];
+  readyState = 0;
+  sent: string[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((e: { data: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor(public url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  open() {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.();
+  }
+
+  send(text: string) {
+    this.sent.push(text);
+  }
+
+  close() {
+    if (this.readyState === 3) return;
+    this.readyState = 3;
+    this.onclose?.();
+  }
+}
+
+describe('realtime client tokens', () => {
+  beforeEach(() => {
+    FakeWebSocket.instances = [];
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('resubscribes with a new token, also while reconnecting', () => {
+    const client = createRealtimeClient({ getUrl: () => 'ws://gateway', transports: ['websocket'] });
+    client.connect('t1');
+    const [first] = FakeWebSocket.instances;
+    expect(first.url).toBe('ws://gateway?token=t1');
+    first.open();
+
+    // The old token expired: the gateway drops us, and reconnects with it would keep failing
+    first.close();
+    expect(client.getStatus()).toBe('reconnecting');
+    client.connect('t2');
+
+    const second = FakeWebSocket.instances[1];
+    expect(second.url).toBe('ws://gateway?token=t2');
+    second.open();
+    expect(JSON.parse(second.sent[0])).toEqual({ action: 'subscribe', token: 't2' });
+    expect(client.getStatus()).toBe('open');
+
+    // Nothing left over from the old attempt
+    vi.advanceTimersByTime(60000);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    client.disconnect();
+  });
+
+  it('ignores the same token on a live connection', () => {
+    const client = createRealtimeClient({ getUrl: () => 'ws://gateway', transports: ['websocket'] });
+    client.connect('t1');
+    FakeWebSocket.instances[0].open();
+    client.connect('t1');
+    expect(FakeWebSocket.instances).toHaveLength(1);
+    client.disconnect();
+  });
+});
@@ -0,0 +1,333 @@
+import { getRealtimeConfig } from './constants';
+
+// Realtime transport layer.
+//
+// Wire protocol (shared by the production gateway and the local stand-in in scripts/realtime-standin.mjs):
+//  - WebSocket: `${url}?token=<authToken>`. After open the client sends
+//    {"action":"subscribe","token":"..."}; the server pushes {"event":"...","data":{...}} frames.
+//  - SSE fallback: GET `${httpUrl}/events?token=<authToken>`, each `data:` line is one envelope.
+//  - Long-poll fallback: GET `${httpUrl}/poll?token=<authToken>&cursor=<cursor>` answers
+//    {"cursor":"...","events":[envelope, ...]} once events are available (or on timeout).
+//  - Client -> server events go over the socket as {"action":"publish","event":"...","data":{...}},
+//    or as a POST to `${httpUrl}/publish` when the active transport is one-way.
+
+export type RealtimeTransportKind = 'websocket' | 'sse' | 'longpoll';
+export type RealtimeStatus = 'idle' | 'connecting' | 'open' | 'reconnecting';
+
+export interface RealtimeEnvelope {
+  event: string;
+  data: any;
+}
+
+type EnvelopeListener = (envelope: RealtimeEnvelope) => void;
+type StatusListener = (status: RealtimeStatus, transport: RealtimeTransportKind | null) => void;
+
+interface Transport {
+  close: () => void;
+  // Returns false when the transport cannot carry outgoing events right now
+  send?: (envelope: RealtimeEnvelope) => boolean;
+}
+
+interface TransportHandlers {
+  onOpen: () => void;
+  onEnvelope: (envelope: RealtimeEnvelope) => void;
+  onClose: (wasOpen: boolean) => void;
+}
+
+type TransportOpener = (url: string, token: string, handlers: TransportHandlers) => Transport;
+
+export interface RealtimeClientOptions {
+  getUrl?: () => string;
+  transports?: RealtimeTransportKind[];
+  // How many failed attempts (that never reached "open") before falling back to the next transport
+  failuresBeforeFallback?: number;
+  backoffBaseMs?: number;
+  backoffMaxMs?: number;
+}
+
+const PING_INTERVAL_MS = 25000;
+
+const toHttpUrl = (url: string) => url.replace(/^ws(s?):\/\//, 'http$1://').replace(/\/$/, '');
+
+const normalizeEnvelope = (raw: any): RealtimeEnvelope | null => {
+  if (!raw || typeof raw !== 'object' || typeof raw.event !== 'string') return null;
+  return { event: raw.event, data: raw.data ?? null };
+};
+
+const parseEnvelope = (text: string): RealtimeEnvelope | null => {
+  try {
+    return normalizeEnvelope(JSON.parse(text));
+  } catch (e) {
+    return null;
+  }
+};
+
+const openWebSocket: TransportOpener = (url, token, handlers) => {
+  const socket = new WebSocket(`${url}?token=${encodeURIComponent(token)}`);
+  let wasOpen = false;
+  let closed = false;
+  let pingTimer: number | null = null;
+
+  const finish = () => {
+    if (closed) return;
+    closed = true;
+    if (pingTimer) clearInterval(pingTimer);
+    handlers.onClose(wasOpen);
+  };
+
+  socket.onopen = () => {
+    wasOpen = true;
+    socket.send(JSON.stringify({ action: 'subscribe', token }));
+    pingTimer = window.setInterval(() => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ action: 'ping' }));
+    }, PING_INTERVAL_MS);
+    handlers.onOpen();
+  };
+  socket.onmessage = (e) => {
+    if (typeof e.data !== 'string') return;
+    const envelope = parseEnvelope(e.data);
+    if (envelope) handlers.onEnvelope(envelope);
+  };
+  socket.onerror = () => socket.close();
+  socket.onclose = finish;
+
+  return {
+    close: () => {
+      closed = true;
+      if (pingTimer) clearInterval(pingTimer);
+      socket.close();
+    },
+    send: (envelope) => {
+      if (socket.readyState !== WebSocket.OPEN) return false;
+      socket.send(JSON.stringify({ action: 'publish', ...envelope }));
+      return true;
+    }
+  };
+};
+
+const openEventSource: TransportOpener = (url, token, handlers) => {
+  const source = new EventSource(`${toHttpUrl(url)}/events?token=${encodeURIComponent(token)}`);
+  let wasOpen = false;
+  let closed = false;
+
+  source.onopen = () => {
+    wasOpen = true;
+    handlers.onOpen();
+  };
+  source.onmessage = (e) => {
+    const envelope = parseEnvelope(e.data);
+    if (envelope) handlers.onEnvelope(envelope);
+  };
+  // EventSource retries on its own; we close it and let the client apply its own backoff instead
+  source.onerror = () => {
+    if (closed) return;
+    closed = true;
+    source.close();
+    handlers.onClose(wasOpen);
+  };
+
+  return {
+    close: () => {
+      closed = true;
+      source.close();
+    }
+  };
+};
+
+const openLongPoll: TransportOpener = (url, token, handlers) => {
+  const controller = new AbortController();
+  let wasOpen = false;
+  let stopped = false;
+  let cursor: string | null = null;
+
+  const loop = async () => {
+    while (!stopped) {
+      try {
+        const query = `token=${encodeURIComponent(token)}${cursor ? `&cursor=${encodeURIComponent(cursor)}` : ''}`;
+        const res = await fetch(`${toHttpUrl(url)}/poll?${query}`, { signal: controller.signal });
+        if (!res.ok) throw new Error(`Poll failed: ${res.status}`);
+        const body = await res.json();
+
+        if (!wasOpen) {
+          wasOpen = true;
+          handlers.onOpen();
+        }
+        if (body?.cursor) cursor = String(body.cursor);
+        const events: any[] = Array.isArray(body?.events) ? body.events : [];
+        events.forEach((raw) => {
+          const envelope = normalizeEnvelope(raw);
+          if (envelope && !stopped) handlers.onEnvelope(envelope);
+        });
+      } catch (e) {
+        if (!stopped) {
+          stopped = true;
+          handlers.onClose(wasOpen);
+        }
+        return;
+      }
+    }
+  };
+  loop();
+
+  return {
+    close: () => {
+      stopped = true;
+      controller.abort();
+    }
+  };
+};
+
+const OPENERS: Record<RealtimeTransportKind, TransportOpener> = {
+  websocket: openWebSocket,
+  sse: openEventSource,
+  longpoll: openLongPoll
+};
+
+const isSupported = (kind: RealtimeTransportKind) => {
+  if (kind === 'websocket') return typeof WebSocket !== 'undefined';
+  if (kind === 'sse') return typeof EventSource !== 'undefined';
+  return typeof fetch !== 'undefined';
+};
+
+export const createRealtimeClient = (options: RealtimeClientOptions = {}) => {
+  const getUrl = options.getUrl || (() => getRealtimeConfig().url);
+  const kinds = (options.transports || ['websocket', 'sse', 'longpoll']).filter(isSupported);
+  const failuresBeforeFallback = options.failuresBeforeFallback ?? 2;
+  const backoffBaseMs = options.backoffBaseMs ?? 1000;
+  const backoffMaxMs = options.backoffMaxMs ?? 30000;
+
+  const listeners = new Set<EnvelopeListener>();
+  const statusListeners = new Set<StatusListener>();
+
+  let token: string | null = null;
+  let transport: Transport | null = null;
+  let transportIndex = 0;
+  let failures = 0;
+  let attempt = 0;
+  let generation = 0;
+  let reconnectTimer: number | null = null;
+  let status: RealtimeStatus = 'idle';
+
+  const setStatus = (next: RealtimeStatus) => {
+    status = next;
+    const kind = next === 'idle' ? null : kinds[transportIndex] || null;
+    statusListeners.forEach((listener) => listener(next, kind));
+  };
+
+  const teardown = () => {
+    generation++;
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+    }
+    transport?.close();
+    transport = null;
+  };
+
+  const scheduleReconnect = () => {
+    const delay = Math.min(backoffMaxMs, backoffBaseMs * 2 ** attempt) * (0.5 + Math.random() * 0.5);
+    attempt++;
+    setStatus('reconnecting');
+    reconnectTimer = window.setTimeout(() => {
+      reconnectTimer = null;
+      open();
+    }, delay);
+  };
+
+  const open = () => {
+    const url = getUrl();
+    if (!token || !url || kinds.length === 0) {
+      setStatus('idle');
+      return;
+    }
+
+    const current = ++generation;
+    const kind = kinds[transportIndex];
+    if (status !== 'reconnecting') setStatus('connecting');
+
+    transport = OPENERS[kind](url, token, {
+      onOpen: () => {
+        if (current !== generation) return;
+        attempt = 0;
+        failures = 0;
+        setStatus('open');
+      },
+      onEnvelope: (envelope) => {
+        if (current !== generation) return;
+        listeners.forEach((listener) => listener(envelope));
+      },
+      onClose: (wasOpen) => {
+        if (current !== generation) return;
+        transport = null;
+        if (!wasOpen) {
+          failures++;
+          if (failures >= failuresBeforeFallback && transportIndex < kinds.length - 1) {
+            console.warn(`Realtime: ${kind} unavailable, falling back to ${kinds[transportIndex + 1]}`);
+            transportIndex++;
+            failures = 0;
+            attempt = 0;
+          }
+        }
+        scheduleReconnect();
+      }
+    });
+  };
+
+  const handleOnline = () => {
+    if (status !== 'reconnecting') return;
+    teardown();
+    attempt = 0;
+    open();
+  };
+
+  return {
+    // (Re)subscribes with the given token. Calling it again with a new token tears down the
+    // current connection and starts over from the preferred transport.
+    connect: (nextToken: string) => {
+      if (nextToken === token && status !== 'idle') return;
+      teardown();
+      token = nextToken;
+      transportIndex = 0;
+      failures = 0;
+      attempt = 0;
+      window.addEventListener('online', handleOnline);
+      open();
+    },
+
+    disconnect: () => {
+      teardown();
+      token = null;
+      window.removeEventListener('online', handleOnline);
+      setStatus('idle');
+    },
+
+    send: (event: string, data: any) => {
+      const envelope = { event, data };
+      if (transport?.send && transport.send(envelope)) return;
+
+      const url = getUrl();
+      if (!token || !url) return;
+      fetch(`${toHttpUrl(url)}/publish`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
+        body: JSON.stringify(envelope)
+      }).catch(() => { /* best effort */ });
+    },
+
+    subscribe: (listener: EnvelopeListener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+
+    onStatusChange: (listener: StatusListener) => {
+      statusListeners.add(listener);
+      return () => { statusListeners.delete(listener); };
+    },
+
+    getStatus: () => status
+  };
+};
+
+export type RealtimeClient = ReturnType<typeof createRealtimeClient>;
+
+export const realtime = createRealtimeClient();
@@ -0,0 +1,59 @@
+// Date helpers for scheduled messages (see ScheduleModal and ScheduledMessagesModal)
+
+// The server job runs about once a minute, so anything sooner is really "send now"
+export const MIN_SCHEDULE_LEAD_MS = 60 * 1000;
+
+export const isValidSendTime = (date: Date | null, now = new Date()): date is Date =>
+  !!date && !isNaN(date.getTime()) && date.getTime() - now.getTime() >= MIN_SCHEDULE_LEAD_MS;
+
+const atTime = (base: Date, dayOffset: number, hours: number) => {
+  const date = new Date(base);
+  date.setDate(date.getDate() + dayOffset);
+  date.setHours(hours, 0, 0, 0);
+  return date;
+};
+
+export interface SchedulePreset {
+  label: string;
+  date: Date;
+}
+
+// Quick picks; ones that would already be in the past are left out
+export const getSchedulePresets = (now = new Date()): SchedulePreset[] => {
+  const inAnHour = new Date(now.getTime() + 60 * 60 * 1000);
+  inAnHour.setSeconds(0, 0);
+  const daysToMonday = ((8 - now.getDay()) % 7) || 7;
+  return [
+    { label: 'In 1 hour', date: inAnHour },
+    { label: 'This evening', date: atTime(now, 0, 20) },
+    { label: 'Tomorrow morning', date: atTime(now, 1, 9) },
+    { label: 'Monday morning', date: atTime(now, daysToMonday, 9) }
+  ].filter(preset => isValidSendTime(preset.date, now));
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// <input type="datetime-local"> works in local time without a zone
+export const toLocalInputValue = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+export const fromLocalInputValue = (value: string): Date | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// "today at 14:30", "tomorrow at 09:00", "Mon, Oct 20 at 09:00"
+export const formatSendTime = (date: Date, now = new Date()) => {
+  const time = date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  const days = Math.round((atTime(date, 0, 0).getTime() - atTime(now, 0, 0).getTime()) / (24 * 60 * 60 * 1000));
+  if (days === 0) return `today at ${time}`;
+  if (days === 1) return `tomorrow at ${time}`;
+  const day = date.toLocaleDateString([], {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: date.getFullYear() === now.getFullYear() ? undefined : 'numeric'
+  });
+  return `${day} at ${time}`;
+};
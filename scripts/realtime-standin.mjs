@@ -0,0 +1,213 @@
+// Local stand-in for the realtime gateway, speaking the wire protocol described at the top of
+// realtime.ts (WebSocket, SSE and long-poll). No dependencies, any token is accepted.
+//
+//   npm run realtime:standin            (PORT=8787 by default, PORT=0 picks a free one)
+//   localStorage.setItem('realtime_url', 'ws://localhost:8787')   in the app, then reload
+//
+// Whatever a client publishes goes to every other client, stamped with the sender's `user_id`
+// like the real gateway does: the `sub` claim of its token, or the token itself if it isn't a JWT.
+// For testing the app against server pushes, dropped connections and transport fallback:
+//   curl -X POST localhost:8787/emit -d '{"event":"message.new","data":{...}}'   pushes to everyone
+//   curl -X POST localhost:8787/drop                                             closes all connections
+//   curl -X POST localhost:8787/transports -d '{"refuse":["websocket"]}'         refuses new connections
+//                                                                                over those transports
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = process.env.PORT ? Number(process.env.PORT) : 8787;
+const POLL_TIMEOUT_MS = 25000;
+const HISTORY_SIZE = 500;
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const sockets = new Map(); // Open WebSocket connections -> the user id of their token
+const streams = new Set(); // Open SSE responses
+const waiting = new Set(); // Long-poll requests waiting for events: { res, cursor, timer }
+let history = []; // Recent envelopes with their sequence number, for long-poll cursors
+let seq = 0;
+let refused = new Set(); // Transports that currently turn new connections away
+
+const log = (...args) => console.log(new Date().toISOString().slice(11, 19), ...args);
+
+const userIdFromToken = (token) => {
+  if (!token) return null;
+  try {
+    const claims = JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString());
+    if (claims.sub) return String(claims.sub);
+  } catch { /* not a JWT */ }
+  return token;
+};
+
+// Clients never say who they are in the payload; the gateway knows from the connection
+const stamp = (data, userId) =>
+  data && typeof data === 'object' && !Array.isArray(data) && userId ? { ...data, user_id: userId } : data ?? null;
+
+// --- Fan-out ---
+
+const broadcast = (envelope, except) => {
+  const entry = { seq: ++seq, envelope };
+  history = [...history.slice(-(HISTORY_SIZE - 1)), entry];
+  const text = JSON.stringify(envelope);
+  sockets.forEach((_, socket) => { if (socket !== except) sendFrame(socket, text); });
+  streams.forEach(res => { if (res !== except) res.write(`data: ${text}\n\n`); });
+  waiting.forEach(answerPoll);
+  log(`-> ${envelope.event} (${sockets.size} ws, ${streams.size} sse, ${waiting.size} poll)`);
+};
+
+const answerPoll = (poll) => {
+  waiting.delete(poll);
+  clearTimeout(poll.timer);
+  const events = history.filter(e => e.seq > poll.cursor).map(e => e.envelope);
+  sendJson(poll.res, 200, { cursor: String(seq), events });
+};
+
+const dropAll = () => {
+  sockets.forEach((_, socket) => socket.destroy());
+  streams.forEach(res => res.end());
+  waiting.forEach(poll => { clearTimeout(poll.timer); poll.res.destroy(); });
+  sockets.clear();
+  streams.clear();
+  waiting.clear();
+};
+
+// --- WebSocket (RFC 6455, text frames only) ---
+
+const sendFrame = (socket, text, opcode = 0x1) => {
+  const payload = Buffer.from(text);
+  const header = payload.length < 126
+    ? Buffer.from([0x80 | opcode, payload.length])
+    : payload.length < 65536
+      ? Buffer.from([0x80 | opcode, 126, payload.length >> 8, payload.length & 0xff])
+      : Buffer.concat([Buffer.from([0x80 | opcode, 127]), (() => { const b = Buffer.alloc(8); b.writeBigUInt64BE(BigInt(payload.length)); return b; })()]);
+  if (!socket.destroyed) socket.write(Buffer.concat([header, payload]));
+};
+
+// Pulls complete frames off the buffer; returns what is left over
+const readFrames = (buffer, onFrame) => {
+  while (buffer.length >= 2) {
+    const opcode = buffer[0] & 0x0f;
+    const masked = (buffer[1] & 0x80) !== 0;
+    let length = buffer[1] & 0x7f;
+    let offset = 2;
+    if (length === 126) {
+      if (buffer.length < 4) break;
+      length = buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (buffer.length < 10) break;
+      length = Number(buffer.readBigUInt64BE(2));
+      offset = 10;
+    }
+    const maskOffset = offset;
+    if (masked) offset += 4;
+    if (buffer.length < offset + length) break;
+    const payload = Buffer.from(buffer.subarray(offset, offset + length));
+    if (masked) for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskOffset + (i % 4)];
+    onFrame(opcode, payload);
+    buffer = buffer.subarray(offset + length);
+  }
+  return buffer;
+};
+
+const handleUpgrade = (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (!key || refused.has('websocket')) return socket.destroy();
+  const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write(`HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\nSec-WebSocket-Accept: ${accept}\r\n\r\n`);
+  // Receives pushes right away, so nothing sent between the handshake and "subscribe" is missed
+  const token = new URL(req.url || '/', 'http://localhost').searchParams.get('token');
+  sockets.set(socket, userIdFromToken(token));
+
+  let pending = Buffer.alloc(0);
+  socket.on('data', chunk => {
+    pending = readFrames(Buffer.concat([pending, chunk]), (opcode, payload) => {
+      if (opcode === 0x8) return socket.end();
+      if (opcode === 0x9) return sendFrame(socket, payload.toString(), 0xa);
+      if (opcode !== 0x1) return;
+      let message;
+      try { message = JSON.parse(payload.toString()); } catch { return; }
+      if (message.action === 'subscribe') {
+        if (message.token) sockets.set(socket, userIdFromToken(message.token));
+        log(`ws subscribed as ${sockets.get(socket)} (${sockets.size})`);
+      } else if (message.action === 'publish' && typeof message.event === 'string') {
+        broadcast({ event: message.event, data: stamp(message.data, sockets.get(socket)) }, socket);
+      }
+    });
+  });
+  socket.on('end', () => socket.end());
+  socket.on('close', () => sockets.delete(socket));
+  socket.on('error', () => sockets.delete(socket));
+};
+
+// --- HTTP: SSE, long-poll, publish and the test hooks ---
+
+const CORS = { 'Access-Control-Allow-Origin': '*', 'Access-Control-Allow-Headers': 'Content-Type, Authorization', 'Access-Control-Allow-Methods': 'GET, POST, OPTIONS' };
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { ...CORS, 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise(resolve => {
+  let text = '';
+  req.on('data', chunk => { text += chunk; });
+  req.on('end', () => {
+    try { resolve(JSON.parse(text || 'null')); } catch { resolve(null); }
+  });
+});
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url || '/', `http://localhost:${PORT}`);
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS);
+    return res.end();
+  }
+
+  if (req.method === 'GET' && url.pathname === '/events') {
+    if (refused.has('sse')) return sendJson(res, 503, { error: 'SSE refused' });
+    res.writeHead(200, { ...CORS, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+    res.write(': connected\n\n');
+    streams.add(res);
+    req.on('close', () => streams.delete(res));
+    return;
+  }
+
+  if (req.method === 'GET' && url.pathname === '/poll') {
+    if (refused.has('longpoll')) return sendJson(res, 503, { error: 'Long-poll refused' });
+    // The first poll has no cursor and only learns where "now" is
+    const cursor = url.searchParams.has('cursor') ? Number(url.searchParams.get('cursor')) : seq;
+    const poll = { res, cursor, timer: null };
+    if (history.some(e => e.seq > cursor)) return answerPoll(poll);
+    poll.timer = setTimeout(() => answerPoll(poll), url.searchParams.has('cursor') ? POLL_TIMEOUT_MS : 0);
+    waiting.add(poll);
+    req.on('close', () => { clearTimeout(poll.timer); waiting.delete(poll); });
+    return;
+  }
+
+  // /publish is a client over a one-way transport, /emit the server itself
+  if (req.method === 'POST' && (url.pathname === '/publish' || url.pathname === '/emit')) {
+    const body = await readBody(req);
+    if (!body || typeof body.event !== 'string') return sendJson(res, 400, { error: 'Expected {"event": "...", "data": {...}}' });
+    const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+    broadcast({ event: body.event, data: url.pathname === '/publish' ? stamp(body.data, userIdFromToken(token)) : body.data ?? null });
+    return sendJson(res, 200, { ok: true });
+  }
+
+  if (req.method === 'POST' && url.pathname === '/transports') {
+    const body = await readBody(req);
+    refused = new Set(Array.isArray(body?.refuse) ? body.refuse : []);
+    log(`refusing: ${[...refused].join(', ') || 'nothing'}`);
+    return sendJson(res, 200, { ok: true });
+  }
+
+  if (req.method === 'POST' && url.pathname === '/drop') {
+    dropAll();
+    log('dropped all connections');
+    return sendJson(res, 200, { ok: true });
+  }
+
+  sendJson(res, 404, { error: 'Not found' });
+});
+
+server.on('upgrade', handleUpgrade);
+server.listen(PORT, () => log(`realtime stand-in on ws://localhost:${server.address().port} (SSE /events, long-poll /poll)`));
@@ -0,0 +1,108 @@
+// @vitest-environment jsdom
+// Runs the real transport code against scripts/realtime-standin.mjs: WebSocket first, then SSE and
+// long-poll as the stand-in refuses the transports before them.
+import { spawn, ChildProcess } from 'node:child_process';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { EventSource } from 'eventsource';
+import { createRealtimeClient, RealtimeClient, RealtimeEnvelope, RealtimeTransportKind } from '../realtime';
+
+const tokenFor = (sub: string) => `h.${Buffer.from(JSON.stringify({ sub })).toString('base64url')}.s`;
+
+const waitFor = async <T>(check: () => T | undefined | null | false, what: string, timeoutMs = 5000): Promise<T> => {
+  const started = Date.now();
+  for (;;) {
+    const value = check();
+    if (value) return value;
+    if (Date.now() - started > timeoutMs) throw new Error(`Timed out waiting for ${what}`);
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+let standin: ChildProcess;
+let httpUrl = '';
+
+const post = (path: string, body: unknown = {}) =>
+  fetch(`${httpUrl}${path}`, { method: 'POST', body: JSON.stringify(body) }).then(res => res.json());
+
+// A client plus everything it has seen
+const track = (name: string) => {
+  const client = createRealtimeClient({
+    getUrl: () => httpUrl.replace(/^http/, 'ws'),
+    failuresBeforeFallback: 1,
+    backoffBaseMs: 10,
+    backoffMaxMs: 50
+  });
+  const seen: RealtimeEnvelope[] = [];
+  let state: { status: string; kind: RealtimeTransportKind | null } = { status: 'idle', kind: null };
+  client.subscribe(envelope => seen.push(envelope));
+  client.onStatusChange((status, kind) => { state = { status, kind }; });
+  client.connect(tokenFor(name));
+  return {
+    client,
+    seen,
+    openOver: (kind: RealtimeTransportKind) => waitFor(() => state.status === 'open' && state.kind === kind, `${name} open over ${kind}`),
+    received: (event: string) => waitFor(() => seen.find(e => e.event === event), `${name} to receive ${event}`)
+  };
+};
+
+describe('realtime stand-in', () => {
+  let alice: ReturnType<typeof track>;
+  let bob: ReturnType<typeof track>;
+
+  beforeAll(async () => {
+    (globalThis as any).EventSource = EventSource;
+    standin = spawn(process.execPath, ['scripts/realtime-standin.mjs'], { env: { ...process.env, PORT: '0' } });
+    const port = await new Promise<string>((resolve, reject) => {
+      standin.stdout!.on('data', (chunk: Buffer) => {
+        const match = /ws:\/\/localhost:(\d+)/.exec(chunk.toString());
+        if (match) resolve(match[1]);
+      });
+      standin.once('exit', code => reject(new Error(`stand-in exited with ${code}`)));
+    });
+    httpUrl = `http://localhost:${port}`;
+  });
+
+  afterAll(() => {
+    alice?.client.disconnect();
+    bob?.client.disconnect();
+    standin?.kill();
+    delete (globalThis as any).EventSource;
+  });
+
+  it('relays over WebSocket with the sender stamped on', async () => {
+    alice = track('alice');
+    bob = track('bob');
+    await alice.openOver('websocket');
+    await bob.openOver('websocket');
+
+    alice.client.send('typing', { chat_id: 'c1', state: 'start', activity: 'typing' });
+    const typing = await bob.received('typing');
+    expect(typing.data).toEqual({ chat_id: 'c1', state: 'start', activity: 'typing', user_id: 'alice' });
+    expect(alice.seen.some(e => e.event === 'typing')).toBe(false);
+  });
+
+  it('falls back to SSE when WebSocket is refused', async () => {
+    await post('/transports', { refuse: ['websocket'] });
+    await post('/drop');
+    await alice.openOver('sse');
+    await bob.openOver('sse');
+
+    await post('/emit', { event: 'chat.removed', data: { chat_id: 'c2' } });
+    expect((await alice.received('chat.removed')).data).toEqual({ chat_id: 'c2' });
+
+    // One-way transport: publishing goes through POST /publish, stamped from the bearer token
+    bob.client.send('message.delivered', { chat_id: 'c1', message_ids: ['m1'] });
+    const delivered = await alice.received('message.delivered');
+    expect(delivered.data).toEqual({ chat_id: 'c1', message_ids: ['m1'], user_id: 'bob' });
+  });
+
+  it('falls back to long-poll when SSE is refused too', async () => {
+    await post('/transports', { refuse: ['websocket', 'sse'] });
+    await post('/drop');
+    await alice.openOver('longpoll');
+    await bob.openOver('longpoll');
+
+    await post('/emit', { event: 'chat.updated', data: { id: 'c3' } });
+    expect((await bob.received('chat.updated')).data).toEqual({ id: 'c3' });
+  });
+});
@@ -1,6 +1,38 @@
 import { create } from 'zustand';
-import { User, Chat, Message, UserStatus, MessageType } from './types';
+import { User, Chat, ChatRole, Contact, Draft, GroupInvite, Message, MessageRevision, Attachment, ForwardedFrom, PinnedMessage, ScheduledMessage, UserStatus, MessageType, RealtimeEvent, TypingActivity } from './types';
 import { api } from './api';
+import { realtime, RealtimeStatus } from './realtime';
+import { createTypingExpiry, createTypingNotifier } from './typing';
+import { createPresenceTracker } from './presence';
+import { createOutbox, OutboxFile, toPendingMessage } from './outbox';
+import { cache } from './cache';
+import { getMessagePreview, toReplyPreview } from './preview';
+import { canEditMessage } from './editing';
+import { applyReaction, hasReacted } from './reactions';
+import { extractMentions, mentionsUser } from './mentions';
+import { requestNotificationPermission, showNotification } from './notifications';
+import { findEmoji, SKIN_TONES } from './emoji';
+import { isGroupAdmin } from './chatInfo';
+import { getContactsConfig } from './constants';
+
+interface MessagePaging {
+  hasMoreOlder: boolean;
+  isLoadingOlder: boolean;
+}
+
+interface SendOptions {
+  attachments?: Attachment[];
+  replyToId?: string;
+  forwardedFrom?: ForwardedFrom;
+  noLinkPreview?: boolean;
+}
+
+// Older pages fetched at most while looking for a message to jump to (e.g. a reply's original)
+const MAX_JUMP_PAGES = 20;
+// Drafts are saved locally on every change, but only sent to the server once typing pauses
+const DRAFT_SYNC_DELAY_MS = 2000;
+// Length of the "Recent" row in the emoji picker
+const MAX_RECENT_EMOJI = 32;
 
 interface AppState {
   // UI State
@@ -14,27 +46,91 @@ interface AppState {
   // Settings UI State
   isSettingsOpen: boolean;
   setSettingsOpen: (isOpen: boolean) => void;
+  sidebarTab: 'chats' | 'contacts';
+  setSidebarTab: (tab: 'chats' | 'contacts') => void;
   notificationsEnabled: boolean;
   toggleNotifications: () => void;
 
   // Auth State
   currentUser: User | null;
+  hydrate: () => Promise<void>;
   login: (email: string, password?: string) => Promise<void>;
   signup: (email: string, username: string, password?: string) => Promise<void>;
   logout: () => void;
   updateUserProfile: (updates: Partial<User>) => Promise<void>;
 
+  // Presence: automatic ONLINE/AWAY unless the user picked a status by hand
+  isStatusManual: boolean;
+  setMyStatus: (status: UserStatus, options?: { text?: string; expiresAt?: Date }) => void;
+
   // Data State
+  realtimeStatus: RealtimeStatus;
   chats: Chat[];
+  contacts: Contact[]; // Accepted contacts and pending requests both ways
   activeChatId: string | null;
   messages: Record<string, Message[]>; // Keyed by ChatID
+  messagePaging: Record<string, MessagePaging>; // Keyed by ChatID
+  hiddenMessageIds: string[]; // Deleted "for me" on this device
+  scheduledMessages: Record<string, ScheduledMessage[]>; // Keyed by ChatID, soonest first
+  drafts: Record<string, Draft>; // Keyed by ChatID
+  recentEmoji: string[]; // Most recent first, without skin tones
+  emojiSkinTone: number; // Index into SKIN_TONES
   
   // Actions
   setActiveChat: (chatId: string) => void;
-  sendMessage: (chatId: string, content: string, type: MessageType, attachments?: any[]) => void;
-  createChat: (friendCode: string) => Promise<boolean>;
+  loadOlderMessages: (chatId: string) => Promise<void>;
+  loadUntilMessage: (chatId: string, messageId: string) => Promise<boolean>;
+  sendMessage: (chatId: string, content: string, type: MessageType, options?: SendOptions) => void;
+  setDraft: (chatId: string, text: string) => void;
+  recordEmojiUse: (emoji: string) => void;
+  setEmojiSkinTone: (tone: number) => void;
+  sendFile: (chatId: string, file: File | Blob, type: MessageType, options?: { name?: string; replyToId?: string }) => void;
+  editMessage: (chatId: string, messageId: string, content: string) => Promise<void>;
+  loadMessageRevisions: (chatId: string, messageId: string) => Promise<MessageRevision[]>;
+  deleteMessage: (chatId: string, messageId: string, scope: 'me' | 'everyone') => Promise<void>;
+  toggleReaction: (chatId: string, messageId: string, emoji: string) => Promise<void>;
+  forwardMessage: (message: Message, chatIds: string[]) => void;
+  loadScheduledMessages: (chatId: string) => Promise<void>;
+  scheduleMessage: (chatId: string, content: string, sendAt: Date, options?: { replyToId?: string; noLinkPreview?: boolean }) => Promise<void>;
+  updateScheduledMessage: (chatId: string, scheduledId: string, content: string, sendAt: Date) => Promise<void>;
+  cancelScheduledMessage: (chatId: string, scheduledId: string) => Promise<void>;
+  sendScheduledNow: (chatId: string, scheduledId: string) => Promise<void>;
+  pinMessage: (chatId: string, messageId: string) => Promise<void>;
+  unpinMessage: (chatId: string, messageId: string) => Promise<void>;
+  retryMessage: (messageId: string) => void;
+  discardMessage: (chatId: string, messageId: string) => void;
+  // Opens the direct chat with that person, creating it if needed; throws if they can't be messaged
+  createChat: (friendCode: string) => Promise<void>;
+  // Contacts; like the group actions these throw so the UI can report failures
+  sendFriendRequest: (friendCode: string) => Promise<Contact>;
+  acceptFriendRequest: (userId: string) => Promise<void>;
+  // Also declines their request or cancels ours
+  removeContact: (userId: string) => Promise<void>;
+  createGroup: (name: string, friendCodes: string[], avatar?: File) => Promise<void>;
+  // Group administration; these throw so the info panel can report failures
+  updateGroup: (chatId: string, changes: { name?: string; avatar?: File }) => Promise<void>;
+  addGroupMembers: (chatId: string, friendCodes: string[]) => Promise<void>;
+  removeGroupMember: (chatId: string, userId: string) => Promise<void>;
+  setGroupRole: (chatId: string, userId: string, role: ChatRole) => Promise<void>;
+  leaveGroup: (chatId: string) => Promise<void>;
+  loadGroupInvites: (chatId: string) => Promise<GroupInvite[]>;
+  createGroupInvite: (chatId: string, expiresAt?: Date) => Promise<GroupInvite>;
+  revokeGroupInvite: (chatId: string, inviteId: string) => Promise<void>;
+  joinGroupByInvite: (code: string) => Promise<void>;
+  markMessagesRead: (chatId: string, messageIds: string[]) => void;
+  markChatRead: (chatId: string) => void;
+  markChatUnread: (chatId: string) => void;
+  markAllChatsRead: () => void;
+  toggleChatMute: (chatId: string) => void;
+  notifyTyping: (chatId: string, activity: TypingActivity) => void;
+  stopTyping: (chatId: string) => void;
 }
 
+const typingNotifier = createTypingNotifier((chatId, activity) => {
+  const { event, data } = api.realtime.encodeTyping(chatId, activity);
+  realtime.send(event, data);
+});
+
 export const useStore = create<AppState>((set, get) => ({
   introPlayed: false,
   setIntroPlayed: (played) => set({ introPlayed: played }),
@@ -53,22 +149,66 @@ export const useStore = create<AppState>((set, get) => ({
 
   isSettingsOpen: false,
   setSettingsOpen: (isOpen) => set({ isSettingsOpen: isOpen }),
+  sidebarTab: 'chats',
+  setSidebarTab: (tab) => set({ sidebarTab: tab }),
   
   notificationsEnabled: true,
-  toggleNotifications: () => set((state) => ({ notificationsEnabled: !state.notificationsEnabled })),
+  toggleNotifications: () => {
+    if (!get().notificationsEnabled) requestNotificationPermission();
+    set((state) => ({ notificationsEnabled: !state.notificationsEnabled }));
+  },
 
   currentUser: null,
+
+  // Restores the last session from the offline cache, then reconciles it with the server
+  hydrate: async () => {
+    const token = localStorage.getItem('authToken');
+    if (!token || get().currentUser) return;
+
+    const snapshot = await cache.load();
+    if (!snapshot.user || get().currentUser) return;
+
+    set({ currentUser: snapshot.user, chats: snapshot.chats, messages: snapshot.messages });
+    startSession(snapshot.user, token);
+
+    try {
+      const user = await api.auth.getMe();
+      // Presence fields are owned by the presence tracker from here on
+      set((state) => ({
+        currentUser: state.currentUser ? {
+          ...user,
+          status: state.currentUser.status,
+          statusText: state.currentUser.statusText,
+          statusExpiresAt: state.currentUser.statusExpiresAt
+        } : state.currentUser
+      }));
+    } catch (e: any) {
+      if (e?.status === 401) {
+        get().logout();
+        return;
+      }
+      console.warn("Offline - showing cached data", e);
+    }
+
+    try {
+      const chats = await api.chats.list();
+      receiveChats(chats);
+    } catch (e) {
+      console.warn("Could not refresh chats", e);
+    }
+  },
   
   login: async (email, password) => {
     try {
       const { authToken, user } = await api.auth.login(email, password);
       localStorage.setItem('authToken', authToken);
       set({ currentUser: user });
+      startSession(user, authToken);
       
       // Fetch Chats after login
       try {
         const chats = await api.chats.list();
-        set({ chats });
+        receiveChats(chats);
       } catch (e) { console.warn("Could not fetch chats", e); }
 
     } catch (error) {
@@ -82,6 +222,7 @@ export const useStore = create<AppState>((set, get) => ({
       const { authToken, user } = await api.auth.signup(email, username, password);
       localStorage.setItem('authToken', authToken);
       set({ currentUser: user });
+      startSession(user, authToken);
     } catch (error) {
       console.error("Signup Failed:", error);
       throw error;
@@ -89,8 +230,16 @@ export const useStore = create<AppState>((set, get) => ({
   },
 
   logout: () => {
+    stopPresence();
+    outbox.stop();
+    // Reads the token itself, so the server-side session ends before we forget it
+    api.auth.logout().catch(() => {});
     localStorage.removeItem('authToken');
-    set({ currentUser: null, activeChatId: null, chats: [], isSettingsOpen: false });
+    typingNotifier.stopAll();
+    stopDraftSync();
+    disconnectRealtime();
+    set({ currentUser: null, activeChatId: null, chats: [], contacts: [], sidebarTab: 'chats', messages: {}, messagePaging: {}, hiddenMessageIds: [], scheduledMessages: {}, drafts: {}, recentEmoji: [], emojiSkinTone: 0, isSettingsOpen: false });
+    cache.clear();
   },
 
   updateUserProfile: async (updates) => {
@@ -116,102 +265,1224 @@ export const useStore = create<AppState>((set, get) => ({
     }
   },
 
+  realtimeStatus: 'idle',
+  isStatusManual: false,
+
+  setMyStatus: (status, options = {}) => {
+    const { currentUser } = get();
+    if (!currentUser) return;
+
+    if (statusExpiryTimer) clearTimeout(statusExpiryTimer);
+    statusExpiryTimer = null;
+
+    // Picking ONLINE hands control back to the idle / visibility tracker
+    const isManual = status !== UserStatus.ONLINE;
+    const effectiveStatus = isManual ? status : presenceTracker.getStatus();
+    const text = isManual ? options.text?.trim() || undefined : undefined;
+    const expiresAt = isManual ? options.expiresAt : undefined;
+
+    if (expiresAt) {
+      const delay = expiresAt.getTime() - Date.now();
+      if (delay <= 0) return get().setMyStatus(UserStatus.ONLINE);
+      statusExpiryTimer = window.setTimeout(() => get().setMyStatus(UserStatus.ONLINE), delay);
+    }
+
+    set({
+      isStatusManual: isManual,
+      currentUser: {
+        ...currentUser,
+        status: effectiveStatus,
+        statusText: text,
+        statusExpiresAt: expiresAt,
+        lastSeen: effectiveStatus === UserStatus.ONLINE ? currentUser.lastSeen : new Date()
+      }
+    });
+    api.users.setPresence(effectiveStatus, { text, expiresAt }).catch(e => console.warn("Failed to publish status", e));
+  },
+
   chats: [],
+  contacts: [],
   activeChatId: null,
   messages: {},
+  messagePaging: {},
+  hiddenMessageIds: [],
+  scheduledMessages: {},
+  drafts: {},
+  recentEmoji: [],
+  emojiSkinTone: 0,
 
   setActiveChat: async (chatId) => {
     set({ activeChatId: chatId, isMobileMenuOpen: false });
+    get().markChatRead(chatId);
+    // Opening a chat is a user gesture, which browsers want before asking for permission
+    if (get().notificationsEnabled) requestNotificationPermission();
+    get().loadScheduledMessages(chatId);
     
-    // Check if we already have messages or if we need to fetch
-    // (Always fetch to get latest, but UI is instant)
+    // Cached messages show instantly; the newest page is always fetched and merged over them
     try {
-      const messages = await api.messages.list(chatId);
-      set((state) => ({
-        messages: {
-          ...state.messages,
-          [chatId]: messages
-        }
-      }));
+      await loadLatestMessages(chatId);
     } catch (e) {
        console.warn("Failed to fetch messages for chat", chatId);
     }
   },
 
-  sendMessage: async (chatId, content, type, attachments = []) => {
+  loadOlderMessages: async (chatId) => {
+    const paging = get().messagePaging[chatId];
+    if (paging?.isLoadingOlder || paging?.hasMoreOlder === false) return;
+    const oldest = (get().messages[chatId] || []).find(m => !isQueued(m));
+    if (!oldest) return;
+
+    const setPaging = (update: Partial<MessagePaging>) => set((state) => ({
+      messagePaging: {
+        ...state.messagePaging,
+        [chatId]: { ...(state.messagePaging[chatId] || { hasMoreOlder: true, isLoadingOlder: false }), ...update }
+      }
+    }));
+
+    setPaging({ isLoadingOlder: true });
+    try {
+      const page = await api.messages.list(chatId, { before: oldest.id });
+      set((state) => {
+        const existing = state.messages[chatId] || [];
+        const known = new Set(existing.map(m => m.id));
+        return {
+          messages: { ...state.messages, [chatId]: [...page.messages.filter(m => !known.has(m.id)), ...existing] }
+        };
+      });
+      setPaging({ hasMoreOlder: page.hasMore, isLoadingOlder: false });
+    } catch (e) {
+      console.warn("Failed to load older messages", e);
+      setPaging({ isLoadingOlder: false });
+    }
+  },
+
+  // Pages back through history until the message is loaded; false if it can't be found
+  loadUntilMessage: async (chatId, messageId) => {
+    const isLoaded = () => (get().messages[chatId] || []).some(m => m.id === messageId);
+    for (let page = 0; page < MAX_JUMP_PAGES && !isLoaded(); page++) {
+      if (get().messagePaging[chatId]?.hasMoreOlder === false) break;
+      const countBefore = (get().messages[chatId] || []).length;
+      await get().loadOlderMessages(chatId);
+      if ((get().messages[chatId] || []).length === countBefore) break; // No progress (offline, or already loading)
+    }
+    return isLoaded();
+  },
+
+  sendMessage: (chatId, content, type, options = {}) => {
+    queueMessage(chatId, content, type, [], options);
+  },
+
+  setDraft: (chatId, text) => {
+    const { currentUser, drafts } = get();
+    if ((drafts[chatId]?.text || '') === text) return;
+    const draft: Draft = { text, updatedAt: new Date() };
+    set({ drafts: { ...drafts, [chatId]: draft } });
+    if (currentUser) saveDrafts(currentUser.id, get().drafts);
+    scheduleDraftSync(chatId, draft);
+  },
+
+  recordEmojiUse: (emoji) => {
+    const { currentUser, recentEmoji } = get();
+    const base = findEmoji(emoji)?.char || emoji;
+    set({ recentEmoji: [base, ...recentEmoji.filter(e => e !== base)].slice(0, MAX_RECENT_EMOJI) });
+    if (currentUser) saveEmojiPrefs(currentUser.id, get());
+  },
+
+  setEmojiSkinTone: (tone) => {
     const { currentUser } = get();
-    const tempId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    
-    // Create optimistic message
-    const newMessage: Message = {
-      id: tempId,
-      chatId,
-      senderId: currentUser?.id || 'me',
-      content,
-      type,
-      attachments,
-      createdAt: new Date(),
-      readBy: []
+    set({ emojiSkinTone: tone });
+    if (currentUser) saveEmojiPrefs(currentUser.id, get());
+  },
+
+  sendFile: (chatId, file, type, options = {}) => {
+    const fileName = options.name || (file as File).name || 'file.bin';
+    const mimeType = file.type || 'application/octet-stream';
+    const kind = type === MessageType.IMAGE ? 'image'
+      : type === MessageType.VIDEO ? 'video'
+      : type === MessageType.VOICE ? 'audio'
+      : 'file';
+    queueMessage(chatId, '', type, [{ id: createLocalId('file'), blob: file, name: fileName, mimeType, kind }], { replyToId: options.replyToId });
+  },
+
+  // Optimistic; reverts and rethrows if the server refuses (e.g. the edit window has passed)
+  editMessage: async (chatId, messageId, content) => {
+    const original = (get().messages[chatId] || []).find(m => m.id === messageId);
+    const text = content.trim();
+    if (!original || !text || text === original.content || !canEditMessage(original, get().currentUser?.id)) return;
+
+    const mentions = extractMentions(text, get().chats.find(c => c.id === chatId)?.participants || []);
+    updateMessages(chatId, [messageId], m => ({ ...m, content: text, mentions, editedAt: new Date() }));
+    try {
+      const saved = await api.messages.edit(chatId, messageId, text, mentions);
+      updateMessages(chatId, [messageId], m => ({ ...m, content: saved.content, mentions: saved.mentions, editedAt: saved.editedAt || m.editedAt }));
+    } catch (e) {
+      updateMessages(chatId, [messageId], m => ({ ...m, content: original.content, mentions: original.mentions, editedAt: original.editedAt }));
+      throw e;
+    }
+  },
+
+  loadMessageRevisions: (chatId, messageId) => api.messages.listRevisions(chatId, messageId),
+
+  // "me" only hides the message on this device; "everyone" soft-deletes it on the server,
+  // which also cleans up its files. Optimistic, reverts and rethrows on failure.
+  deleteMessage: async (chatId, messageId, scope) => {
+    const { currentUser } = get();
+    if (!currentUser) return;
+
+    if (scope === 'me') {
+      const hiddenMessageIds = [...get().hiddenMessageIds.filter(id => id !== messageId), messageId];
+      set({ hiddenMessageIds });
+      saveHiddenMessages(currentUser.id, hiddenMessageIds);
+      return;
+    }
+
+    const original = (get().messages[chatId] || []).find(m => m.id === messageId);
+    if (!original || original.senderId !== currentUser.id || original.isDeleted) return;
+
+    const originalPins = get().chats.find(c => c.id === chatId)?.pins;
+    updateMessages(chatId, [messageId], toDeletedMessage);
+    updateChatPins(chatId, pins => pins.filter(p => p.messageId !== messageId));
+    try {
+      await api.messages.delete(chatId, messageId);
+    } catch (e) {
+      updateMessages(chatId, [messageId], () => original);
+      updateChatPins(chatId, () => originalPins || []);
+      throw e;
+    }
+    // The files stay: forwards anywhere, including chats we can't see, may still point at them.
+    // The server removes a file once no Attachments row references it (see база.txt).
+  },
+
+  // Adds our reaction, or takes it back if it is already there. Optimistic; a failed request
+  // undoes just this change (others may have reacted meanwhile) and rethrows.
+  toggleReaction: async (chatId, messageId, emoji) => {
+    const userId = get().currentUser?.id;
+    const message = (get().messages[chatId] || []).find(m => m.id === messageId);
+    if (!userId || !message || message.isDeleted || isQueued(message)) return;
+
+    const added = !hasReacted(message.reactions, emoji, userId);
+    const react = (on: boolean) =>
+      updateMessages(chatId, [messageId], m => ({ ...m, reactions: applyReaction(m.reactions, emoji, userId, on) }));
+
+    react(added);
+    try {
+      if (added) await api.messages.addReaction(chatId, messageId, emoji);
+      else await api.messages.removeReaction(chatId, messageId, emoji);
+    } catch (e) {
+      react(!added);
+      throw e;
+    }
+  },
+
+  // Re-sends the message to each chat. Attachments keep their URLs, so nothing is uploaded again;
+  // forwarding a forward still credits the original author.
+  forwardMessage: (message, chatIds) => {
+    const { currentUser, chats } = get();
+    if (!currentUser || message.isDeleted || isQueued(message)) return;
+
+    const forwardedFrom = message.forwardedFrom || {
+      userId: message.senderId,
+      username: message.senderId === currentUser.id
+        ? currentUser.username
+        : chats.find(c => c.id === message.chatId)?.participants.find(p => p.id === message.senderId)?.username || 'Unknown'
     };
+    chatIds.forEach(chatId => queueMessage(chatId, message.content || '', message.type, [], {
+      attachments: message.attachments || [],
+      forwardedFrom,
+      noLinkPreview: message.noLinkPreview
+    }));
+  },
+
+  // Best effort: the list is only ours to manage, the server delivers regardless
+  loadScheduledMessages: async (chatId) => {
+    try {
+      const list = await api.scheduled.list(chatId);
+      setScheduled(chatId, () => list);
+    } catch (e) {
+      console.warn("Failed to load scheduled messages", e);
+    }
+  },
+
+  // Goes straight to the server rather than the outbox, since the server is what sends it later.
+  // Rethrows so the composer can keep the text.
+  scheduleMessage: async (chatId, content, sendAt, options = {}) => {
+    const text = content.trim();
+    if (!text) return;
+    const mentions = extractMentions(text, get().chats.find(c => c.id === chatId)?.participants || []);
+    const scheduled = await api.scheduled.create(chatId, text, sendAt, { ...options, mentions });
+    setScheduled(chatId, list => [...list.filter(s => s.id !== scheduled.id), scheduled]);
+  },
+
+  updateScheduledMessage: async (chatId, scheduledId, content, sendAt) => {
+    const text = content.trim();
+    if (!text) return;
+    const mentions = extractMentions(text, get().chats.find(c => c.id === chatId)?.participants || []);
+    const saved = await api.scheduled.update(chatId, scheduledId, { content: text, sendAt, mentions });
+    setScheduled(chatId, list => list.map(s => s.id === scheduledId ? saved : s));
+  },
+
+  // Optimistic; reverts and rethrows on failure
+  cancelScheduledMessage: async (chatId, scheduledId) => {
+    const original = (get().scheduledMessages[chatId] || []).find(s => s.id === scheduledId);
+    if (!original) return;
+    setScheduled(chatId, list => list.filter(s => s.id !== scheduledId));
+    try {
+      await api.scheduled.cancel(chatId, scheduledId);
+    } catch (e) {
+      setScheduled(chatId, list => [...list, original]);
+      throw e;
+    }
+  },
+
+  // Already-sent shows up as a failure here, so the list is reloaded to match the server either way
+  sendScheduledNow: async (chatId, scheduledId) => {
+    setScheduled(chatId, list => list.filter(s => s.id !== scheduledId));
+    try {
+      addMessage({ ...await api.scheduled.sendNow(chatId, scheduledId), status: 'sent' });
+    } finally {
+      get().loadScheduledMessages(chatId);
+    }
+  },
+
+  // Optimistic; the server's SYSTEM notice ("X pinned ...") is added as soon as it is returned
+  pinMessage: async (chatId, messageId) => {
+    const { currentUser } = get();
+    const message = (get().messages[chatId] || []).find(m => m.id === messageId);
+    if (!currentUser || !message || message.isDeleted || isQueued(message) || message.type === MessageType.SYSTEM) return;
+    if (get().chats.find(c => c.id === chatId)?.pins?.some(p => p.messageId === messageId)) return;
+
+    const pin: PinnedMessage = { messageId, pinnedBy: currentUser.id, pinnedAt: new Date(), message: toReplyPreview(message) };
+    updateChatPins(chatId, pins => [...pins, pin]);
+    try {
+      const notice = await api.chats.pin(chatId, messageId);
+      if (notice) addMessage(notice);
+    } catch (e) {
+      updateChatPins(chatId, pins => pins.filter(p => p.messageId !== messageId));
+      throw e;
+    }
+  },
+
+  unpinMessage: async (chatId, messageId) => {
+    const pin = get().chats.find(c => c.id === chatId)?.pins?.find(p => p.messageId === messageId);
+    if (!pin) return;
+
+    updateChatPins(chatId, pins => pins.filter(p => p.messageId !== messageId));
+    try {
+      await api.chats.unpin(chatId, messageId);
+    } catch (e) {
+      updateChatPins(chatId, pins => [...pins, pin].sort((a, b) => new Date(a.pinnedAt).getTime() - new Date(b.pinnedAt).getTime()));
+      throw e;
+    }
+  },
 
-    // 1. Optimistic Update
+  retryMessage: (messageId) => outbox.retry(messageId),
+
+  discardMessage: (chatId, messageId) => {
+    outbox.discard(messageId);
     set((state) => {
-      const chatMessages = state.messages[chatId] || [];
+      const chatMessages = (state.messages[chatId] || []).filter(m => m.id !== messageId);
+      return {
+        messages: { ...state.messages, [chatId]: chatMessages },
+        chats: state.chats.map(c => c.id === chatId && c.lastMessage?.id === messageId
+          ? { ...c, lastMessage: chatMessages[chatMessages.length - 1] }
+          : c)
+      };
+    });
+  },
+
+  createChat: async (friendCode) => {
+    const { chats, contacts, currentUser } = get();
+    if (friendCode === currentUser?.friendCode) throw new Error("That's your own friend code.");
+    const existing = chats.find(c => !c.isGroup && c.participants.some(p => p.friendCode === friendCode && p.id !== currentUser?.id));
+    if (existing) {
+      get().setActiveChat(existing.id);
+      return;
+    }
+    if (getContactsConfig().contactsOnlyChats && !contacts.some(c => c.status === 'ACCEPTED' && c.user.friendCode === friendCode)) {
+      throw new Error("You can only message your contacts. Send a friend request first.");
+    }
+
+    const newChat = await api.chats.create(friendCode);
+    set((state) => ({
+      chats: [newChat, ...state.chats.filter(c => c.id !== newChat.id)],
+      activeChatId: newChat.id,
+      isMobileMenuOpen: false
+    }));
+  },
+
+  sendFriendRequest: async (friendCode) => {
+    if (friendCode === get().currentUser?.friendCode) throw new Error("That's your own friend code.");
+    const contact = await api.contacts.request(friendCode);
+    upsertContact(contact);
+    return contact;
+  },
+
+  acceptFriendRequest: async (userId) => {
+    await api.contacts.accept(userId);
+    set((state) => ({
+      contacts: state.contacts.map(c => c.user.id === userId ? { ...c, status: 'ACCEPTED' } : c)
+    }));
+  },
+
+  removeContact: async (userId) => {
+    await api.contacts.remove(userId);
+    set((state) => ({ contacts: state.contacts.filter(c => c.user.id !== userId) }));
+  },
+
+  // Throws, so the form can say what went wrong and keep what was entered
+  createGroup: async (name, friendCodes, avatar) => {
+    requireContacts(friendCodes);
+    const avatarUrl = avatar ? await api.storage.upload(avatar) : undefined;
+    const group = await api.chats.createGroup(name.trim(), friendCodes, avatarUrl);
+    set((state) => ({
+      chats: [group, ...state.chats.filter(c => c.id !== group.id)],
+      activeChatId: group.id,
+      isMobileMenuOpen: false
+    }));
+  },
+
+  // The server posts the SYSTEM notice about each group change; it arrives like any other message
+  updateGroup: async (chatId, { name, avatar }) => {
+    const chat = get().chats.find(c => c.id === chatId);
+    if (!chat) return;
+    const newName = name?.trim();
+    const isRenamed = !!newName && newName !== chat.name;
+    const avatarUrl = avatar ? await api.storage.upload(avatar) : undefined;
+    if (!isRenamed && !avatarUrl) return;
+
+    await api.groups.update(chatId, { name: isRenamed ? newName : undefined, avatarUrl });
+    updateChat(chatId, c => ({ ...c, name: isRenamed ? newName : c.name, avatarUrl: avatarUrl || c.avatarUrl }));
+  },
+
+  addGroupMembers: async (chatId, friendCodes) => {
+    if (!get().chats.some(c => c.id === chatId) || friendCodes.length === 0) return;
+    requireContacts(friendCodes);
+    const group = await api.groups.addMembers(chatId, friendCodes);
+    updateChat(chatId, c => ({ ...c, participants: group.participants, memberRoles: group.memberRoles ?? c.memberRoles }));
+  },
+
+  removeGroupMember: async (chatId, userId) => {
+    if (!get().chats.find(c => c.id === chatId)?.participants.some(p => p.id === userId)) return;
+    await api.groups.removeMember(chatId, userId);
+    updateChat(chatId, c => {
+      const { [userId]: _, ...memberRoles } = c.memberRoles || {};
+      return { ...c, participants: c.participants.filter(p => p.id !== userId), memberRoles };
+    });
+  },
+
+  setGroupRole: async (chatId, userId, role) => {
+    if (!get().chats.find(c => c.id === chatId)?.participants.some(p => p.id === userId)) return;
+    await api.groups.setRole(chatId, userId, role);
+    updateChat(chatId, c => ({ ...c, memberRoles: { ...c.memberRoles, [userId]: role } }));
+  },
+
+  leaveGroup: async (chatId) => {
+    const { currentUser } = get();
+    const chat = get().chats.find(c => c.id === chatId);
+    if (!currentUser || !chat) return;
+    if (isLastAdmin(chat, currentUser.id)) {
+      throw new Error("You are the only admin. Make someone else an admin before leaving.");
+    }
+    await api.groups.leave(chatId);
+    removeChat(chatId);
+  },
+
+  loadGroupInvites: (chatId) => api.groups.listInvites(chatId),
+
+  createGroupInvite: (chatId, expiresAt) => api.groups.createInvite(chatId, expiresAt),
+
+  revokeGroupInvite: (chatId, inviteId) => api.groups.revokeInvite(chatId, inviteId),
+
+  joinGroupByInvite: async (code) => {
+    const group = await api.groups.joinByInvite(code);
+    set((state) => ({
+      chats: [group, ...state.chats.filter(c => c.id !== group.id)],
+      activeChatId: group.id,
+      isMobileMenuOpen: false
+    }));
+  },
+
+  markMessagesRead: (chatId, messageIds) => {
+    const { currentUser, messages } = get();
+    if (!currentUser) return;
+
+    const ids = new Set(messageIds);
+    const toMark = (messages[chatId] || []).filter(m =>
+      ids.has(m.id) && m.senderId !== currentUser.id && !m.readBy.includes(currentUser.id)
+    );
+    if (toMark.length === 0) return;
+
+    const markedIds = new Set(toMark.map(m => m.id));
+    const receipt = { userId: currentUser.id, readAt: new Date() };
+    set((state) => ({
+      messages: {
+        ...state.messages,
+        [chatId]: (state.messages[chatId] || []).map(m => markedIds.has(m.id) ? {
+          ...m,
+          readBy: [...m.readBy, currentUser.id],
+          readReceipts: [...(m.readReceipts || []), receipt]
+        } : m)
+      }
+    }));
+    queueReadSync(chatId, Array.from(markedIds));
+  },
+
+  markChatRead: (chatId) => {
+    const chat = get().chats.find(c => c.id === chatId);
+    if (!chat) return;
+    set((state) => ({
+      chats: state.chats.map(c => c.id === chatId ? { ...c, unreadCount: 0, unreadMentionCount: 0, markedUnread: false, lastReadAt: new Date() } : c)
+    }));
+    if (chat.unreadCount > 0 || chat.markedUnread) {
+      api.chats.markRead(chatId).catch(e => console.warn("Failed to sync read marker", e));
+    }
+  },
+
+  markChatUnread: (chatId) => {
+    set((state) => ({
+      chats: state.chats.map(c => c.id === chatId ? { ...c, markedUnread: true } : c),
+      // Leave the chat so it doesn't get marked read again straight away
+      activeChatId: state.activeChatId === chatId ? null : state.activeChatId
+    }));
+    api.chats.markUnread(chatId).catch(e => console.warn("Failed to mark chat unread", e));
+  },
+
+  markAllChatsRead: () => {
+    get().chats
+      .filter(c => c.unreadCount > 0 || c.markedUnread)
+      .forEach(c => get().markChatRead(c.id));
+  },
+
+  // Optimistic; a failed request puts the setting back
+  toggleChatMute: (chatId) => {
+    const chat = get().chats.find(c => c.id === chatId);
+    if (!chat) return;
+    const setMuted = (isMuted: boolean) => set((state) => ({
+      chats: state.chats.map(c => c.id === chatId ? { ...c, isMuted } : c)
+    }));
+    setMuted(!chat.isMuted);
+    api.chats.setMuted(chatId, !chat.isMuted).catch(e => {
+      console.warn("Failed to change chat mute", e);
+      setMuted(!!chat.isMuted);
+    });
+  },
+
+  notifyTyping: (chatId, activity) => typingNotifier.ping(chatId, activity),
+  stopTyping: (chatId) => typingNotifier.stop(chatId)
+}));
+
+// --- Session ---
+
+const startSession = (user: User, token: string) => {
+  useStore.setState({ hiddenMessageIds: loadHiddenMessages(user.id), drafts: loadDrafts(user.id), ...loadEmojiPrefs(user.id) });
+  connectRealtime(token, user.id);
+  startPresence(user);
+  restoreOutbox(user.id);
+  refreshContacts();
+};
+
+// Server lists replace ours (see reconcileChats) and may bring drafts from other devices
+const receiveChats = (chats: Chat[]) => {
+  const { drafts, activeChatId, currentUser } = useStore.getState();
+  const merged = mergeServerDrafts(drafts, chats, activeChatId);
+  useStore.setState((s) => ({ chats: reconcileChats(s.chats, chats), drafts: merged }));
+  if (merged !== drafts && currentUser) saveDrafts(currentUser.id, merged);
+};
+
+// --- Drafts ---
+
+// Per device like hidden messages, so a reload brings back what was being typed
+const draftsKey = (userId: string) => `drafts_${userId}`;
+
+const loadDrafts = (userId: string): Record<string, Draft> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(draftsKey(userId)) || '{}');
+    const drafts: Record<string, Draft> = {};
+    Object.entries(stored || {}).forEach(([chatId, d]: [string, any]) => {
+      if (typeof d?.text === 'string') drafts[chatId] = { text: d.text, updatedAt: new Date(d.updatedAt || 0) };
+    });
+    return drafts;
+  } catch (e) {
+    return {};
+  }
+};
+
+const saveDrafts = (userId: string, drafts: Record<string, Draft>) => {
+  localStorage.setItem(draftsKey(userId), JSON.stringify(drafts));
+};
+
+const draftSyncTimers = new Map<string, number>();
+
+const scheduleDraftSync = (chatId: string, draft: Draft) => {
+  clearTimeout(draftSyncTimers.get(chatId));
+  draftSyncTimers.set(chatId, window.setTimeout(() => {
+    draftSyncTimers.delete(chatId);
+    api.chats.saveDraft(chatId, draft).catch(e => console.warn("Could not sync draft", e));
+  }, DRAFT_SYNC_DELAY_MS));
+};
+
+const stopDraftSync = () => {
+  draftSyncTimers.forEach(timer => clearTimeout(timer));
+  draftSyncTimers.clear();
+};
+
+// A server draft only wins when it is newer than ours, i.e. it was written on another device.
+// The open chat is left alone so its composer never changes under the user's fingers.
+const mergeServerDrafts = (local: Record<string, Draft>, chats: Chat[], activeChatId: string | null): Record<string, Draft> => {
+  let merged = local;
+  chats.forEach(chat => {
+    const mine = merged[chat.id];
+    if (!chat.draft || chat.id === activeChatId || (mine && mine.updatedAt >= chat.draft.updatedAt)) return;
+    merged = { ...merged, [chat.id]: chat.draft };
+  });
+  return merged;
+};
+
+// --- Emoji ---
+
+const emojiPrefsKey = (userId: string) => `emoji_${userId}`;
+
+const loadEmojiPrefs = (userId: string): Pick<AppState, 'recentEmoji' | 'emojiSkinTone'> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(emojiPrefsKey(userId)) || '{}');
+    const tone = Number(stored?.skinTone);
+    return {
+      recentEmoji: Array.isArray(stored?.recent) ? stored.recent.map(String).slice(0, MAX_RECENT_EMOJI) : [],
+      emojiSkinTone: tone >= 0 && tone < SKIN_TONES.length ? tone : 0
+    };
+  } catch (e) {
+    return { recentEmoji: [], emojiSkinTone: 0 };
+  }
+};
+
+const saveEmojiPrefs = (userId: string, { recentEmoji, emojiSkinTone }: Pick<AppState, 'recentEmoji' | 'emojiSkinTone'>) => {
+  localStorage.setItem(emojiPrefsKey(userId), JSON.stringify({ recent: recentEmoji, skinTone: emojiSkinTone }));
+};
+
+// --- Deletion ---
+
+// "Deleted for me" is per device and survives logout, so it lives outside the offline cache
+const hiddenMessagesKey = (userId: string) => `hidden_messages_${userId}`;
+
+const loadHiddenMessages = (userId: string): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(hiddenMessagesKey(userId)) || '[]');
+    return Array.isArray(stored) ? stored.map(String) : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+const saveHiddenMessages = (userId: string, ids: string[]) => {
+  localStorage.setItem(hiddenMessagesKey(userId), JSON.stringify(ids));
+};
+
+const toDeletedMessage = (m: Message): Message => ({ ...m, content: '', attachments: [], reactions: [], isDeleted: true });
+
+// Server chats win, but keep client-only state (typing indicators) for chats we already had.
+// Backends without a mention counter report 0, so our own count stands while the chat is unread.
+const reconcileChats = (current: Chat[], server: Chat[]): Chat[] =>
+  server.map(chat => {
+    const existing = current.find(c => c.id === chat.id);
+    return existing ? {
+      ...chat,
+      pins: chat.pins ?? existing.pins,
+      unreadMentionCount: chat.unreadMentionCount || (chat.unreadCount > 0 ? existing.unreadMentionCount : 0),
+      typingUsers: existing.typingUsers,
+      typingActivity: existing.typingActivity
+    } : chat;
+  });
+
+// --- Outbox ---
+
+const createLocalId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+const outbox = createOutbox({
+  onSent: (item, message) => {
+    // Not every backend expands the replied-to message in its response
+    const savedMessage: Message = {
+      ...message,
+      replyTo: message.replyTo || item.replyTo,
+      forwardedFrom: message.forwardedFrom || item.forwardedFrom,
+      status: 'sent'
+    };
+    // Replace temp message with real one (the realtime echo may already have delivered it)
+    useStore.setState((state) => {
+      const chatMessages = state.messages[item.chatId] || [];
       return {
         messages: {
           ...state.messages,
-          [chatId]: [...chatMessages, newMessage]
+          [item.chatId]: chatMessages
+            .filter(m => m.id !== savedMessage.id)
+            .map(m => m.id === item.id ? savedMessage : m)
         },
-        chats: state.chats.map(c => 
-          c.id === chatId ? { ...c, lastMessage: newMessage } : c
+        chats: state.chats.map(c =>
+          c.id === item.chatId && (!c.lastMessage || c.lastMessage.id === item.id) ? { ...c, lastMessage: savedMessage } : c
         )
       };
     });
+  },
+  onUpdate: (item) => {
+    const status = item.status;
+    useStore.setState((state) => ({
+      messages: {
+        ...state.messages,
+        [item.chatId]: (state.messages[item.chatId] || []).map(m => m.id === item.id ? { ...m, status } : m)
+      },
+      chats: state.chats.map(c =>
+        c.id === item.chatId && c.lastMessage?.id === item.id ? { ...c, lastMessage: { ...c.lastMessage, status } } : c
+      )
+    }));
+  }
+});
 
-    // 2. Send to API
-    try {
-      const savedMessage = await api.messages.send(chatId, content, type, attachments);
-      
-      // Replace temp message with real one
-      set((state) => {
-          const chatMessages = state.messages[chatId] || [];
-          return {
-              messages: {
-                  ...state.messages,
-                  [chatId]: chatMessages.map(m => m.id === tempId ? savedMessage : m)
-              },
-              chats: state.chats.map(c => 
-                c.id === chatId ? { ...c, lastMessage: savedMessage } : c
-              )
-          };
+const queueMessage = (chatId: string, content: string, type: MessageType, files: OutboxFile[], options: SendOptions = {}) => {
+  const { currentUser, messages, chats } = useStore.getState();
+  const { replyToId } = options;
+  typingNotifier.stop(chatId);
+  const parent = replyToId ? (messages[chatId] || []).find(m => m.id === replyToId) : undefined;
+
+  const item = outbox.enqueue({
+    id: createLocalId('msg'),
+    userId: currentUser?.id || 'me',
+    chatId,
+    content,
+    type,
+    attachments: options.attachments || [],
+    files,
+    replyToId,
+    replyTo: parent ? toReplyPreview(parent) : undefined,
+    forwardedFrom: options.forwardedFrom,
+    noLinkPreview: options.noLinkPreview,
+    // A forward's mentions were meant for the people of the original chat
+    mentions: options.forwardedFrom ? undefined : extractMentions(content, chats.find(c => c.id === chatId)?.participants || []),
+    createdAt: new Date()
+  });
+  const newMessage = toPendingMessage(item);
+
+  // Optimistic Update - the bubble stays (pending / failed) until the outbox delivers it
+  useStore.setState((state) => {
+    const chatMessages = state.messages[chatId] || [];
+    return {
+      messages: {
+        ...state.messages,
+        [chatId]: [...chatMessages, newMessage]
+      },
+      chats: state.chats.map(c => 
+        c.id === chatId ? { ...c, lastMessage: newMessage } : c
+      )
+    };
+  });
+};
+
+const isQueued = (m: Message) => m.status === 'pending' || m.status === 'failed';
+
+const loadLatestMessages = async (chatId: string) => {
+  const page = await api.messages.list(chatId);
+  useStore.setState((state) => {
+    const existing = (state.messages[chatId] || []).filter(m => !isQueued(m));
+    const overlap = page.messages.length > 0 ? existing.findIndex(m => m.id === page.messages[0].id) : -1;
+    // Page connects to what we already have: keep the older history, otherwise start over from this page
+    const merged = overlap >= 0 ? [...existing.slice(0, overlap), ...page.messages] : page.messages;
+    const hasMoreOlder = overlap > 0 ? state.messagePaging[chatId]?.hasMoreOlder ?? true : page.hasMore;
+    return {
+      messages: { ...state.messages, [chatId]: withQueuedMessages(chatId, merged) },
+      messagePaging: { ...state.messagePaging, [chatId]: { hasMoreOlder, isLoadingOlder: false } }
+    };
+  });
+};
+
+// Server history never contains queued messages, so keep them at the end of the list
+const withQueuedMessages = (chatId: string, serverMessages: Message[]): Message[] => {
+  const queued = outbox.getItems(chatId).map(toPendingMessage);
+  if (queued.length === 0) return serverMessages;
+  const queuedIds = new Set(queued.map(m => m.id));
+  return [...serverMessages.filter(m => !queuedIds.has(m.id)), ...queued];
+};
+
+const restoreOutbox = async (userId: string) => {
+  const items = await outbox.load(userId);
+  if (items.length === 0) return;
+  useStore.setState((state) => {
+    const messages = { ...state.messages };
+    items.forEach(item => {
+      const pending = toPendingMessage(item);
+      messages[item.chatId] = upsertMessage(messages[item.chatId] || [], pending);
+    });
+    return { messages };
+  });
+};
+
+// --- Presence ---
+
+let statusExpiryTimer: number | null = null;
+
+const presenceTracker = createPresenceTracker({
+  onActivityChange: (status) => {
+    const { currentUser, isStatusManual } = useStore.getState();
+    if (!currentUser || isStatusManual || currentUser.status === status) return;
+    useStore.setState({
+      currentUser: { ...currentUser, status, lastSeen: status === UserStatus.AWAY ? new Date() : currentUser.lastSeen }
+    });
+    api.users.setPresence(status).catch(e => console.warn("Failed to publish presence", e));
+  },
+  onHeartbeat: () => {
+    const { currentUser } = useStore.getState();
+    if (currentUser) api.users.heartbeat(currentUser.status).catch(() => { /* next beat will retry */ });
+  },
+  onUnload: () => {
+    if (useStore.getState().currentUser) {
+      api.users.setPresence(UserStatus.OFFLINE, { keepalive: true }).catch(() => {});
+    }
+  }
+});
+
+const startPresence = (user: User) => {
+  // A BUSY status set on another session stays in force until it expires
+  const expiresAt = user.statusExpiresAt;
+  if (user.status === UserStatus.BUSY && (!expiresAt || expiresAt.getTime() > Date.now())) {
+    useStore.getState().setMyStatus(UserStatus.BUSY, { text: user.statusText, expiresAt });
+  } else {
+    useStore.setState({ isStatusManual: false });
+  }
+  presenceTracker.start();
+};
+
+const stopPresence = () => {
+  presenceTracker.stop();
+  if (statusExpiryTimer) clearTimeout(statusExpiryTimer);
+  statusExpiryTimer = null;
+  // Sent before the token is cleared so the request is still authenticated
+  if (useStore.getState().currentUser) {
+    api.users.setPresence(UserStatus.OFFLINE).catch(() => {});
+  }
+  useStore.setState({ isStatusManual: false });
+};
+
+// --- Realtime Delivery ---
+
+// Inserts a message or replaces the copy with the same id, keeping chronological order
+const upsertMessage = (list: Message[], message: Message): Message[] => {
+  if (list.some(m => m.id === message.id)) {
+    return list.map(m => m.id === message.id ? message : m);
+  }
+  const next = [...list, message];
+  if (list.length > 0 && list[list.length - 1].createdAt > message.createdAt) {
+    next.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+  return next;
+};
+
+const isNewer = (a?: Message, b?: Message) =>
+  !b || (!!a && new Date(a.createdAt).getTime() >= new Date(b.createdAt).getTime());
+
+// A message we created outside the outbox (e.g. a SYSTEM notice); the realtime echo may beat it here
+const addMessage = (message: Message) => {
+  useStore.setState((s) => ({
+    messages: { ...s.messages, [message.chatId]: upsertMessage(s.messages[message.chatId] || [], message) },
+    chats: s.chats.map(c => c.id === message.chatId && isNewer(message, c.lastMessage) ? { ...c, lastMessage: message } : c)
+  }));
+};
+
+// --- Scheduled messages ---
+
+const setScheduled = (chatId: string, update: (list: ScheduledMessage[]) => ScheduledMessage[]) => {
+  useStore.setState((s) => ({
+    scheduledMessages: {
+      ...s.scheduledMessages,
+      [chatId]: update(s.scheduledMessages[chatId] || []).sort((a, b) => a.sendAt.getTime() - b.sendAt.getTime())
+    }
+  }));
+};
+
+// --- Pins ---
+
+const updateChatPins = (chatId: string, update: (pins: PinnedMessage[]) => PinnedMessage[]) => {
+  useStore.setState((s) => ({
+    chats: s.chats.map(c => c.id === chatId ? { ...c, pins: update(c.pins || []) } : c)
+  }));
+};
+
+// --- Groups ---
+
+const updateChat = (chatId: string, update: (chat: Chat) => Chat) => {
+  useStore.setState((s) => ({ chats: s.chats.map(c => c.id === chatId ? update(c) : c) }));
+};
+
+// After we left or were removed; the server won't send us anything more about this chat
+const removeChat = (chatId: string) => {
+  useStore.setState((s) => {
+    const { [chatId]: _messages, ...messages } = s.messages;
+    const { [chatId]: _paging, ...messagePaging } = s.messagePaging;
+    const { [chatId]: _scheduled, ...scheduledMessages } = s.scheduledMessages;
+    return {
+      chats: s.chats.filter(c => c.id !== chatId),
+      messages,
+      messagePaging,
+      scheduledMessages,
+      activeChatId: s.activeChatId === chatId ? null : s.activeChatId
+    };
+  });
+};
+
+const isLastAdmin = (chat: Chat, userId: string) =>
+  chat.isGroup && isGroupAdmin(chat, userId) && chat.participants.length > 1 &&
+  !chat.participants.some(p => p.id !== userId && isGroupAdmin(chat, p.id));
+
+// --- Contacts ---
+
+// Not kept in the offline cache; without a connection the list just stays as it is
+const refreshContacts = () =>
+  api.contacts.list()
+    .then(contacts => useStore.setState({ contacts }))
+    .catch(e => console.warn("Could not load contacts", e));
+
+// Being put in a group needs the same consent as a direct chat. The server enforces it too;
+// this only saves the round trip and names who is missing.
+const requireContacts = (friendCodes: string[]) => {
+  if (!getContactsConfig().contactsOnlyChats) return;
+  const { contacts } = useStore.getState();
+  const strangers = friendCodes.filter(code => !contacts.some(c => c.status === 'ACCEPTED' && c.user.friendCode === code));
+  if (strangers.length > 0) {
+    throw new Error(`Only your contacts can be added to a group. Send a friend request to ${strangers.map(code => `#${code}`).join(', ')} first.`);
+  }
+};
+
+const upsertContact = (contact: Contact) => {
+  useStore.setState((s) => ({
+    contacts: [contact, ...s.contacts.filter(c => c.user.id !== contact.user.id)]
+  }));
+};
+
+// New requests to us, and our requests being accepted
+const notifyContactChange = (contact: Contact, previous?: Contact) => {
+  const { notificationsEnabled, setSidebarTab } = useStore.getState();
+  if (!notificationsEnabled || previous?.status === contact.status) return;
+  const { user } = contact;
+  if (contact.status === 'PENDING' && contact.isIncoming) {
+    showNotification(`${user.username} sent you a friend request`, {
+      body: `Friend code #${user.friendCode}`,
+      tag: `contact_${user.id}`,
+      icon: user.avatarUrl,
+      onClick: () => setSidebarTab('contacts')
+    });
+  } else if (contact.status === 'ACCEPTED' && !contact.isIncoming) {
+    showNotification(`${user.username} accepted your friend request`, {
+      body: 'You can message each other now',
+      tag: `contact_${user.id}`,
+      icon: user.avatarUrl,
+      onClick: () => setSidebarTab('contacts')
+    });
+  }
+};
+
+// --- Read Receipts ---
+
+// Messages scrolled into view in quick succession are batched into a single request per chat
+const READ_SYNC_DELAY_MS = 500;
+const pendingReads = new Map<string, Set<string>>();
+let readSyncTimer: number | null = null;
+
+const flushReadSync = () => {
+  readSyncTimer = null;
+  const batches = Array.from(pendingReads.entries());
+  pendingReads.clear();
+  batches.forEach(([chatId, ids]) => {
+    api.messages.markRead(chatId, Array.from(ids)).catch(e => console.warn("Failed to sync read receipts", e));
+  });
+};
+
+const queueReadSync = (chatId: string, messageIds: string[]) => {
+  const ids = pendingReads.get(chatId) || new Set<string>();
+  messageIds.forEach(id => ids.add(id));
+  pendingReads.set(chatId, ids);
+  if (!readSyncTimer) readSyncTimer = window.setTimeout(flushReadSync, READ_SYNC_DELAY_MS);
+};
+
+const updateMessages = (chatId: string, messageIds: string[], update: (m: Message) => Message) => {
+  const ids = new Set(messageIds);
+  useStore.setState((s) => {
+    if (!s.messages[chatId]) return s;
+    return {
+      messages: { ...s.messages, [chatId]: s.messages[chatId].map(m => ids.has(m.id) ? update(m) : m) },
+      chats: s.chats.map(c => c.id === chatId && c.lastMessage && ids.has(c.lastMessage.id)
+        ? { ...c, lastMessage: update(c.lastMessage) }
+        : c)
+    };
+  });
+};
+
+// --- Typing Indicators ---
+
+const typingExpiry = createTypingExpiry((chatId, userId) => setUserTyping(chatId, userId, null));
+
+const setUserTyping = (chatId: string, userId: string, activity: TypingActivity | null) => {
+  typingExpiry.track(chatId, userId, !!activity);
+
+  useStore.setState((s) => ({
+    chats: s.chats.map(c => {
+      if (c.id !== chatId) return c;
+      const { [userId]: _, ...restActivity } = c.typingActivity || {};
+      const others = c.typingUsers.filter(id => id !== userId);
+      return activity
+        ? { ...c, typingUsers: [...others, userId], typingActivity: { ...restActivity, [userId]: activity } }
+        : { ...c, typingUsers: others, typingActivity: restActivity };
+    })
+  }));
+};
+
+// Unless the chat is open and on screen. Muted chats stay quiet except when we are mentioned.
+const notifyIncoming = (message: Message) => {
+  const { currentUser, chats, activeChatId, notificationsEnabled } = useStore.getState();
+  const chat = chats.find(c => c.id === message.chatId);
+  if (!currentUser || !chat || !notificationsEnabled || message.type === MessageType.SYSTEM) return;
+  if (activeChatId === chat.id && document.visibilityState === 'visible') return;
+
+  const isMention = mentionsUser(message, currentUser.id);
+  if (chat.isMuted && !isMention) return;
+
+  const sender = chat.participants.find(p => p.id === message.senderId);
+  const senderName = sender?.username || 'Someone';
+  const where = chat.isGroup && chat.name ? ` in ${chat.name}` : '';
+  showNotification(isMention ? `${senderName} mentioned you${where}` : `${senderName}${where}`, {
+    body: getMessagePreview(message) || 'New message',
+    tag: `chat_${chat.id}`,
+    icon: sender?.avatarUrl,
+    onClick: () => useStore.getState().setActiveChat(chat.id)
+  });
+};
+
+const applyRealtimeEvent = (event: RealtimeEvent) => {
+  const state = useStore.getState();
+
+  switch (event.type) {
+    case 'message.new': {
+      const { message } = event;
+      // A delivered message ends whatever the sender was typing / recording
+      if (state.chats.find(c => c.id === message.chatId)?.typingUsers.includes(message.senderId)) {
+        setUserTyping(message.chatId, message.senderId, null);
+      }
+      if (message.senderId !== state.currentUser?.id) {
+        const { event: ack, data } = api.realtime.encodeDelivered(message.chatId, [message.id]);
+        realtime.send(ack, data);
+      }
+      if (!state.chats.some(c => c.id === message.chatId)) {
+        // Message for a chat we don't know yet (e.g. someone just started it) - refresh the list
+        api.chats.list()
+          .then(receiveChats)
+          .catch(e => console.warn("Could not refresh chats", e));
+      }
+      const isIncoming = message.senderId !== state.currentUser?.id && !state.messages[message.chatId]?.some(m => m.id === message.id);
+      const isUnread = isIncoming && state.activeChatId !== message.chatId;
+      const isMention = mentionsUser(message, state.currentUser?.id);
+      useStore.setState((s) => ({
+        messages: {
+          ...s.messages,
+          [message.chatId]: upsertMessage(s.messages[message.chatId] || [], message)
+        },
+        chats: s.chats.map(c => c.id !== message.chatId ? c : {
+          ...c,
+          lastMessage: isNewer(message, c.lastMessage) ? message : c.lastMessage,
+          // The open chat gets its messages marked read as they scroll into view instead
+          unreadCount: isUnread ? c.unreadCount + 1 : c.unreadCount,
+          unreadMentionCount: isUnread && isMention ? (c.unreadMentionCount || 0) + 1 : c.unreadMentionCount
+        })
+      }));
+      if (isIncoming) notifyIncoming(message);
+      break;
+    }
+
+    case 'message.deleted':
+      updateMessages(event.chatId, [event.messageId], toDeletedMessage);
+      break;
+
+    // Reactions change messages in place, so nothing moves in the conversation or chat list
+    case 'message.reaction':
+      updateMessages(event.chatId, [event.messageId], (m) => ({
+        ...m,
+        reactions: applyReaction(m.reactions, event.emoji, event.userId, event.added)
+      }));
+      break;
+
+    case 'message.updated': {
+      const { message } = event;
+      if (message.isDeleted) {
+        updateMessages(message.chatId, [message.id], toDeletedMessage);
+        break;
+      }
+      // Stale pushes (an older edit arriving late) must not undo a newer one
+      updateMessages(message.chatId, [message.id], (m) =>
+        m.editedAt && message.editedAt && new Date(m.editedAt) > message.editedAt ? m : {
+          ...m,
+          content: message.content,
+          mentions: message.mentions,
+          editedAt: message.editedAt
+        });
+      break;
+    }
+
+    case 'chat.updated':
+      useStore.setState((s) => ({
+        chats: s.chats.map(c => c.id === event.chat.id ? {
+          ...c,
+          ...event.chat,
+          // Keep client-side state that the server payload does not carry
+          participants: event.chat.participants.length > 0 ? event.chat.participants : c.participants,
+          memberRoles: event.chat.memberRoles ?? c.memberRoles,
+          lastMessage: isNewer(event.chat.lastMessage, c.lastMessage) ? event.chat.lastMessage : c.lastMessage,
+          pins: event.chat.pins ?? c.pins,
+          unreadCount: c.unreadCount,
+          unreadMentionCount: c.unreadMentionCount,
+          // Ours alone, so never part of a broadcast
+          isMuted: c.isMuted,
+          draft: c.draft,
+          typingUsers: c.typingUsers,
+          typingActivity: c.typingActivity
+        } : c)
+      }));
+      break;
+
+    case 'chat.pins':
+      updateChatPins(event.chatId, () => event.pins);
+      break;
+
+    case 'scheduled.sent':
+      setScheduled(event.chatId, list => list.filter(s => s.id !== event.scheduledId));
+      break;
+
+    case 'chat.new':
+      useStore.setState((s) => (
+        s.chats.some(c => c.id === event.chat.id) ? s : { chats: [event.chat, ...s.chats] }
+      ));
+      break;
+
+    case 'chat.removed':
+      removeChat(event.chatId);
+      break;
+
+    case 'contact.updated': {
+      const previous = state.contacts.find(c => c.user.id === event.contact.user.id);
+      upsertContact(event.contact);
+      notifyContactChange(event.contact, previous);
+      break;
+    }
+
+    case 'contact.removed':
+      useStore.setState((s) => ({ contacts: s.contacts.filter(c => c.user.id !== event.userId) }));
+      break;
+
+    case 'message.read':
+      updateMessages(event.chatId, event.messageIds, (m) => m.readBy.includes(event.userId) ? m : {
+        ...m,
+        readBy: [...m.readBy, event.userId],
+        readReceipts: [...(m.readReceipts || []), { userId: event.userId, readAt: event.readAt }]
       });
-    } catch (e) {
-      console.error("Failed to send message", e);
-      // Remove the failed message
-      set((state) => {
-        const chatMessages = state.messages[chatId] || [];
-        return {
-            messages: {
-                ...state.messages,
-                [chatId]: chatMessages.filter(m => m.id !== tempId)
-            }
-        };
+      break;
+
+    case 'message.delivered':
+      updateMessages(event.chatId, event.messageIds, (m) => m.deliveredTo?.includes(event.userId) ? m : {
+        ...m,
+        deliveredTo: [...(m.deliveredTo || []), event.userId]
       });
-      // Optionally notify user via a toast
-    }
-  },
+      break;
 
-  createChat: async (friendCode) => {
-    try {
-      const newChat = await api.chats.create(friendCode);
-      set((state) => ({
-        chats: [newChat, ...state.chats],
-        activeChatId: newChat.id
+    case 'presence': {
+      if (event.userId === state.currentUser?.id) break;
+      const { type, userId, ...presence } = event;
+      useStore.setState((s) => ({
+        chats: s.chats.map(c => c.participants.some(p => p.id === userId) ? {
+          ...c,
+          participants: c.participants.map(p => p.id === userId ? { ...p, ...presence, lastSeen: presence.lastSeen || p.lastSeen } : p)
+        } : c),
+        contacts: s.contacts.map(c => c.user.id === userId ? {
+          ...c,
+          user: { ...c.user, ...presence, lastSeen: presence.lastSeen || c.user.lastSeen }
+        } : c)
       }));
-      return true;
-    } catch (e) {
-      console.error("API Create Chat failed", e);
-      return false;
+      break;
+    }
+
+    case 'typing':
+      if (event.userId === state.currentUser?.id) break;
+      setUserTyping(event.chatId, event.userId, event.activity);
+      break;
+  }
+};
+
+// After a dropped connection we may have missed pushes, so re-fetch what is on screen
+const resyncAfterReconnect = async () => {
+  const { activeChatId } = useStore.getState();
+  refreshContacts();
+  try {
+    const chats = await api.chats.list();
+    receiveChats(chats);
+    if (!activeChatId) return;
+
+    // Only fetch what arrived after the last message we have; a full page back means
+    // the gap is bigger than one page, so reload the newest page instead
+    const known = (useStore.getState().messages[activeChatId] || []).filter(m => !isQueued(m));
+    const lastKnown = known[known.length - 1];
+    const page = lastKnown ? await api.messages.list(activeChatId, { after: lastKnown.id }) : null;
+    if (!page || page.hasMore) {
+      await loadLatestMessages(activeChatId);
+      return;
     }
+    useStore.setState((s) => ({
+      messages: {
+        ...s.messages,
+        [activeChatId]: page.messages.reduce(upsertMessage, s.messages[activeChatId] || [])
+      }
+    }));
+  } catch (e) {
+    console.warn("Realtime resync failed", e);
+  }
+};
+
+let realtimeSubscriptions: Array<() => void> = [];
+
+// `userId` is fixed for the life of the subscriptions; logout tears them down
+const connectRealtime = (token: string, userId: string) => {
+  if (realtimeSubscriptions.length === 0) {
+    let hasBeenOpen = false;
+    realtimeSubscriptions = [
+      realtime.subscribe((envelope) => {
+        // A push that lands while signing out has no one to go to
+        if (!useStore.getState().currentUser) return;
+        const event = api.realtime.decode(envelope, userId);
+        if (event) applyRealtimeEvent(event);
+      }),
+      // The gateway would keep rejecting the token we connected with once it expires
+      api.auth.onTokenChange(nextToken => realtime.connect(nextToken)),
+      realtime.onStatusChange((status) => {
+        useStore.setState({ realtimeStatus: status });
+        if (status === 'open') {
+          if (hasBeenOpen) resyncAfterReconnect();
+          hasBeenOpen = true;
+          outbox.flush();
+        }
+      })
+    ];
+  }
+  realtime.connect(token);
+};
+
+const disconnectRealtime = () => {
+  realtimeSubscriptions.forEach(unsubscribe => unsubscribe());
+  realtimeSubscriptions = [];
+  realtime.disconnect();
+  useStore.setState({ realtimeStatus: 'idle' });
+};
+
+// --- Offline Cache ---
+
+// Mirror data changes into IndexedDB (writes are batched inside the cache module)
+useStore.subscribe((state, prev) => {
+  if (!state.currentUser) return;
+  if (state.currentUser !== prev.currentUser) cache.saveUser(state.currentUser);
+  if (state.chats !== prev.chats) cache.saveChats(state.chats);
+  if (state.messages !== prev.messages) {
+    Object.keys(state.messages).forEach(chatId => {
+      if (state.messages[chatId] !== prev.messages[chatId]) cache.saveMessages(chatId, state.messages[chatId]);
+    });
   }
-}));
\ No newline at end of file
+});
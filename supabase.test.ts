@@ -0,0 +1,49 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { supabaseBackend } from './supabase';
+
+const tokenFor = (sub: string, version: number) => `h.${btoa(JSON.stringify({ sub, v: version }))}.s`;
+
+const json = (status: number, body: unknown) => new Response(JSON.stringify(body), { status });
+
+describe('supabase session refresh', () => {
+  beforeEach(() => {
+    localStorage.setItem('authToken', tokenFor('u1', 1));
+    localStorage.setItem('supabase_refresh_token', 'refresh-1');
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+    vi.unstubAllGlobals();
+  });
+
+  it('tells token listeners about a refreshed token and retries with it', async () => {
+    const fresh = tokenFor('u1', 2);
+    const fetchMock = vi.fn(async (url: string, init: RequestInit = {}) => {
+      if (url.includes('grant_type=refresh_token')) return json(200, { access_token: fresh, refresh_token: 'refresh-2' });
+      const auth = (init.headers as Record<string, string>)['Authorization'];
+      return auth === `Bearer ${fresh}` ? json(200, [{ id: 'u1', username: 'ann' }]) : json(401, { message: 'JWT expired' });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const listener = vi.fn();
+    const unsubscribe = supabaseBackend.auth.onTokenChange(listener);
+    const me = await supabaseBackend.auth.getMe();
+    unsubscribe();
+
+    expect(me.username).toBe('ann');
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(fresh);
+    expect(localStorage.getItem('authToken')).toBe(fresh);
+    expect(localStorage.getItem('supabase_refresh_token')).toBe('refresh-2');
+  });
+
+  it('leaves listeners alone when the refresh fails', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => json(401, { message: 'JWT expired' })));
+    const listener = vi.fn();
+    const unsubscribe = supabaseBackend.auth.onTokenChange(listener);
+    await expect(supabaseBackend.auth.getMe()).rejects.toMatchObject({ status: 401 });
+    unsubscribe();
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
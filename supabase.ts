@@ -0,0 +1,742 @@
+import { getSupabaseConfig, generateFriendCode } from './constants';
+import { User, Message, Chat, ChatRole, Contact, GroupInvite, Attachment, Draft, Mention, ScheduledMessage, MessageRevision, MessageType, UserStatus, MessageCursor, MessagePage } from './types';
+import { BackendAdapter, AuthResult, PresenceOptions, SendMessageOptions, GroupChanges, ScheduledMessageChanges, MESSAGE_PAGE_SIZE, mapUser, mapMessage, mapChat, mapContact, mapGroupInvite, mapRevisions, mapScheduledMessage, mapScheduledMessages, toMentionRows, realtimeCodec, supabaseStorage } from './backend';
+import { RealtimeEnvelope } from './realtime';
+
+// Supabase implementation: Supabase Auth for accounts, PostgREST for the tables from база.txt
+// (users, chats, chat_members, messages, attachments, message_reads, message_edits, message_reactions,
+// chat_pins, scheduled_messages, group_invites, contacts). Row level security is expected to restrict every query to the chats the signed-in user is a member of.
+
+const REFRESH_TOKEN_KEY = 'supabase_refresh_token';
+
+interface SupabaseRequestInit extends RequestInit {
+  silent?: boolean;
+  prefer?: string; // PostgREST `Prefer` header, e.g. return=representation
+}
+
+// Helper to handle authentication headers; signed-out requests go as the anon role
+const getHeaders = () => {
+  const { key } = getSupabaseConfig();
+  const token = localStorage.getItem('authToken');
+  return {
+    'Content-Type': 'application/json',
+    'apikey': key,
+    'Authorization': `Bearer ${token || key}`,
+  };
+};
+
+const unauthorized = () => {
+  const error = new Error("Not signed in");
+  (error as any).status = 401;
+  return error;
+};
+
+// The signed-in user's id is the `sub` claim of the access token
+const getSessionUserId = (): string => {
+  const payload = localStorage.getItem('authToken')?.split('.')[1];
+  if (!payload) throw unauthorized();
+  try {
+    const claims = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+    if (claims.sub) return String(claims.sub);
+  } catch (e) { /* malformed token */ }
+  throw unauthorized();
+};
+
+// Access tokens live for an hour; concurrent 401s share a single refresh
+let refreshing: Promise<boolean> | null = null;
+const tokenListeners = new Set<(token: string) => void>();
+
+const refreshSession = (): Promise<boolean> => {
+  if (refreshing) return refreshing;
+  refreshing = (async () => {
+    const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+    if (!refreshToken) return false;
+    try {
+      const { url, key } = getSupabaseConfig();
+      const res = await fetch(`${url}/auth/v1/token?grant_type=refresh_token`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'apikey': key },
+        body: JSON.stringify({ refresh_token: refreshToken })
+      });
+      if (!res.ok) return false;
+      const session = await res.json();
+      // The store owns `authToken`, but a refreshed token has to replace it in place
+      localStorage.setItem('authToken', session.access_token);
+      localStorage.setItem(REFRESH_TOKEN_KEY, session.refresh_token);
+      tokenListeners.forEach(listener => listener(session.access_token));
+      return true;
+    } catch (e) {
+      return false;
+    }
+  })().finally(() => { refreshing = null; });
+  return refreshing;
+};
+
+// Generic request wrapper. PostgREST answers writes with an empty body unless asked otherwise.
+const request = async (endpoint: string, options: SupabaseRequestInit = {}, isRetry = false): Promise<any> => {
+  const { silent, prefer, headers, ...fetchOptions } = options;
+  let response: Response;
+  try {
+    response = await fetch(`${getSupabaseConfig().url}${endpoint}`, {
+      ...fetchOptions,
+      headers: {
+        ...getHeaders(),
+        ...(prefer ? { 'Prefer': prefer } : {}),
+        ...headers,
+      },
+    });
+  } catch (error) {
+    if (!silent) console.error(`Request failed to ${endpoint}:`, error);
+    throw error;
+  }
+
+  if (response.status === 401 && !isRetry && await refreshSession()) {
+    return request(endpoint, options, true);
+  }
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => null);
+    const errorMessage = errorData?.message || errorData?.msg || errorData?.error_description || `API Error: ${response.status} ${response.statusText}`;
+    const error = new Error(errorMessage);
+    (error as any).status = response.status;
+    if (!silent) console.error(`Request failed to ${endpoint}:`, error);
+    throw error;
+  }
+
+  const text = await response.text();
+  return text ? JSON.parse(text) : null;
+};
+
+// Auth endpoints must not carry a stale user token
+const authRequest = (endpoint: string, body: any) =>
+  request(`/auth/v1${endpoint}`, {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${getSupabaseConfig().key}` },
+    body: JSON.stringify(body)
+  }, true);
+
+const fetchProfile = async (userId: string, token?: string): Promise<User> => {
+  const rows = await request(`/rest/v1/users?id=eq.${userId}&select=*`, {
+    headers: token ? { 'Authorization': `Bearer ${token}` } : {},
+    silent: true
+  });
+  if (!Array.isArray(rows) || !rows[0]) {
+    const error = new Error("User profile could not be loaded.");
+    (error as any).status = 404;
+    throw error;
+  }
+  return mapUser(rows[0]);
+};
+
+const toUserRow = (data: Partial<User>) => {
+  const row: Record<string, any> = {};
+  if (data.username !== undefined) row.username = data.username;
+  if (data.bio !== undefined) row.bio = data.bio;
+  if (data.avatarUrl !== undefined) row.avatar_url = data.avatarUrl;
+  if (data.status !== undefined) row.status = data.status;
+  return row;
+};
+
+// Attachments are rows of their own here rather than a JSON column on the message
+const ATTACHMENT_KINDS: Record<string, Attachment['type']> = { IMAGE: 'image', VIDEO: 'video', AUDIO: 'audio', DOCUMENT: 'file' };
+const FILE_TYPES: Record<Attachment['type'], string> = { image: 'IMAGE', video: 'VIDEO', audio: 'AUDIO', file: 'DOCUMENT' };
+
+const toAttachmentRow = (messageId: string, a: Attachment) => ({
+  message_id: messageId,
+  file_url: a.url,
+  file_type: FILE_TYPES[a.type] || 'DOCUMENT',
+  mime_type: a.mimeType,
+  file_size: a.size,
+  file_name: a.name
+});
+
+const withAttachments = (row: any) => row && {
+  ...row,
+  attachments: Array.isArray(row.attachments) ? row.attachments.map((a: any): Attachment => ({
+    id: String(a.id),
+    type: ATTACHMENT_KINDS[a.file_type] || 'file',
+    url: a.file_url,
+    name: a.file_name || '',
+    size: Number(a.file_size) || 0,
+    mimeType: a.mime_type || ''
+  })) : []
+};
+
+// Embeds are aliased to the shapes the shared mappers expect
+const MESSAGE_SELECT = '*,attachments(*),_message_reads:message_reads(user_id,read_at),_reply_to:messages!reply_to_id(id,sender_id,content,type),_reactions:message_reactions(user_id,emoji,created_at),_forwarded_from:users!forwarded_from_id(id,username)';
+const CHAT_SELECT = `*,_chat_members:chat_members(role,user:users(*)),_last_message:messages(${MESSAGE_SELECT}),_pins:chat_pins(message_id,pinned_by,pinned_at,message:messages(id,sender_id,content,type))`;
+
+const toMessage = (row: any): Message => mapMessage(withAttachments(row));
+
+// `_last_message` arrives as a one-element list
+const toChatRow = (row: any) => {
+  const last = Array.isArray(row._last_message) ? row._last_message[0] : row._last_message;
+  return { ...row, _last_message: last ? withAttachments(last) : undefined };
+};
+
+// Messages from others after our read marker, per chat, counted by a SQL function (see база.txt).
+// Without it mapChat falls back to an unread dot.
+const fetchUnreadCounts = async (): Promise<Map<string, number> | null> => {
+  try {
+    const rows = await request('/rest/v1/rpc/chat_unread_counts', { method: 'POST', body: '{}', silent: true });
+    return new Map((Array.isArray(rows) ? rows : []).map((r: any) => [String(r.chat_id), Number(r.unread_count) || 0]));
+  } catch (e) {
+    console.warn("Could not load unread counts", e);
+    return null;
+  }
+};
+
+// Our Chat_Members rows with the chat embedded; the read marker, mute and draft live on the membership
+const fetchChats = async (filter = ''): Promise<Chat[]> => {
+  const me = getSessionUserId();
+  const params = new URLSearchParams({
+    select: `last_read_at,marked_unread,muted,draft,draft_updated_at,chat:chats(${CHAT_SELECT})`,
+    'chat._last_message.order': 'created_at.desc',
+    'chat._last_message.limit': '1'
+  });
+  const [rows, counts] = await Promise.all([
+    request(`/rest/v1/chat_members?user_id=eq.${me}${filter}&${params}`),
+    fetchUnreadCounts()
+  ]);
+  if (!Array.isArray(rows)) return [];
+  return rows
+    .filter(r => r.chat)
+    .map(r => mapChat(toChatRow({
+      ...r.chat,
+      // Chats the function didn't list have nothing unread
+      unread_count: counts ? counts.get(String(r.chat.id)) ?? 0 : undefined,
+      last_read_at: r.last_read_at,
+      marked_unread: r.marked_unread,
+      muted: r.muted,
+      draft: r.draft,
+      draft_updated_at: r.draft_updated_at
+    })));
+};
+
+// User ids for friend codes, all or nothing
+const resolveFriendCodes = async (friendCodes: string[]): Promise<string[]> => {
+  const found = await request(`/rest/v1/users?friend_code=in.(${friendCodes.map(encodeURIComponent).join(',')})&select=id,friend_code`);
+  const rows: any[] = Array.isArray(found) ? found : [];
+  const missing = friendCodes.filter(code => !rows.some(r => String(r.friend_code) === code));
+  if (missing.length > 0) throw new Error(`No user found with friend code ${missing.join(', ')}.`);
+  return rows.map(r => String(r.id));
+};
+
+// Unambiguous characters only, since people may type these in
+const INVITE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+const generateInviteCode = (length = 10) =>
+  Array.from(crypto.getRandomValues(new Uint8Array(length)), n => INVITE_ALPHABET[n % INVITE_ALPHABET.length]).join('');
+
+// Both people of a Contacts row, told apart by the foreign key column
+const CONTACT_SELECT = 'user_id,friend_id,status,created_at,requester:users!user_id(*),addressee:users!friend_id(*)';
+
+// Turns a Contacts row around to our side, as mapContact expects
+const toContactRow = (row: any, me: string) => {
+  const isIncoming = String(row.friend_id) === me;
+  return { user: isIncoming ? row.requester : row.addressee, status: row.status, incoming: isIncoming, created_at: row.created_at };
+};
+
+// The row between us and them, whoever sent the request
+const contactBetween = (me: string, otherId: string) =>
+  `or=(and(user_id.eq.${me},friend_id.eq.${otherId}),and(user_id.eq.${otherId},friend_id.eq.${me}))`;
+
+const updateMembership = (chatId: string, changes: Record<string, any>) =>
+  request(`/rest/v1/chat_members?chat_id=eq.${chatId}&user_id=eq.${getSessionUserId()}`, {
+    method: 'PATCH',
+    body: JSON.stringify(changes)
+  });
+
+// Message-id cursors are turned into timestamps, which is what the table is ordered by
+// Request failures propagate; a message id we can't see (deleted, wrong chat) resolves to null
+const resolveCursor = async (value?: string | Date): Promise<string | null | undefined> => {
+  if (!value) return undefined;
+  if (value instanceof Date) return value.toISOString();
+  const rows = await request(`/rest/v1/messages?id=eq.${value}&select=created_at`, { silent: true });
+  return Array.isArray(rows) && rows[0] ? rows[0].created_at : null;
+};
+
+const startSession = async (session: any): Promise<AuthResult> => {
+  if (!session?.access_token) {
+    throw new Error("Please confirm your email address, then log in.");
+  }
+  localStorage.setItem(REFRESH_TOKEN_KEY, session.refresh_token);
+  return { authToken: session.access_token, user: await fetchProfile(session.user.id, session.access_token) };
+};
+
+export const supabaseBackend: BackendAdapter = {
+  auth: {
+    login: async (email: string, password?: string): Promise<AuthResult> => {
+      const session = await authRequest('/token?grant_type=password', { email, password: password || 'password123' });
+      return startSession(session);
+    },
+
+    signup: async (email: string, username: string, password?: string): Promise<AuthResult> => {
+      const session = await authRequest('/signup', {
+        email,
+        password: password || 'password123',
+        data: { username }
+      });
+      if (!session?.access_token) return startSession(session);
+
+      // Create (or complete, if a trigger already did) the public profile row
+      const userId = session.user.id;
+      await request('/rest/v1/users', {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${session.access_token}` },
+        prefer: 'resolution=merge-duplicates',
+        body: JSON.stringify({
+          id: userId,
+          email,
+          username,
+          friend_code: generateFriendCode(userId),
+          status: UserStatus.ONLINE
+        })
+      });
+      return startSession(session);
+    },
+
+    getMe: async (): Promise<User> => fetchProfile(getSessionUserId()),
+
+    logout: async (): Promise<void> => {
+      localStorage.removeItem(REFRESH_TOKEN_KEY);
+      await request('/auth/v1/logout', { method: 'POST', silent: true }, true).catch(() => {});
+    },
+
+    onTokenChange: (listener: (token: string) => void) => {
+      tokenListeners.add(listener);
+      return () => { tokenListeners.delete(listener); };
+    },
+  },
+
+  chats: {
+    list: async (): Promise<Chat[]> => fetchChats(),
+
+    // Reuses the existing direct chat with that user, otherwise creates one
+    create: async (friendCode: string): Promise<Chat> => {
+      const me = getSessionUserId();
+      const friends = await request(`/rest/v1/users?friend_code=eq.${encodeURIComponent(friendCode)}&select=id`);
+      const friendId = Array.isArray(friends) && friends[0] ? String(friends[0].id) : null;
+      if (!friendId) throw new Error("No user found with that friend code.");
+      if (friendId === me) throw new Error("That's your own friend code.");
+
+      const direct = await request(`/rest/v1/chat_members?user_id=eq.${me}&select=chat_id,chat:chats!inner(is_group)&chat.is_group=eq.false`);
+      const directIds: string[] = Array.isArray(direct) ? direct.map((m: any) => String(m.chat_id)) : [];
+      if (directIds.length > 0) {
+        const shared = await request(`/rest/v1/chat_members?user_id=eq.${friendId}&chat_id=in.(${directIds.join(',')})&select=chat_id`);
+        if (Array.isArray(shared) && shared[0]) {
+          const [existing] = await fetchChats(`&chat_id=eq.${shared[0].chat_id}`);
+          if (existing) return existing;
+        }
+      }
+
+      // RLS only lets us write our own membership, so a SQL function checks that they accepted
+      // us as a contact and adds both rows (see база.txt)
+      const chatId = await request('/rest/v1/rpc/create_direct_chat', {
+        method: 'POST',
+        body: JSON.stringify({ friend: friendId })
+      });
+
+      const [chat] = await fetchChats(`&chat_id=eq.${chatId}`);
+      if (!chat) throw new Error("Chat was created but could not be loaded.");
+      return chat;
+    },
+
+    createGroup: async (name: string, friendCodes: string[], avatarUrl?: string): Promise<Chat> => {
+      const me = getSessionUserId();
+      const memberIds = (await resolveFriendCodes(friendCodes)).filter(id => id !== me);
+
+      // As in create(), a SQL function adds the other members, each of whom must be our contact
+      const chatId = await request('/rest/v1/rpc/create_group', {
+        method: 'POST',
+        body: JSON.stringify({ group_name: name, group_avatar_url: avatarUrl || null, members: memberIds })
+      });
+
+      const [chat] = await fetchChats(`&chat_id=eq.${chatId}`);
+      if (!chat) throw new Error("Group was created but could not be loaded.");
+      return chat;
+    },
+
+    markRead: async (chatId: string): Promise<void> => {
+      await updateMembership(chatId, { last_read_at: new Date().toISOString(), marked_unread: false });
+    },
+    markUnread: async (chatId: string): Promise<void> => {
+      await updateMembership(chatId, { marked_unread: true });
+    },
+    setMuted: async (chatId: string, muted: boolean): Promise<void> => {
+      await updateMembership(chatId, { muted });
+    },
+    saveDraft: async (chatId: string, draft: Draft): Promise<void> => {
+      await updateMembership(chatId, { draft: draft.text, draft_updated_at: draft.updatedAt.toISOString() });
+    },
+
+    // pin_message writes the pin and its SYSTEM notice (a reply to the pinned message) together
+    pin: async (chatId: string, messageId: string): Promise<Message | undefined> => {
+      const noticeId = await request('/rest/v1/rpc/pin_message', {
+        method: 'POST',
+        body: JSON.stringify({ target: chatId, message: messageId })
+      });
+      if (!noticeId) return undefined;
+      const rows = await request(`/rest/v1/messages?id=eq.${noticeId}&select=${encodeURIComponent(MESSAGE_SELECT)}`);
+      return Array.isArray(rows) && rows[0] ? toMessage(rows[0]) : undefined;
+    },
+
+    unpin: async (chatId: string, messageId: string): Promise<void> => {
+      await request(`/rest/v1/chat_pins?chat_id=eq.${chatId}&message_id=eq.${messageId}`, { method: 'DELETE' });
+    }
+  },
+
+  // Admin rights are enforced by RLS on chats, chat_members and group_invites, and by the
+  // add_group_members function (see база.txt)
+  groups: {
+    update: async (chatId: string, changes: GroupChanges): Promise<void> => {
+      const row: Record<string, any> = { updated_at: new Date().toISOString() };
+      if (changes.name !== undefined) row.name = changes.name;
+      if (changes.avatarUrl !== undefined) row.avatar_url = changes.avatarUrl;
+      await request(`/rest/v1/chats?id=eq.${chatId}`, { method: 'PATCH', body: JSON.stringify(row) });
+    },
+
+    addMembers: async (chatId: string, friendCodes: string[]): Promise<Chat> => {
+      const userIds = await resolveFriendCodes(friendCodes);
+      await request('/rest/v1/rpc/add_group_members', {
+        method: 'POST',
+        body: JSON.stringify({ target: chatId, members: userIds })
+      });
+      const [chat] = await fetchChats(`&chat_id=eq.${chatId}`);
+      if (!chat) throw new Error("Members were added but the group could not be loaded.");
+      return chat;
+    },
+
+    removeMember: async (chatId: string, userId: string): Promise<void> => {
+      await request(`/rest/v1/chat_members?chat_id=eq.${chatId}&user_id=eq.${userId}`, { method: 'DELETE' });
+    },
+
+    setRole: async (chatId: string, userId: string, role: ChatRole): Promise<void> => {
+      await request(`/rest/v1/chat_members?chat_id=eq.${chatId}&user_id=eq.${userId}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ role })
+      });
+    },
+
+    leave: async (chatId: string): Promise<void> => {
+      await request(`/rest/v1/chat_members?chat_id=eq.${chatId}&user_id=eq.${getSessionUserId()}`, { method: 'DELETE' });
+    },
+
+    listInvites: async (chatId: string): Promise<GroupInvite[]> => {
+      const rows = await request(`/rest/v1/group_invites?chat_id=eq.${chatId}&order=created_at.desc`);
+      return Array.isArray(rows) ? rows.map(mapGroupInvite) : [];
+    },
+
+    createInvite: async (chatId: string, expiresAt?: Date): Promise<GroupInvite> => {
+      const rows = await request('/rest/v1/group_invites', {
+        method: 'POST',
+        prefer: 'return=representation',
+        body: JSON.stringify({
+          chat_id: chatId,
+          code: generateInviteCode(),
+          created_by: getSessionUserId(),
+          created_at: new Date().toISOString(),
+          expires_at: expiresAt ? expiresAt.toISOString() : null
+        })
+      });
+      return mapGroupInvite(Array.isArray(rows) ? rows[0] : rows);
+    },
+
+    revokeInvite: async (chatId: string, inviteId: string): Promise<void> => {
+      await request(`/rest/v1/group_invites?chat_id=eq.${chatId}&id=eq.${inviteId}`, { method: 'DELETE' });
+    },
+
+    // Outsiders can't see the invite or the group, so the check and the insert happen in a SQL function
+    joinByInvite: async (code: string): Promise<Chat> => {
+      const chatId = await request('/rest/v1/rpc/join_group_by_invite', {
+        method: 'POST',
+        body: JSON.stringify({ invite_code: code })
+      });
+      if (!chatId) throw new Error("This invite is invalid or has expired.");
+      const [chat] = await fetchChats(`&chat_id=eq.${chatId}`);
+      if (!chat) throw new Error("Joined the group but it could not be loaded.");
+      return chat;
+    }
+  },
+
+  contacts: {
+    list: async (): Promise<Contact[]> => {
+      const me = getSessionUserId();
+      const rows = await request(`/rest/v1/contacts?or=(user_id.eq.${me},friend_id.eq.${me})&select=${CONTACT_SELECT}&order=created_at.desc`);
+      return Array.isArray(rows) ? rows.map(r => mapContact(toContactRow(r, me))) : [];
+    },
+
+    request: async (friendCode: string): Promise<Contact> => {
+      const me = getSessionUserId();
+      const [friendId] = await resolveFriendCodes([friendCode]);
+      if (friendId === me) throw new Error("That's your own friend code.");
+
+      const existing = await request(`/rest/v1/contacts?${contactBetween(me, friendId)}&select=${CONTACT_SELECT}`);
+      const row = Array.isArray(existing) ? existing[0] : undefined;
+      if (row?.status === 'BLOCKED') throw new Error("You can't send a friend request to this user.");
+      if (row?.status === 'PENDING' && String(row.friend_id) === me) {
+        // They asked us first, so this is a yes
+        await request(`/rest/v1/contacts?user_id=eq.${friendId}&friend_id=eq.${me}`, {
+          method: 'PATCH',
+          body: JSON.stringify({ status: 'ACCEPTED' })
+        });
+        return mapContact(toContactRow({ ...row, status: 'ACCEPTED' }, me));
+      }
+      if (row) return mapContact(toContactRow(row, me));
+
+      const rows = await request(`/rest/v1/contacts?select=${CONTACT_SELECT}`, {
+        method: 'POST',
+        prefer: 'return=representation',
+        body: JSON.stringify({ user_id: me, friend_id: friendId, status: 'PENDING', created_at: new Date().toISOString() })
+      });
+      return mapContact(toContactRow(Array.isArray(rows) ? rows[0] : rows, me));
+    },
+
+    // Only the person who was asked may accept (enforced by RLS)
+    accept: async (userId: string): Promise<void> => {
+      await request(`/rest/v1/contacts?user_id=eq.${userId}&friend_id=eq.${getSessionUserId()}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ status: 'ACCEPTED' })
+      });
+    },
+
+    remove: async (userId: string): Promise<void> => {
+      await request(`/rest/v1/contacts?${contactBetween(getSessionUserId(), userId)}`, { method: 'DELETE' });
+    }
+  },
+
+  messages: {
+    // Fetches one row past the limit to learn whether there is more
+    list: async (chatId: string, cursor: MessageCursor = {}): Promise<MessagePage> => {
+      const limit = cursor.limit || MESSAGE_PAGE_SIZE;
+      const [before, after] = await Promise.all([resolveCursor(cursor.before), resolveCursor(cursor.after)]);
+      // Without its anchor the page would silently be the newest one. Nothing is known before a
+      // lost anchor; after one there may be a gap, so report more and let the caller reload.
+      if (before === null || after === null) return { messages: [], hasMore: after === null };
+
+      const params = new URLSearchParams({ chat_id: `eq.${chatId}`, select: MESSAGE_SELECT, limit: String(limit + 1) });
+      if (before) params.append('created_at', `lt.${before}`);
+      if (after) params.append('created_at', `gt.${after}`);
+      // Newest page and `before` read backwards from the cursor, `after` reads forwards
+      params.set('order', after && !before ? 'created_at.asc' : 'created_at.desc');
+
+      const rows = await request(`/rest/v1/messages?${params}`);
+      const list: any[] = Array.isArray(rows) ? rows : [];
+      const messages = list.slice(0, limit).map(toMessage).sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+      return { messages, hasMore: list.length > limit };
+    },
+
+    send: async (chatId: string, content: string, type: string, attachments: Attachment[] = [], options: SendMessageOptions = {}): Promise<Message> => {
+      const [row] = await request(`/rest/v1/messages?select=${encodeURIComponent(MESSAGE_SELECT)}`, {
+        method: 'POST',
+        prefer: 'return=representation',
+        body: JSON.stringify({
+          chat_id: chatId,
+          sender_id: getSessionUserId(),
+          content,
+          type,
+          reply_to_id: options.replyToId || null,
+          forwarded_from_id: options.forwardedFromId || null,
+          no_link_preview: !!options.noLinkPreview,
+          mentions: toMentionRows(options.mentions)
+        })
+      });
+
+      const attachmentRows = attachments.length > 0
+        ? await request('/rest/v1/attachments', {
+            method: 'POST',
+            prefer: 'return=representation',
+            body: JSON.stringify(attachments.map(a => toAttachmentRow(row.id, a)))
+          })
+        : [];
+
+      // Chats are sorted by updated_at
+      request(`/rest/v1/chats?id=eq.${chatId}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ updated_at: row.created_at }),
+        silent: true
+      }).catch(() => {});
+
+      return toMessage({ ...row, attachments: attachmentRows });
+    },
+
+    markRead: async (chatId: string, messageIds: string[]): Promise<void> => {
+      const userId = getSessionUserId();
+      const readAt = new Date().toISOString();
+      await request('/rest/v1/message_reads', {
+        method: 'POST',
+        prefer: 'resolution=ignore-duplicates',
+        body: JSON.stringify(messageIds.map(id => ({ message_id: id, user_id: userId, read_at: readAt })))
+      });
+    },
+
+    // edit_message checks the author and the edit window, and stores the replaced text as a revision
+    // in the same transaction as the update (see база.txt)
+    edit: async (chatId: string, messageId: string, content: string, mentions: Mention[] = []): Promise<Message> => {
+      await request('/rest/v1/rpc/edit_message', {
+        method: 'POST',
+        body: JSON.stringify({ message: messageId, new_content: content, new_mentions: toMentionRows(mentions) })
+      });
+      const rows = await request(`/rest/v1/messages?id=eq.${messageId}&select=${encodeURIComponent(MESSAGE_SELECT)}`);
+      if (!Array.isArray(rows) || !rows[0]) throw new Error("Message could not be edited.");
+      return toMessage(rows[0]);
+    },
+
+    listRevisions: async (chatId: string, messageId: string): Promise<MessageRevision[]> => {
+      const rows = await request(`/rest/v1/message_edits?message_id=eq.${messageId}&select=content,edited_at&order=edited_at.asc`);
+      return mapRevisions(rows);
+    },
+
+    // Earlier revisions go too: "deleted for everyone" must not stay readable in the history (or a pin)
+    delete: async (chatId: string, messageId: string): Promise<void> => {
+      await request(`/rest/v1/messages?id=eq.${messageId}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ is_deleted: true, content: '' })
+      });
+      await Promise.all([
+        request(`/rest/v1/attachments?message_id=eq.${messageId}`, { method: 'DELETE' }),
+        request(`/rest/v1/message_edits?message_id=eq.${messageId}`, { method: 'DELETE' }),
+        request(`/rest/v1/message_reactions?message_id=eq.${messageId}`, { method: 'DELETE' }),
+        request(`/rest/v1/chat_pins?message_id=eq.${messageId}`, { method: 'DELETE' })
+      ]);
+    },
+
+    addReaction: async (chatId: string, messageId: string, emoji: string): Promise<void> => {
+      await request('/rest/v1/message_reactions', {
+        method: 'POST',
+        prefer: 'resolution=ignore-duplicates',
+        body: JSON.stringify({ message_id: messageId, user_id: getSessionUserId(), emoji })
+      });
+    },
+
+    removeReaction: async (chatId: string, messageId: string, emoji: string): Promise<void> => {
+      const params = new URLSearchParams({ message_id: `eq.${messageId}`, user_id: `eq.${getSessionUserId()}`, emoji: `eq.${emoji}` });
+      await request(`/rest/v1/message_reactions?${params}`, { method: 'DELETE' });
+    }
+  },
+
+  // Due rows are posted by the deliver_scheduled_messages() cron job in the database
+  scheduled: {
+    list: async (chatId: string): Promise<ScheduledMessage[]> => {
+      const rows = await request(`/rest/v1/scheduled_messages?chat_id=eq.${chatId}&sender_id=eq.${getSessionUserId()}&order=send_at.asc`);
+      return mapScheduledMessages(rows);
+    },
+
+    create: async (chatId: string, content: string, sendAt: Date, options: SendMessageOptions = {}): Promise<ScheduledMessage> => {
+      const [row] = await request('/rest/v1/scheduled_messages', {
+        method: 'POST',
+        prefer: 'return=representation',
+        body: JSON.stringify({
+          chat_id: chatId,
+          sender_id: getSessionUserId(),
+          content,
+          send_at: sendAt.toISOString(),
+          reply_to_id: options.replyToId || null,
+          no_link_preview: !!options.noLinkPreview,
+          mentions: toMentionRows(options.mentions)
+        })
+      });
+      return mapScheduledMessage(row);
+    },
+
+    update: async (chatId: string, scheduledId: string, changes: ScheduledMessageChanges): Promise<ScheduledMessage> => {
+      const [row] = await request(`/rest/v1/scheduled_messages?id=eq.${scheduledId}&sender_id=eq.${getSessionUserId()}`, {
+        method: 'PATCH',
+        prefer: 'return=representation',
+        body: JSON.stringify({ content: changes.content, send_at: changes.sendAt.toISOString(), mentions: toMentionRows(changes.mentions) })
+      });
+      if (!row) throw new Error("This message has already been sent.");
+      return mapScheduledMessage(row);
+    },
+
+    cancel: async (chatId: string, scheduledId: string): Promise<void> => {
+      await request(`/rest/v1/scheduled_messages?id=eq.${scheduledId}&sender_id=eq.${getSessionUserId()}`, { method: 'DELETE' });
+    },
+
+    // Taking the row out first means the cron job can't post it a second time
+    sendNow: async (chatId: string, scheduledId: string): Promise<Message> => {
+      const [row] = await request(`/rest/v1/scheduled_messages?id=eq.${scheduledId}&sender_id=eq.${getSessionUserId()}`, {
+        method: 'DELETE',
+        prefer: 'return=representation'
+      });
+      if (!row) throw new Error("This message has already been sent.");
+      const scheduled = mapScheduledMessage(row);
+      try {
+        return await supabaseBackend.messages.send(chatId, scheduled.content, MessageType.TEXT, [], {
+          replyToId: scheduled.replyToId,
+          noLinkPreview: scheduled.noLinkPreview,
+          mentions: scheduled.mentions
+        });
+      } catch (e) {
+        // Put it back so the job still delivers it on time
+        await request('/rest/v1/scheduled_messages', { method: 'POST', body: JSON.stringify(row), silent: true }).catch(() => {});
+        throw e;
+      }
+    }
+  },
+
+  users: {
+    update: async (userId: string, data: Partial<User>): Promise<User> => {
+      try {
+        const rows = await request(`/rest/v1/users?id=eq.${userId}`, {
+          method: 'PATCH',
+          prefer: 'return=representation',
+          body: JSON.stringify(toUserRow(data))
+        });
+        if (Array.isArray(rows) && rows[0]) return mapUser(rows[0]);
+      } catch (e) {
+        console.error("Profile update failed", e);
+      }
+      throw new Error("Failed to save profile changes.");
+    },
+
+    setPresence: async (status: UserStatus, options: PresenceOptions = {}): Promise<void> => {
+      await request(`/rest/v1/users?id=eq.${getSessionUserId()}`, {
+        method: 'PATCH',
+        body: JSON.stringify({
+          status,
+          status_text: options.text || null,
+          status_expires_at: options.expiresAt ? options.expiresAt.toISOString() : null,
+          last_seen: new Date().toISOString()
+        }),
+        keepalive: options.keepalive,
+        silent: true
+      });
+    },
+
+    heartbeat: async (status: UserStatus): Promise<void> => {
+      await request(`/rest/v1/users?id=eq.${getSessionUserId()}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ status, last_seen: new Date().toISOString() }),
+        silent: true
+      });
+    }
+  },
+
+  realtime: {
+    ...realtimeCodec,
+    // Pushed rows carry attachments as table rows, like PostgREST does
+    decode: (envelope: RealtimeEnvelope, me: string) => {
+      if (!envelope.data) return null;
+      switch (envelope.event) {
+        case 'message.new':
+        case 'message.updated':
+          return realtimeCodec.decode({ ...envelope, data: withAttachments(envelope.data) }, me);
+        case 'chat.new':
+        case 'chat.updated':
+          return realtimeCodec.decode({ ...envelope, data: toChatRow(envelope.data) }, me);
+        // Contacts rows come as stored; the other person is whichever end isn't us
+        case 'contact.updated':
+          return realtimeCodec.decode({ ...envelope, data: toContactRow(envelope.data, me) }, me);
+        case 'contact.removed': {
+          const isIncoming = String(envelope.data.friend_id) === me;
+          return realtimeCodec.decode({ ...envelope, data: { user_id: isIncoming ? envelope.data.user_id : envelope.data.friend_id } }, me);
+        }
+        default:
+          return realtimeCodec.decode(envelope, me);
+      }
+    }
+  },
+
+  storage: supabaseStorage
+};
@@ -21,6 +21,8 @@ export interface User {
   avatarUrl: string;
   friendCode: string; // Unique generated code
   status: UserStatus;
+  statusText?: string; // Custom text shown with a manual status, e.g. "In a meeting"
+  statusExpiresAt?: Date; // When a manual status falls back to automatic presence
   bio?: string; // Profile description
   lastSeen?: Date;
 }
@@ -34,6 +36,51 @@ export interface Attachment {
   mimeType: string;
 }
 
+// Delivery state of our own messages: pending (queued in the outbox) -> sent -> delivered -> read.
+// 'failed' marks an outbox item that keeps failing and needs the user's attention.
+export type MessageStatus = 'pending' | 'failed' | 'sent' | 'delivered' | 'read';
+
+export interface ReadReceipt {
+  userId: string;
+  readAt?: Date;
+}
+
+// Snapshot of the parent of a reply, so the quote renders even when the parent isn't loaded
+export interface ReplyPreview {
+  id: string;
+  senderId: string;
+  content?: string;
+  type: MessageType;
+}
+
+// Original author of a forwarded message (the name is kept since they may not be in this chat)
+export interface ForwardedFrom {
+  userId: string;
+  username: string;
+}
+
+// Unfurled metadata of a link in a message
+export interface LinkPreview {
+  url: string;
+  title?: string;
+  description?: string;
+  imageUrl?: string;
+  siteName?: string;
+}
+
+// "@username" in the content: `offset` and `length` cover the @ and the name
+export interface Mention {
+  userId: string;
+  offset: number;
+  length: number;
+}
+
+// Everyone who reacted with one emoji
+export interface Reaction {
+  emoji: string;
+  userIds: string[];
+}
+
 export interface Message {
   id: string;
   chatId: string;
@@ -43,19 +90,125 @@ export interface Message {
   attachments?: Attachment[];
   createdAt: Date;
   readBy: string[]; // Array of user IDs
+  readReceipts?: ReadReceipt[]; // Same readers with timestamps (from Message_Reads)
+  deliveredTo?: string[]; // User IDs whose client acknowledged the message
+  status?: MessageStatus; // Only tracked for our own messages
+  replyToId?: string;
+  replyTo?: ReplyPreview;
+  editedAt?: Date; // Set once the content has been edited
+  isDeleted?: boolean; // Deleted for everyone: content and attachments are gone
+  reactions?: Reaction[]; // In the order each emoji was first used
+  forwardedFrom?: ForwardedFrom;
+  noLinkPreview?: boolean; // The sender removed the link preview before sending
+  mentions?: Mention[];
+}
+
+// An earlier text of an edited message; `editedAt` is when it was replaced
+export interface MessageRevision {
+  content: string;
+  editedAt: Date;
+}
+
+// Cursor for paging through history: a message id or a timestamp on either side
+export interface MessageCursor {
+  before?: string | Date;
+  after?: string | Date;
+  limit?: number;
+}
+
+export interface MessagePage {
+  messages: Message[]; // Oldest first
+  hasMore: boolean; // More messages exist beyond this page in the requested direction
+}
+
+// A text message the server posts by itself at `sendAt`, whether or not any of our tabs is open
+export interface ScheduledMessage {
+  id: string;
+  chatId: string;
+  content: string;
+  sendAt: Date;
   replyToId?: string;
+  mentions?: Mention[];
+  noLinkPreview?: boolean;
+  createdAt: Date;
+}
+
+export interface PinnedMessage {
+  messageId: string;
+  pinnedBy: string;
+  pinnedAt: Date;
+  message?: ReplyPreview; // Snapshot for the banner, since the message itself may not be loaded
+}
+
+export type TypingActivity = 'typing' | 'recording';
+
+// Unsent composer text of one chat; an empty text means the draft was cleared at `updatedAt`
+export interface Draft {
+  text: string;
+  updatedAt: Date;
+}
+
+// Contacts.status; a request is PENDING until the other person accepts it
+export type ContactStatus = 'PENDING' | 'ACCEPTED' | 'BLOCKED';
+
+// A Contacts row seen from our side: `user` is always the other person
+export interface Contact {
+  user: User;
+  status: ContactStatus;
+  isIncoming: boolean; // They sent the request (we are its friend_id)
+  createdAt: Date;
+}
+
+// Chat_Members.role; only groups use ADMIN
+export type ChatRole = 'ADMIN' | 'MEMBER';
+
+// A shareable way into a group, as a code or a link carrying it (see getInviteLink)
+export interface GroupInvite {
+  id: string;
+  chatId: string;
+  code: string;
+  createdBy: string;
+  createdAt: Date;
+  expiresAt?: Date; // Never expires when missing
 }
 
 export interface Chat {
   id: string;
   name?: string; // For groups
+  avatarUrl?: string; // For groups; direct chats show the other person's avatar
   participants: User[];
+  memberRoles?: Record<string, ChatRole>; // Keyed by user id; undefined when the payload had no members
   lastMessage?: Message;
   unreadCount: number;
+  unreadMentionCount?: number; // Unread messages that mention us
+  lastReadAt?: Date; // Our read marker from Chat_Members
+  markedUnread?: boolean; // Manually flagged via "Mark as unread"
+  pins?: PinnedMessage[]; // Oldest first; undefined when the server payload didn't include them
+  isMuted?: boolean; // No notifications, except for mentions
+  draft?: Draft; // Server copy, so a draft started on another device shows up here
   isGroup: boolean;
   typingUsers: string[]; // IDs of users currently typing
+  typingActivity?: Record<string, TypingActivity>; // What each of typingUsers is doing
 }
 
+// Decoded server push events (see realtime.ts for the wire format)
+export type RealtimeEvent =
+  | { type: 'message.new'; message: Message }
+  | { type: 'message.updated'; message: Message }
+  | { type: 'message.deleted'; chatId: string; messageId: string }
+  | { type: 'message.reaction'; chatId: string; messageId: string; userId: string; emoji: string; added: boolean }
+  | { type: 'chat.updated'; chat: Chat }
+  | { type: 'chat.new'; chat: Chat }
+  | { type: 'chat.removed'; chatId: string } // We left or were removed from a group
+  | { type: 'contact.updated'; contact: Contact } // A friend request arrived, or one of ours was accepted
+  | { type: 'contact.removed'; userId: string } // Declined, cancelled or removed by the other person
+  | { type: 'chat.pins'; chatId: string; pins: PinnedMessage[] }
+  | { type: 'scheduled.sent'; chatId: string; scheduledId: string } // Delivered; its message.new follows
+  | { type: 'typing'; chatId: string; userId: string; activity: TypingActivity | null } // null = stopped
+  | { type: 'message.read'; chatId: string; userId: string; messageIds: string[]; readAt: Date }
+  | { type: 'message.delivered'; chatId: string; userId: string; messageIds: string[] }
+  | { type: 'presence'; userId: string; status: UserStatus; statusText?: string; statusExpiresAt?: Date; lastSeen?: Date };
+
 export interface AuthState {
   user: User | null;
   isAuthenticated: boolean;
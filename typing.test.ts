@@ -0,0 +1,83 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createTypingExpiry, createTypingNotifier, TYPING_EXPIRY_MS, TYPING_IDLE_MS, TYPING_THROTTLE_MS } from './typing';
+
+describe('typing notifier', () => {
+  let send: ReturnType<typeof vi.fn>;
+  let notifier: ReturnType<typeof createTypingNotifier>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    send = vi.fn();
+    notifier = createTypingNotifier(send);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('re-sends a started event at most once per throttle window', () => {
+    for (let t = 0; t <= 2 * TYPING_THROTTLE_MS; t += 500) {
+      notifier.ping('c1', 'typing');
+      vi.advanceTimersByTime(500);
+    }
+    expect(send.mock.calls).toEqual([['c1', 'typing'], ['c1', 'typing'], ['c1', 'typing']]);
+  });
+
+  it('sends a change of activity and other chats right away', () => {
+    notifier.ping('c1', 'typing');
+    notifier.ping('c1', 'recording');
+    notifier.ping('c2', 'typing');
+    expect(send.mock.calls).toEqual([['c1', 'typing'], ['c1', 'recording'], ['c2', 'typing']]);
+  });
+
+  it('sends stopped once the user goes quiet', () => {
+    notifier.ping('c1', 'typing');
+    vi.advanceTimersByTime(TYPING_IDLE_MS - 1);
+    expect(send).toHaveBeenCalledTimes(1);
+    vi.advanceTimersByTime(1);
+    expect(send).toHaveBeenLastCalledWith('c1', null);
+
+    // Stopped by hand: no second "stopped" from the idle timer
+    send.mockClear();
+    notifier.ping('c1', 'typing');
+    notifier.stop('c1');
+    vi.advanceTimersByTime(TYPING_IDLE_MS);
+    expect(send.mock.calls).toEqual([['c1', 'typing'], ['c1', null]]);
+  });
+});
+
+describe('typing expiry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('drops an indicator whose refresh never arrives', () => {
+    const onExpire = vi.fn();
+    const expiry = createTypingExpiry(onExpire);
+
+    expiry.track('c1', 'u2', true);
+    vi.advanceTimersByTime(TYPING_EXPIRY_MS - 1000);
+    expiry.track('c1', 'u2', true);
+    vi.advanceTimersByTime(TYPING_EXPIRY_MS - 1);
+    expect(onExpire).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(onExpire.mock.calls).toEqual([['c1', 'u2']]);
+  });
+
+  it('forgets the timer when the sender stops', () => {
+    const onExpire = vi.fn();
+    const expiry = createTypingExpiry(onExpire);
+
+    expiry.track('c1', 'u2', true);
+    expiry.track('c1', 'u3', true);
+    expiry.track('c1', 'u2', false);
+    vi.advanceTimersByTime(TYPING_EXPIRY_MS);
+    expect(onExpire.mock.calls).toEqual([['c1', 'u3']]);
+  });
+});
@@ -0,0 +1,83 @@
+import { Chat, TypingActivity, User } from './types';
+
+// How often a "started" event is re-sent while the user keeps typing / recording
+export const TYPING_THROTTLE_MS = 3000;
+// Sender goes quiet for this long -> we send "stopped" ourselves
+export const TYPING_IDLE_MS = 5000;
+// Receiver drops an indicator if no refresh arrives within this window (covers lost "stopped" events)
+export const TYPING_EXPIRY_MS = 6000;
+
+type TypingSender = (chatId: string, activity: TypingActivity | null) => void;
+
+// Throttles outgoing typing events so keystrokes don't flood the socket.
+// `ping` is called on every keystroke / recording tick, `stop` when the draft is sent or abandoned.
+export const createTypingNotifier = (send: TypingSender) => {
+  const active = new Map<string, { activity: TypingActivity; sentAt: number; idleTimer: number }>();
+
+  const stop = (chatId: string) => {
+    const entry = active.get(chatId);
+    if (!entry) return;
+    clearTimeout(entry.idleTimer);
+    active.delete(chatId);
+    send(chatId, null);
+  };
+
+  const ping = (chatId: string, activity: TypingActivity) => {
+    const now = Date.now();
+    const entry = active.get(chatId);
+    const shouldSend = !entry || entry.activity !== activity || now - entry.sentAt >= TYPING_THROTTLE_MS;
+
+    if (entry) clearTimeout(entry.idleTimer);
+    const idleTimer = window.setTimeout(() => stop(chatId), TYPING_IDLE_MS);
+    active.set(chatId, { activity, sentAt: shouldSend ? now : entry!.sentAt, idleTimer });
+
+    if (shouldSend) send(chatId, activity);
+  };
+
+  const stopAll = () => {
+    Array.from(active.keys()).forEach(stop);
+  };
+
+  return { ping, stop, stopAll };
+};
+
+// Receiver side: every incoming event re-arms (or, when stopped, cancels) that user's timer, and
+// `onExpire` fires for indicators that got no refresh within TYPING_EXPIRY_MS.
+export const createTypingExpiry = (onExpire: (chatId: string, userId: string) => void) => {
+  const timers = new Map<string, number>();
+
+  const track = (chatId: string, userId: string, isActive: boolean) => {
+    const key = `${chatId}:${userId}`;
+    const timer = timers.get(key);
+    if (timer) clearTimeout(timer);
+    timers.delete(key);
+
+    if (isActive) {
+      timers.set(key, window.setTimeout(() => {
+        timers.delete(key);
+        onExpire(chatId, userId);
+      }, TYPING_EXPIRY_MS));
+    }
+  };
+
+  return { track };
+};
+
+const ACTIVITY_LABELS: Record<TypingActivity, string> = {
+  typing: 'typing',
+  recording: 'recording voice'
+};
+
+// Human readable indicator for a chat, e.g. "typing..." or "Anna is recording voice..."
+export const getTypingText = (chat: Chat, currentUserId?: string): string | null => {
+  const others = chat.typingUsers.filter(id => id !== currentUserId);
+  if (others.length === 0) return null;
+
+  const activityOf = (id: string) => chat.typingActivity?.[id] || 'typing';
+
+  if (!chat.isGroup) return `${ACTIVITY_LABELS[activityOf(others[0])]}...`;
+
+  if (others.length > 1) return `${others.length} people are typing...`;
+  const user: User | undefined = chat.participants.find(p => p.id === others[0]);
+  return `${user?.username || 'Someone'} is ${ACTIVITY_LABELS[activityOf(others[0])]}...`;
+};